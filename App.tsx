@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Platform, AppState } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
@@ -18,20 +18,60 @@ import { CollectionDetailScreen } from './src/screens/CollectionDetailScreen';
 import { NotesScreen } from './src/screens/NotesScreen';
 import { NoteEditorScreen } from './src/screens/NoteEditorScreen';
 import { SummarySettingsScreen } from './src/screens/SummarySettingsScreen';
+import { FeedsScreen } from './src/screens/FeedsScreen';
+import { BackupScreen } from './src/screens/BackupScreen';
+import { SearchScreen } from './src/screens/SearchScreen';
+import { BriefingsScreen } from './src/screens/BriefingsScreen';
+import { BriefingScreen } from './src/screens/BriefingScreen';
+import { SummaryQueueScreen } from './src/screens/SummaryQueueScreen';
+import { EntityScreen } from './src/screens/EntityScreen';
 import { notificationService } from './src/services/notificationService';
 import { initializeSummarySettings } from './src/config/initializeSummary';
 import { quickActionsService } from './src/services/quickActionsService';
 import { bookmarkStorage } from './src/services/bookmarkStorage';
+import { migrationService } from './src/services/migrationService';
+import { summaryQueue } from './src/services/summaryQueue';
 
 const Stack = createNativeStackNavigator();
 
 export default function App() {
   const navigationRef = useRef<any>(null);
   const appState = useRef(AppState.currentState);
+  const [storageReady, setStorageReady] = useState(false);
+
+  // Handle deep links
+  const handleDeepLink = (event: { url: string }) => {
+    const parsed = quickActionsService.parseDeepLink(event.url);
+    if (parsed && navigationRef.current) {
+      if (parsed.params) {
+        navigationRef.current.navigate(parsed.route, parsed.params);
+      } else {
+        navigationRef.current.navigate(parsed.route);
+      }
+    }
+  };
+
+  // Handle initial deep link if app was opened via link (once the navigator has mounted)
+  const handleNavigationReady = () => {
+    Linking.getInitialURL().then((url: string | null) => {
+      if (url) {
+        handleDeepLink({ url });
+      }
+    });
+  };
 
   useEffect(() => {
-    // Initialize AI Summary settings with API key
-    initializeSummarySettings();
+    // Bring stored data up to the current schema before any screen reads it
+    migrationService
+      .runMigrations()
+      .catch(console.error)
+      .finally(() => {
+        // Initialize AI Summary settings with API key
+        initializeSummarySettings();
+        // Summaries still queued when the app was closed
+        summaryQueue.start().catch(console.error);
+        setStorageReady(true);
+      });
     
     // Configure notification channels for Android
     notificationService.configureNotificationChannels();
@@ -70,28 +110,9 @@ export default function App() {
       }
     );
 
-    // Handle deep links
-    const handleDeepLink = (event: { url: string }) => {
-      const parsed = quickActionsService.parseDeepLink(event.url);
-      if (parsed && navigationRef.current) {
-        if (parsed.params) {
-          navigationRef.current.navigate(parsed.route, parsed.params);
-        } else {
-          navigationRef.current.navigate(parsed.route);
-        }
-      }
-    };
-
     // Listen for deep link events
     const deepLinkSubscription = Linking.addEventListener('url', handleDeepLink);
 
-    // Handle initial deep link if app was opened via link
-    Linking.getInitialURL().then((url: string | null) => {
-      if (url) {
-        handleDeepLink({ url });
-      }
-    });
-
     // App state change listener for badge updates
     const appStateSubscription = AppState.addEventListener('change', async (nextAppState) => {
       if (appState.current.match(/inactive|background/) && nextAppState === 'active') {
@@ -115,10 +136,14 @@ export default function App() {
     };
   }, []);
 
+  if (!storageReady) {
+    return null;
+  }
+
   return (
     <SafeAreaProvider>
       <ThemeProvider>
-        <NavigationContainer ref={navigationRef}>
+        <NavigationContainer ref={navigationRef} onReady={handleNavigationReady}>
           <Stack.Navigator
             screenOptions={{
               headerShown: false,
@@ -135,7 +160,14 @@ export default function App() {
             <Stack.Screen name="Analytics" component={AnalyticsScreen} />
             <Stack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
             <Stack.Screen name="SummarySettings" component={SummarySettingsScreen} />
+            <Stack.Screen name="SummaryQueue" component={SummaryQueueScreen} />
+            <Stack.Screen name="Entity" component={EntityScreen} />
             <Stack.Screen name="Settings" component={SettingsScreen} />
+            <Stack.Screen name="Feeds" component={FeedsScreen} />
+            <Stack.Screen name="Backup" component={BackupScreen} />
+            <Stack.Screen name="Search" component={SearchScreen} />
+            <Stack.Screen name="Briefings" component={BriefingsScreen} />
+            <Stack.Screen name="Briefing" component={BriefingScreen} />
           </Stack.Navigator>
         </NavigationContainer>
       </ThemeProvider>
@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { Article } from '../types';
+import { articleChatService, ChatTurn } from '../services/articleChatService';
+
+interface ArticleChatPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  article: Article;
+  onNoteSaved?: () => void;
+}
+
+const SUGGESTED_QUESTIONS = [
+  'Who is quoted?',
+  'What numbers are cited?',
+  'What happens next?',
+];
+
+// Chat about the open article; answers come only from the article text
+export const ArticleChatPanel: React.FC<ArticleChatPanelProps> = ({
+  visible,
+  onClose,
+  article,
+  onNoteSaved,
+}) => {
+  const { theme } = useTheme();
+  const [messages, setMessages] = useState<ChatTurn[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [available, setAvailable] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
+
+  // Load the saved conversation each time the panel opens
+  useEffect(() => {
+    if (!visible) return;
+    articleChatService.canAnswerQuestions().then(setAvailable);
+    articleChatService.getConversation(article.url).then(conversation => {
+      setMessages(conversation?.messages || []);
+    });
+  }, [visible, article.url]);
+
+  // An answer still being written belongs to the article it was asked about
+  useEffect(() => () => abortRef.current?.abort(), [article.url]);
+
+  const handleAsk = async (text: string = question) => {
+    const asked = text.trim();
+    if (!asked || pendingQuestion !== null) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setQuestion('');
+    setPendingQuestion(asked);
+    setAnswer('');
+    try {
+      const conversation = await articleChatService.ask(article, asked, setAnswer, controller.signal);
+      if (conversation) setMessages(conversation.messages);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to answer the question');
+      setQuestion(asked);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPendingQuestion(null);
+      setAnswer('');
+    }
+  };
+
+  // Stop the answer being written; the question is not saved
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleSaveAsNote = async () => {
+    const conversation = await articleChatService.getConversation(article.url);
+    if (!conversation || conversation.messages.length === 0) return;
+
+    setExporting(true);
+    try {
+      await articleChatService.exportToNote(conversation);
+      onNoteSaved?.();
+      Alert.alert('Saved', 'The conversation was added to your notes for this article.');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save the conversation as a note.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Conversation',
+      'Delete all questions and answers for this article?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await articleChatService.deleteConversation(article.url);
+            setMessages([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMessage = (role: ChatTurn['role'], content: string, key: React.Key) => {
+    const isQuestion = role === 'user';
+    return (
+      <View
+        key={key}
+        style={[
+          styles.message,
+          isQuestion
+            ? [styles.question, { backgroundColor: theme.primary }]
+            : [styles.answer, { backgroundColor: theme.background }],
+        ]}
+      >
+        <Text style={[styles.messageText, { color: isQuestion ? '#FFFFFF' : theme.text }]} selectable>
+          {content}
+        </Text>
+      </View>
+    );
+  };
+
+  const hasMessages = messages.length > 0;
+  const busy = pendingQuestion !== null;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} onPress={onClose} activeOpacity={1} />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={[styles.panel, { backgroundColor: theme.card, borderTopColor: theme.border }]}
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>Ask the Article</Text>
+          <View style={styles.headerActions}>
+            {hasMessages && (
+              <>
+                <TouchableOpacity onPress={handleSaveAsNote} disabled={exporting || busy} activeOpacity={0.7}>
+                  {exporting ? (
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  ) : (
+                    <Ionicons name="document-text-outline" size={22} color={theme.primary} />
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleClear} disabled={busy} activeOpacity={0.7}>
+                  <Ionicons name="trash-outline" size={22} color={theme.textSecondary} />
+                </TouchableOpacity>
+              </>
+            )}
+            <TouchableOpacity onPress={onClose} activeOpacity={0.7}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView
+          ref={scrollRef}
+          style={styles.messages}
+          contentContainerStyle={styles.messagesContent}
+          onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: true })}
+          keyboardShouldPersistTaps="handled"
+        >
+          {!available ? (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="sparkles-outline" size={32} color={theme.textSecondary} />
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                Turn on AI summaries in Summary Settings to ask questions about articles.
+              </Text>
+            </View>
+          ) : !hasMessages && !busy ? (
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
+                Ask anything about this article. Answers only use the article's own text.
+              </Text>
+              <View style={styles.suggestions}>
+                {SUGGESTED_QUESTIONS.map(suggestion => (
+                  <TouchableOpacity
+                    key={suggestion}
+                    style={[styles.suggestion, { borderColor: theme.primary }]}
+                    onPress={() => handleAsk(suggestion)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.suggestionText, { color: theme.primary }]}>{suggestion}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : (
+            <>
+              {messages.map((message, index) => renderMessage(message.role, message.content, index))}
+              {busy && renderMessage('user', pendingQuestion!, 'pending-question')}
+              {busy && (answer
+                ? renderMessage('assistant', answer, 'pending-answer')
+                : (
+                  <View style={[styles.message, styles.answer, { backgroundColor: theme.background }]}>
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  </View>
+                ))}
+            </>
+          )}
+        </ScrollView>
+
+        {available && (
+          <View style={[styles.inputRow, { borderTopColor: theme.border }]}>
+            <TextInput
+              style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+              value={question}
+              onChangeText={setQuestion}
+              placeholder="Ask a question..."
+              placeholderTextColor={theme.textSecondary}
+              onSubmitEditing={() => handleAsk()}
+              returnKeyType="send"
+              editable={!busy}
+            />
+            {busy ? (
+              <TouchableOpacity onPress={handleStop} style={styles.sendButton} activeOpacity={0.7}>
+                <Ionicons name="stop-circle" size={32} color={theme.primary} />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                onPress={() => handleAsk()}
+                style={styles.sendButton}
+                disabled={!question.trim()}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="arrow-up-circle" size={32} color={question.trim() ? theme.primary : theme.border} />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  panel: {
+    height: '75%',
+    borderTopWidth: 1,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  messages: {
+    flex: 1,
+  },
+  messagesContent: {
+    padding: 16,
+    gap: 10,
+  },
+  message: {
+    maxWidth: '85%',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  question: {
+    alignSelf: 'flex-end',
+  },
+  answer: {
+    alignSelf: 'flex-start',
+  },
+  messageText: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  suggestion: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  suggestionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    paddingBottom: 24,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  sendButton: {
+    padding: 2,
+  },
+});
@@ -10,17 +10,63 @@ import { Ionicons } from '@expo/vector-icons';
 import { Category, CategoryItem } from '../types';
 import { CATEGORIES } from '../constants/categories';
 import { useTheme } from '../contexts/ThemeContext';
+import { FeedSubscription } from '../services/feedService';
 
 interface CategoryFilterProps {
   selectedCategory: Category;
   onSelectCategory: (category: Category) => void;
+  feeds?: FeedSubscription[];
+  selectedFeedId?: string | null;
+  onSelectFeed?: (feedId: string) => void;
+  onManageFeeds?: () => void;
 }
 
 export const CategoryFilter: React.FC<CategoryFilterProps> = ({
   selectedCategory,
   onSelectCategory,
+  feeds = [],
+  selectedFeedId = null,
+  onSelectFeed,
+  onManageFeeds,
 }) => {
   const { theme } = useTheme();
+
+  const renderChip = (
+    key: string,
+    icon: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.categoryButton,
+        { 
+          backgroundColor: isSelected ? theme.primary : theme.background,
+          borderColor: isSelected ? theme.primary : theme.border,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Ionicons
+        name={icon as any}
+        size={20}
+        color={isSelected ? '#fff' : theme.text}
+      />
+      <Text
+        style={[
+          styles.categoryText,
+          { color: isSelected ? '#fff' : theme.text },
+        ]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
   return (
     <View style={[styles.container, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
       <ScrollView
@@ -28,37 +74,26 @@ export const CategoryFilter: React.FC<CategoryFilterProps> = ({
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
       >
-        {CATEGORIES.map((category: CategoryItem) => {
-          const isSelected = category.id === selectedCategory;
-          return (
-            <TouchableOpacity
-              key={category.id}
-              style={[
-                styles.categoryButton,
-                { 
-                  backgroundColor: isSelected ? theme.primary : theme.background,
-                  borderColor: isSelected ? theme.primary : theme.border,
-                },
-              ]}
-              onPress={() => onSelectCategory(category.id)}
-              activeOpacity={0.7}
-            >
-              <Ionicons
-                name={category.icon as any}
-                size={20}
-                color={isSelected ? '#fff' : theme.text}
-              />
-              <Text
-                style={[
-                  styles.categoryText,
-                  { color: isSelected ? '#fff' : theme.text },
-                ]}
-              >
-                {category.label}
-              </Text>
-            </TouchableOpacity>
-          );
-        })}
+        {CATEGORIES.map((category: CategoryItem) =>
+          renderChip(
+            category.id,
+            category.icon,
+            category.label,
+            !selectedFeedId && category.id === selectedCategory,
+            () => onSelectCategory(category.id)
+          )
+        )}
+        {onSelectFeed && feeds.map(feed =>
+          renderChip(
+            `feed-${feed.id}`,
+            'logo-rss',
+            feed.title,
+            feed.id === selectedFeedId,
+            () => onSelectFeed(feed.id)
+          )
+        )}
+        {onManageFeeds &&
+          renderChip('manage-feeds', 'add', 'Feeds', false, onManageFeeds)}
       </ScrollView>
     </View>
   );
@@ -85,6 +120,7 @@ const styles = StyleSheet.create({
   categoryText: {
     fontSize: 14,
     fontWeight: '600',
+    maxWidth: 160,
   },
 });
 
@@ -53,7 +53,7 @@ export const CollectionCard: React.FC<CollectionCardProps> = ({
           <Text style={[styles.count, { color: theme.textSecondary }]}>
             {articleCount !== undefined
               ? `${articleCount} ${articleCount === 1 ? 'article' : 'articles'}`
-              : `${collection.articleUrls.length} ${collection.articleUrls.length === 1 ? 'article' : 'articles'}`}
+              : `${collection.articleIds.length} ${collection.articleIds.length === 1 ? 'article' : 'articles'}`}
           </Text>
           <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
         </View>
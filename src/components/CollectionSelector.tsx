@@ -13,18 +13,20 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { tagsService, Collection, COLLECTION_ICONS, TAG_COLORS } from '../services/tagsService';
+import { getArticleId } from '../services/articleUrl';
+import { Article } from '../types';
 
 interface CollectionSelectorProps {
   visible: boolean;
   onClose: () => void;
-  articleUrl: string;
+  article: Article;
   onCollectionsUpdated?: () => void;
 }
 
 export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
   visible,
   onClose,
-  articleUrl,
+  article,
   onCollectionsUpdated,
 }) => {
   const { theme } = useTheme();
@@ -45,9 +47,10 @@ export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
     setCollections(regularCollections);
 
     // Load which collections contain this article
+    const articleId = getArticleId(article.url);
     const selected = new Set<string>();
     regularCollections.forEach(c => {
-      if (c.articleUrls.includes(articleUrl)) {
+      if (c.articleIds.includes(articleId)) {
         selected.add(c.id);
       }
     });
@@ -59,14 +62,14 @@ export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
 
     try {
       if (isSelected) {
-        await tagsService.removeArticleFromCollection(collectionId, articleUrl);
+        await tagsService.removeArticleFromCollection(collectionId, article.url);
         setSelectedCollections(prev => {
           const newSet = new Set(prev);
           newSet.delete(collectionId);
           return newSet;
         });
       } else {
-        await tagsService.addArticleToCollection(collectionId, articleUrl);
+        await tagsService.addArticleToCollection(collectionId, article);
         setSelectedCollections(prev => new Set(prev).add(collectionId));
       }
       onCollectionsUpdated?.();
@@ -92,7 +95,7 @@ export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
       );
 
       // Add article to new collection
-      await tagsService.addArticleToCollection(newCollection.id, articleUrl);
+      await tagsService.addArticleToCollection(newCollection.id, article);
 
       setCollections([...collections, newCollection]);
       setSelectedCollections(prev => new Set(prev).add(newCollection.id));
@@ -122,7 +125,7 @@ export const CollectionSelector: React.FC<CollectionSelectorProps> = ({
             {item.name}
           </Text>
           <Text style={[styles.collectionCount, { color: theme.textSecondary }]}>
-            {item.articleUrls.length} {item.articleUrls.length === 1 ? 'article' : 'articles'}
+            {item.articleIds.length} {item.articleIds.length === 1 ? 'article' : 'articles'}
           </Text>
         </View>
 
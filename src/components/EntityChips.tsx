@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { ArticleEntity, ENTITY_TYPES, getEntityKey } from '../services/entities';
+
+interface EntityChipsProps {
+  entities: ArticleEntity[];
+  onSelect: (entity: ArticleEntity) => void;
+}
+
+// People, organizations and places in an article; each opens its entity page
+export const EntityChips: React.FC<EntityChipsProps> = ({ entities, onSelect }) => {
+  const { theme } = useTheme();
+
+  if (entities.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: theme.textSecondary }]}>IN THIS ARTICLE</Text>
+      <View style={styles.chips}>
+        {entities.map(entity => (
+          <TouchableOpacity
+            key={getEntityKey(entity)}
+            style={[styles.chip, { backgroundColor: theme.card, borderColor: theme.border }]}
+            onPress={() => onSelect(entity)}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={ENTITY_TYPES.find(type => type.id === entity.type)?.icon as any}
+              size={14}
+              color={theme.primary}
+            />
+            <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>
+              {entity.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
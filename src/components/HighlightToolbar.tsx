@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { HIGHLIGHT_COLORS } from '../services/notesService';
+
+interface HighlightToolbarProps {
+  selectedText: string;
+  onHighlight: (color: string, note?: string) => void;
+  onDismiss: () => void;
+}
+
+// Shown while text is selected in the article: pick a color to highlight it, optionally with a note
+export const HighlightToolbar: React.FC<HighlightToolbarProps> = ({
+  selectedText,
+  onHighlight,
+  onDismiss,
+}) => {
+  const { theme } = useTheme();
+  const [showNote, setShowNote] = useState(false);
+  const [note, setNote] = useState('');
+
+  // Start fresh for every new selection
+  useEffect(() => {
+    setShowNote(false);
+    setNote('');
+  }, [selectedText]);
+
+  return (
+    <View style={[styles.toolbar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <View style={styles.header}>
+        <Text style={[styles.selectedText, { color: theme.textSecondary }]} numberOfLines={2}>
+          “{selectedText}”
+        </Text>
+        <TouchableOpacity onPress={onDismiss} activeOpacity={0.7}>
+          <Ionicons name="close" size={20} color={theme.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      {showNote && (
+        <TextInput
+          style={[styles.noteInput, { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }]}
+          placeholder="Add a note (optional)"
+          placeholderTextColor={theme.textSecondary}
+          value={note}
+          onChangeText={setNote}
+          multiline
+          autoFocus
+        />
+      )}
+
+      <View style={styles.actions}>
+        {HIGHLIGHT_COLORS.map(color => (
+          <TouchableOpacity
+            key={color.value}
+            style={[styles.colorButton, { backgroundColor: color.value }]}
+            onPress={() => onHighlight(color.value, showNote ? note : undefined)}
+            activeOpacity={0.7}
+            accessibilityLabel={`Highlight ${color.name.toLowerCase()}`}
+          />
+        ))}
+        <TouchableOpacity
+          style={[styles.noteButton, { borderColor: showNote ? theme.primary : theme.border }]}
+          onPress={() => setShowNote(!showNote)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chatbox-ellipses-outline" size={18} color={showNote ? theme.primary : theme.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toolbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 10,
+  },
+  selectedText: {
+    flex: 1,
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+  noteInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    maxHeight: 90,
+    marginBottom: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  colorButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  noteButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
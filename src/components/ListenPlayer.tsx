@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { speechService, PlaybackStatus, SPEECH_RATES } from '../services/speechService';
+
+// Player bar for articles being read aloud; hidden when nothing is playing
+export const ListenPlayer: React.FC = () => {
+  const { theme } = useTheme();
+  const [status, setStatus] = useState<PlaybackStatus>(speechService.getStatus());
+
+  useEffect(() => {
+    setStatus(speechService.getStatus());
+    return speechService.subscribe(setStatus);
+  }, []);
+
+  if (status.state === 'idle') return null;
+
+  const article = status.queue[status.queueIndex];
+  const segmentCount = status.segments.length;
+  const hasNextArticle = status.queueIndex < status.queue.length - 1;
+
+  // Cycle through the available speeds
+  const handleRatePress = () => {
+    const index = SPEECH_RATES.indexOf(status.rate);
+    speechService.setRate(SPEECH_RATES[(index + 1) % SPEECH_RATES.length]);
+  };
+
+  return (
+    <View style={[styles.player, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+      <View style={styles.info}>
+        <Ionicons name="headset" size={18} color={theme.primary} />
+        <View style={styles.infoText}>
+          <Text style={[styles.title, { color: theme.text }]} numberOfLines={1}>
+            {article?.title}
+          </Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]} numberOfLines={1}>
+            {status.state === 'loading'
+              ? 'Preparing article...'
+              : `Part ${Math.min(status.segmentIndex + 1, segmentCount)} of ${segmentCount}`}
+            {status.queue.length > 1 ? ` · Article ${status.queueIndex + 1} of ${status.queue.length}` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => speechService.stop()} activeOpacity={0.7}>
+          <Ionicons name="close" size={22} color={theme.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.rateButton} onPress={handleRatePress} activeOpacity={0.7}>
+          <Text style={[styles.rateText, { color: theme.primary, borderColor: theme.primary }]}>
+            {status.rate}×
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={() => speechService.skipSegment(-1)} activeOpacity={0.7}>
+          <Ionicons name="play-back" size={26} color={theme.text} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.playButton, { backgroundColor: theme.primary }]}
+          onPress={() => speechService.togglePlayback()}
+          disabled={status.state === 'loading'}
+          activeOpacity={0.8}
+        >
+          {status.state === 'loading' ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Ionicons name={status.state === 'playing' ? 'pause' : 'play'} size={26} color="#FFFFFF" />
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={() => speechService.skipSegment(1)} activeOpacity={0.7}>
+          <Ionicons name="play-forward" size={26} color={theme.text} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.rateButton}
+          onPress={() => speechService.nextArticle()}
+          disabled={!hasNextArticle}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="play-skip-forward" size={22} color={hasNextArticle ? theme.text : theme.border} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  player: {
+    borderTopWidth: 1,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 12,
+  },
+  info: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  infoText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rateButton: {
+    width: 48,
+    alignItems: 'center',
+  },
+  rateText: {
+    fontSize: 13,
+    fontWeight: '700',
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
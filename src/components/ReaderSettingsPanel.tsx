@@ -0,0 +1,210 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  ReaderPreferences,
+  ReaderFontFamily,
+  READER_LIMITS,
+  DEFAULT_READER_PREFERENCES,
+} from '../services/readerService';
+
+interface ReaderSettingsPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  preferences: ReaderPreferences;
+  onChange: (preferences: Partial<ReaderPreferences>) => void;
+}
+
+const FONT_OPTIONS: { value: ReaderFontFamily; label: string }[] = [
+  { value: 'sans', label: 'Sans' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'mono', label: 'Mono' },
+];
+
+type SteppedPreference = keyof typeof READER_LIMITS;
+
+export const ReaderSettingsPanel: React.FC<ReaderSettingsPanelProps> = ({
+  visible,
+  onClose,
+  preferences,
+  onChange,
+}) => {
+  const { theme } = useTheme();
+
+  // Move a value one step, staying within its limits
+  const step = (key: SteppedPreference, direction: 1 | -1) => {
+    const { min, max, step: size } = READER_LIMITS[key];
+    const value = Math.round((preferences[key] + direction * size) * 10) / 10;
+    onChange({ [key]: Math.min(max, Math.max(min, value)) });
+  };
+
+  const renderStepper = (key: SteppedPreference, label: string, value: string) => {
+    const { min, max } = READER_LIMITS[key];
+    return (
+      <View style={styles.row}>
+        <Text style={[styles.label, { color: theme.text }]}>{label}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={[styles.stepButton, { borderColor: theme.border }]}
+            onPress={() => step(key, -1)}
+            disabled={preferences[key] <= min}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="remove" size={18} color={preferences[key] <= min ? theme.border : theme.text} />
+          </TouchableOpacity>
+          <Text style={[styles.value, { color: theme.textSecondary }]}>{value}</Text>
+          <TouchableOpacity
+            style={[styles.stepButton, { borderColor: theme.border }]}
+            onPress={() => step(key, 1)}
+            disabled={preferences[key] >= max}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add" size={18} color={preferences[key] >= max ? theme.border : theme.text} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} onPress={onClose} activeOpacity={1} />
+      <View style={[styles.panel, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>Reader Settings</Text>
+          <TouchableOpacity onPress={onClose} activeOpacity={0.7}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.fontOptions}>
+          {FONT_OPTIONS.map(option => {
+            const selected = preferences.fontFamily === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.fontOption,
+                  { borderColor: selected ? theme.primary : theme.border },
+                  selected && { backgroundColor: theme.primary },
+                ]}
+                onPress={() => onChange({ fontFamily: option.value })}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.fontOptionText, { color: selected ? '#FFFFFF' : theme.text }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {renderStepper('fontSize', 'Text Size', `${preferences.fontSize}`)}
+        {renderStepper('lineHeight', 'Line Spacing', preferences.lineHeight.toFixed(1))}
+        {renderStepper('margin', 'Margins', `${preferences.margin}`)}
+
+        <View style={styles.row}>
+          <Text style={[styles.label, { color: theme.text }]}>Justify Text</Text>
+          <Switch
+            value={preferences.justify}
+            onValueChange={(justify) => onChange({ justify })}
+            trackColor={{ false: theme.border, true: theme.primary }}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => onChange(DEFAULT_READER_PREFERENCES)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.resetText, { color: theme.primary }]}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  panel: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderTopWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 36,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  fontOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  fontOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  fontOptionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  label: {
+    fontSize: 16,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  value: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
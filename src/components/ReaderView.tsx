@@ -0,0 +1,323 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Image,
+  Linking,
+  Platform,
+  TextStyle,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { ReaderContent, ReaderBlock, ReaderSpan, ReaderPreferences, ReaderFontFamily } from '../services/readerService';
+
+interface ReaderViewProps {
+  content: ReaderContent;
+  preferences: ReaderPreferences;
+  header?: React.ReactNode; // Shown above the title (e.g. the summary)
+  initialPosition?: number; // 0-1, where to open each article
+  onScrollProgress?: (position: number, depth: number) => void; // Both 0-1
+  activeBlockIndex?: number; // Block being read aloud, highlighted and kept in view
+}
+
+const FONT_FAMILIES: Record<ReaderFontFamily, string | undefined> = {
+  sans: undefined, // System font
+  serif: Platform.select({ ios: 'Georgia', default: 'serif' }),
+  mono: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+};
+
+const CODE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+// Heading sizes relative to body text, by level
+const HEADING_SCALE: { [level: number]: number } = { 2: 1.35, 3: 1.2, 4: 1.1, 5: 1, 6: 1 };
+
+// Image that keeps its own aspect ratio once loaded
+const ReaderImage: React.FC<{ uri: string }> = ({ uri }) => {
+  const [aspectRatio, setAspectRatio] = useState(16 / 9);
+  const [failed, setFailed] = useState(false);
+
+  if (failed) return null;
+
+  return (
+    <Image
+      source={{ uri }}
+      style={[styles.image, { aspectRatio }]}
+      resizeMode="contain"
+      onLoad={(event) => {
+        const { width, height } = event.nativeEvent.source;
+        if (width > 0 && height > 0) setAspectRatio(width / height);
+      }}
+      onError={() => setFailed(true)}
+    />
+  );
+};
+
+export const ReaderView: React.FC<ReaderViewProps> = ({
+  content,
+  preferences,
+  header,
+  initialPosition,
+  onScrollProgress,
+  activeBlockIndex,
+}) => {
+  const { theme } = useTheme();
+  const scrollViewRef = useRef<ScrollView>(null);
+  const viewportHeightRef = useRef(0);
+  const contentHeightRef = useRef(0);
+  // URL of the article whose initial position has been applied
+  const restoredUrlRef = useRef<string | null>(null);
+  const blockOffsetsRef = useRef<{ [index: number]: number }>({});
+
+  // Block positions belong to one article
+  useEffect(() => {
+    blockOffsetsRef.current = {};
+  }, [content.url]);
+
+  // Follow along while the article is read aloud
+  useEffect(() => {
+    if (activeBlockIndex === undefined) return;
+    const offset = blockOffsetsRef.current[activeBlockIndex];
+    if (offset !== undefined) {
+      scrollViewRef.current?.scrollTo({ y: Math.max(0, offset - 80), animated: true });
+    }
+  }, [activeBlockIndex]);
+  const fontFamily = FONT_FAMILIES[preferences.fontFamily];
+  const bodyStyle: TextStyle = {
+    color: theme.text,
+    fontFamily,
+    fontSize: preferences.fontSize,
+    lineHeight: Math.round(preferences.fontSize * preferences.lineHeight),
+    textAlign: preferences.justify ? 'justify' : 'left',
+  };
+
+  const renderSpans = (spans: ReaderSpan[]) =>
+    spans.map((span, index) => {
+      const style: TextStyle[] = [];
+      if (span.bold) style.push(styles.bold);
+      if (span.italic) style.push(styles.italic);
+      if (span.code) style.push({ fontFamily: CODE_FONT, backgroundColor: theme.surface });
+      if (span.href) {
+        style.push({ color: theme.primary, textDecorationLine: 'underline' });
+        return (
+          <Text key={index} style={style} onPress={() => Linking.openURL(span.href!)}>
+            {span.text}
+          </Text>
+        );
+      }
+      return <Text key={index} style={style}>{span.text}</Text>;
+    });
+
+  const renderBlock = (block: ReaderBlock, index: number) => {
+    switch (block.type) {
+      case 'heading': {
+        const fontSize = Math.round(preferences.fontSize * HEADING_SCALE[block.level]);
+        return (
+          <Text
+            key={index}
+            style={[bodyStyle, styles.heading, { fontSize, lineHeight: Math.round(fontSize * 1.3), textAlign: 'left' }]}
+          >
+            {renderSpans(block.spans)}
+          </Text>
+        );
+      }
+      case 'paragraph':
+        return (
+          <Text key={index} style={[bodyStyle, styles.paragraph]}>
+            {renderSpans(block.spans)}
+          </Text>
+        );
+      case 'quote':
+        return (
+          <View key={index} style={[styles.quote, { borderLeftColor: theme.border }]}>
+            <Text style={[bodyStyle, styles.italic, { color: theme.textSecondary }]}>
+              {renderSpans(block.spans)}
+            </Text>
+          </View>
+        );
+      case 'listItem':
+        return (
+          <View key={index} style={[styles.listItem, { paddingLeft: block.depth * 20 }]}>
+            <Text style={[bodyStyle, styles.listMarker]}>
+              {block.ordered ? `${block.index}.` : '•'}
+            </Text>
+            <Text style={[bodyStyle, styles.listText]}>{renderSpans(block.spans)}</Text>
+          </View>
+        );
+      case 'code':
+        return (
+          <ScrollView
+            key={index}
+            horizontal
+            style={[styles.codeBlock, { backgroundColor: theme.surface }]}
+            showsHorizontalScrollIndicator={false}
+          >
+            <Text
+              style={{
+                color: theme.text,
+                fontFamily: CODE_FONT,
+                fontSize: preferences.fontSize - 3,
+                lineHeight: Math.round((preferences.fontSize - 3) * 1.4),
+              }}
+            >
+              {block.text}
+            </Text>
+          </ScrollView>
+        );
+      case 'image':
+        return (
+          <View key={index} style={styles.figure}>
+            <ReaderImage uri={block.uri} />
+            {block.caption && (
+              <Text style={[styles.caption, { color: theme.textSecondary }]}>{block.caption}</Text>
+            )}
+          </View>
+        );
+    }
+  };
+
+  // position: top of the viewport within the scrollable range; depth: bottom of the viewport within the content
+  const reportProgress = (offset: number, viewportHeight: number, contentHeight: number) => {
+    if (!onScrollProgress || contentHeight <= 0) return;
+    const range = contentHeight - viewportHeight;
+    onScrollProgress(
+      range > 0 ? Math.min(1, Math.max(0, offset / range)) : 0,
+      Math.min(1, (offset + viewportHeight) / contentHeight)
+    );
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, layoutMeasurement, contentSize } = event.nativeEvent;
+    reportProgress(contentOffset.y, layoutMeasurement.height, contentSize.height);
+  };
+
+  // Open each article where the reader left off, once both it and the view are laid out
+  const restorePosition = () => {
+    const viewportHeight = viewportHeightRef.current;
+    const height = contentHeightRef.current;
+    if (restoredUrlRef.current === content.url || viewportHeight === 0 || height === 0) return;
+    restoredUrlRef.current = content.url;
+
+    const range = height - viewportHeight;
+    const offset = range > 0 ? Math.round(range * (initialPosition || 0)) : 0;
+    scrollViewRef.current?.scrollTo({ y: offset, animated: false });
+    reportProgress(offset, viewportHeight, height);
+  };
+
+  return (
+    <ScrollView
+      ref={scrollViewRef}
+      style={[styles.container, { backgroundColor: theme.background }]}
+      contentContainerStyle={[styles.content, { paddingHorizontal: preferences.margin }]}
+      onLayout={(event) => {
+        viewportHeightRef.current = event.nativeEvent.layout.height;
+        restorePosition();
+      }}
+      onScroll={handleScroll}
+      onContentSizeChange={(_width, height) => {
+        contentHeightRef.current = height;
+        restorePosition();
+      }}
+      scrollEventThrottle={250}
+    >
+      {header}
+      <Text
+        style={[
+          styles.title,
+          {
+            color: theme.text,
+            fontFamily,
+            fontSize: Math.round(preferences.fontSize * 1.55),
+            lineHeight: Math.round(preferences.fontSize * 1.55 * 1.25),
+          },
+        ]}
+      >
+        {content.title}
+      </Text>
+      {content.byline && (
+        <Text style={[styles.byline, { color: theme.textSecondary }]}>{content.byline}</Text>
+      )}
+      {content.blocks.map((block, index) => (
+        <View
+          key={index}
+          style={index === activeBlockIndex && [styles.activeBlock, { backgroundColor: theme.primary + '1A' }]}
+          onLayout={(event) => {
+            blockOffsetsRef.current[index] = event.nativeEvent.layout.y;
+          }}
+        >
+          {renderBlock(block, index)}
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingTop: 20,
+    paddingBottom: 120,
+  },
+  title: {
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  byline: {
+    fontSize: 14,
+    marginBottom: 20,
+  },
+  heading: {
+    fontWeight: '700',
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  activeBlock: {
+    borderRadius: 6,
+    marginHorizontal: -6,
+    paddingHorizontal: 6,
+  },
+  paragraph: {
+    marginBottom: 16,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 14,
+    marginBottom: 16,
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  listMarker: {
+    width: 24,
+  },
+  listText: {
+    flex: 1,
+  },
+  codeBlock: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  figure: {
+    marginBottom: 20,
+  },
+  image: {
+    width: '100%',
+    borderRadius: 8,
+  },
+  caption: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+});
@@ -1,13 +1,24 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { ArticleSummary } from '../services/summaryService';
+import { PartialSummary, LOCAL_MODEL, describeSummaryOptions } from '../services/summaryProviders';
+import { SummaryJob } from '../services/summaryQueue';
+import { ArticleAnalysis, formatSentiment, getSentimentLabel } from '../services/framing';
 
 interface SummaryCardProps {
   summary: ArticleSummary | null;
   loading?: boolean;
+  streaming?: PartialSummary | null; // Text received so far while the summary is generated
   onGenerate?: () => void;
+  onCancel?: () => void;
+  onCustomize?: () => void; // Generate with options other than the defaults
+  versions?: ArticleSummary[]; // Every saved version of this article's summary, newest first
+  onSelectVersion?: (summary: ArticleSummary) => void;
+  stale?: boolean; // The article text changed since the summary was written
+  job?: SummaryJob | null; // Background generation of this article's summary
+  onRetryJob?: () => void;
   compact?: boolean;
   showReadingTime?: boolean;
 }
@@ -15,14 +26,118 @@ interface SummaryCardProps {
 export const SummaryCard: React.FC<SummaryCardProps> = ({
   summary,
   loading = false,
+  streaming = null,
   onGenerate,
+  onCancel,
+  onCustomize,
+  versions = [],
+  onSelectVersion,
+  stale = false,
+  job = null,
+  onRetryJob,
   compact = false,
   showReadingTime = true,
 }) => {
   const { theme } = useTheme();
   const [expanded, setExpanded] = useState(!compact);
 
-  if (loading) {
+  const cancelButton = onCancel && (
+    <TouchableOpacity
+      onPress={onCancel}
+      style={styles.refreshButton}
+      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+    >
+      <Ionicons name="stop-circle-outline" size={16} color={theme.primary} />
+      <Text style={[styles.refreshText, { color: theme.primary }]}>Stop</Text>
+    </TouchableOpacity>
+  );
+
+  // Where the background queue is with this summary; nothing once it is done
+  const jobStatus = job && job.status !== 'done' && (
+    <View style={[styles.jobStatus, { backgroundColor: theme.background }]}>
+      {job.status === 'running' ? (
+        <ActivityIndicator size="small" color={theme.primary} />
+      ) : (
+        <Ionicons
+          name={job.status === 'failed' ? 'alert-circle-outline' : 'hourglass-outline'}
+          size={16}
+          color={job.status === 'failed' ? theme.error : theme.textSecondary}
+        />
+      )}
+      <Text style={[styles.jobStatusText, { color: theme.textSecondary }]} numberOfLines={2}>
+        {job.status === 'running'
+          ? 'Writing summary in the background...'
+          : job.status === 'failed'
+            ? `Summary failed: ${job.error || 'unknown error'}`
+            : job.attempts > 0
+              ? `Queued, retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()} (${job.error})`
+              : 'Queued for a summary'}
+      </Text>
+      {job.status === 'failed' && onRetryJob && (
+        <TouchableOpacity
+          onPress={onRetryJob}
+          style={styles.refreshButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="refresh" size={16} color={theme.primary} />
+          <Text style={[styles.refreshText, { color: theme.primary }]}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  // Sentiment, reporting or opinion, and the loaded words the article uses
+  const renderAnalysis = (analysis: ArticleAnalysis) => {
+    const sentimentLabel = getSentimentLabel(analysis.sentiment);
+    const sentimentColor = sentimentLabel === 'Positive'
+      ? theme.success || theme.primary
+      : sentimentLabel === 'Negative' ? theme.error : theme.textSecondary;
+
+    return (
+      <View style={styles.analysisSection}>
+        <Text style={[styles.keyPointsLabel, { color: theme.textSecondary }]}>Tone & Framing</Text>
+        <View style={styles.analysisBadges}>
+          <View style={[styles.analysisBadge, { backgroundColor: sentimentColor + '20' }]}>
+            <Ionicons
+              name={sentimentLabel === 'Positive' ? 'happy-outline' : sentimentLabel === 'Negative' ? 'sad-outline' : 'remove-circle-outline'}
+              size={14}
+              color={sentimentColor}
+            />
+            <Text style={[styles.analysisBadgeText, { color: sentimentColor }]}>
+              {sentimentLabel} {formatSentiment(analysis.sentiment)}
+            </Text>
+          </View>
+          <View style={[styles.analysisBadge, { backgroundColor: theme.primary + '20' }]}>
+            <Ionicons
+              name={analysis.tone === 'opinion' ? 'chatbubble-ellipses-outline' : 'newspaper-outline'}
+              size={14}
+              color={theme.primary}
+            />
+            <Text style={[styles.analysisBadgeText, { color: theme.primary }]}>
+              {analysis.tone === 'opinion' ? 'Opinion' : 'Reporting'}
+            </Text>
+          </View>
+        </View>
+        {analysis.loadedTerms.length > 0 && (
+          <View style={styles.analysisBadges}>
+            <Ionicons name="flag-outline" size={14} color={theme.warning} />
+            {analysis.loadedTerms.map(term => (
+              <View key={term} style={[styles.loadedTerm, { borderColor: theme.warning }]}>
+                <Text style={[styles.loadedTermText, { color: theme.text }]}>{term}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+        {analysis.estimated && (
+          <Text style={[styles.analysisNote, { color: theme.textSecondary }]}>
+            Estimated from word lists; an AI summary gives a closer reading.
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  if (loading && !streaming?.summary) {
     return (
       <View style={[styles.card, { backgroundColor: theme.card }]}>
         <View style={styles.loadingContainer}>
@@ -30,6 +145,52 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
           <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
             Generating summary...
           </Text>
+          {cancelButton}
+        </View>
+      </View>
+    );
+  }
+
+  // Show the summary as it is written
+  if (loading && streaming) {
+    return (
+      <View style={[styles.card, { backgroundColor: theme.card }]}>
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <Ionicons name="sparkles" size={20} color="#FFD700" />
+            <Text style={[styles.headerTitle, { color: theme.text }]}>AI Summary</Text>
+          </View>
+          <ActivityIndicator size="small" color={theme.primary} />
+        </View>
+
+        <View style={[styles.tldrSection, { backgroundColor: theme.background }]}>
+          <Text style={[styles.tldrLabel, { color: theme.textSecondary }]}>TL;DR</Text>
+          <Text style={[styles.tldrText, { color: theme.text }]}>
+            {streaming.summary}
+          </Text>
+        </View>
+
+        {streaming.keyPoints.length > 0 && (
+          <View style={styles.keyPointsSection}>
+            <Text style={[styles.keyPointsLabel, { color: theme.textSecondary }]}>
+              Key Points
+            </Text>
+            {streaming.keyPoints.map((point, index) => (
+              <View key={index} style={styles.keyPoint}>
+                <View style={[styles.bullet, { backgroundColor: theme.primary }]} />
+                <Text style={[styles.keyPointText, { color: theme.text }]}>
+                  {point}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={[styles.footerText, { color: theme.textSecondary }]}>
+            Writing summary...
+          </Text>
+          {cancelButton}
         </View>
       </View>
     );
@@ -38,6 +199,7 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
   if (!summary) {
     return (
       <View style={[styles.card, { backgroundColor: theme.card }]}>
+        {jobStatus}
         <View style={styles.emptyContainer}>
           <Ionicons name="document-text-outline" size={32} color={theme.textSecondary} />
           <Text style={[styles.emptyText, { color: theme.textSecondary }]}>
@@ -53,12 +215,18 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
               <Text style={styles.generateButtonText}>Generate AI Summary</Text>
             </TouchableOpacity>
           )}
+          {onCustomize && (
+            <TouchableOpacity onPress={onCustomize} activeOpacity={0.7}>
+              <Text style={[styles.refreshText, { color: theme.primary }]}>Choose style & language</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
     );
   }
 
-  const isAIGenerated = summary.model !== 'fallback';
+  const isOnDevice = summary.model === LOCAL_MODEL;
+  const isAIGenerated = summary.model !== 'fallback' && !isOnDevice;
 
   return (
     <View style={[styles.card, { backgroundColor: theme.card }]}>
@@ -66,12 +234,12 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
       <View style={styles.header}>
         <View style={styles.headerLeft}>
           <Ionicons 
-            name={isAIGenerated ? 'sparkles' : 'document-text'} 
+            name={isAIGenerated ? 'sparkles' : isOnDevice ? 'phone-portrait-outline' : 'document-text'} 
             size={20} 
             color={isAIGenerated ? '#FFD700' : theme.primary} 
           />
           <Text style={[styles.headerTitle, { color: theme.text }]}>
-            {isAIGenerated ? 'AI Summary' : 'Quick Summary'}
+            {isAIGenerated ? 'AI Summary' : isOnDevice ? 'On-Device Summary' : 'Quick Summary'}
           </Text>
         </View>
         <View style={styles.headerRight}>
@@ -101,6 +269,54 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
       {/* TL;DR */}
       {expanded && (
         <>
+          {/* Versions written with other options */}
+          {versions.length > 1 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.versions}
+              contentContainerStyle={styles.versionsContent}
+            >
+              {versions.map(version => {
+                const selected = version.generatedAt === summary.generatedAt;
+                return (
+                  <TouchableOpacity
+                    key={version.generatedAt}
+                    style={[
+                      styles.versionChip,
+                      { borderColor: selected ? theme.primary : theme.border },
+                      selected && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => onSelectVersion?.(version)}
+                    disabled={selected || !onSelectVersion}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.versionText, { color: selected ? '#FFFFFF' : theme.text }]}>
+                      {describeSummaryOptions(version.options)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          {jobStatus}
+
+          {stale && (
+            <TouchableOpacity
+              style={[styles.staleNotice, { backgroundColor: theme.warning + '20' }]}
+              onPress={onGenerate}
+              disabled={!onGenerate}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="alert-circle-outline" size={16} color={theme.warning} />
+              <Text style={[styles.staleText, { color: theme.text }]}>
+                The article has changed since this summary was written.
+                {onGenerate ? ' Tap to update it.' : ''}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           <View style={[styles.tldrSection, { backgroundColor: theme.background }]}>
             <Text style={[styles.tldrLabel, { color: theme.textSecondary }]}>TL;DR</Text>
             <Text style={[styles.tldrText, { color: theme.text }]}>
@@ -125,23 +341,43 @@ export const SummaryCard: React.FC<SummaryCardProps> = ({
             </View>
           )}
 
+          {summary.analysis && renderAnalysis(summary.analysis)}
+
           {/* Footer */}
           <View style={styles.footer}>
-            <Text style={[styles.footerText, { color: theme.textSecondary }]}>
-              {isAIGenerated ? `Generated by ${summary.model.split('/')[1] || 'AI'}` : 'Auto-generated summary'}
+            <Text style={[styles.footerText, { color: theme.textSecondary }]} numberOfLines={1}>
+              {isAIGenerated
+                ? `Generated by ${summary.model.split('/')[1] || 'AI'} · ${describeSummaryOptions(summary.options)}`
+                : isOnDevice
+                  ? `Key sentences, picked on this device · ${describeSummaryOptions(summary.options)}`
+                  : 'Auto-generated summary'}
             </Text>
-            {onGenerate && (
-              <TouchableOpacity
-                onPress={onGenerate}
-                style={styles.refreshButton}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              >
-                <Ionicons name="refresh" size={16} color={theme.primary} />
-                <Text style={[styles.refreshText, { color: theme.primary }]}>
-                  Regenerate
-                </Text>
-              </TouchableOpacity>
-            )}
+            <View style={styles.footerActions}>
+              {onCustomize && (
+                <TouchableOpacity
+                  onPress={onCustomize}
+                  style={styles.refreshButton}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="options-outline" size={16} color={theme.primary} />
+                  <Text style={[styles.refreshText, { color: theme.primary }]}>
+                    Options
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {onGenerate && (
+                <TouchableOpacity
+                  onPress={onGenerate}
+                  style={styles.refreshButton}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="refresh" size={16} color={theme.primary} />
+                  <Text style={[styles.refreshText, { color: theme.primary }]}>
+                    Regenerate
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
           </View>
         </>
       )}
@@ -245,6 +481,41 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     marginBottom: 8,
   },
+  analysisSection: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  analysisBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  analysisBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  analysisBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  loadedTerm: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  loadedTermText: {
+    fontSize: 12,
+  },
+  analysisNote: {
+    fontSize: 11,
+    fontStyle: 'italic',
+  },
   keyPoint: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -271,8 +542,57 @@ const styles = StyleSheet.create({
     borderTopColor: 'rgba(0,0,0,0.05)',
   },
   footerText: {
+    flex: 1,
     fontSize: 11,
     fontStyle: 'italic',
+    marginRight: 8,
+  },
+  footerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  versions: {
+    marginBottom: 12,
+  },
+  jobStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  jobStatusText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  staleNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  staleText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  versionsContent: {
+    gap: 8,
+  },
+  versionChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  versionText: {
+    fontSize: 12,
+    fontWeight: '600',
   },
   refreshButton: {
     flexDirection: 'row',
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { SummaryOptions } from '../services/summaryProviders';
+import { SummaryOptionsPicker } from './SummaryOptionsPicker';
+
+interface SummaryOptionsPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  initialOptions: SummaryOptions;
+  onGenerate: (options: SummaryOptions) => void;
+}
+
+// Pick options for one summary, without changing the defaults in Summary Settings
+export const SummaryOptionsPanel: React.FC<SummaryOptionsPanelProps> = ({
+  visible,
+  onClose,
+  initialOptions,
+  onGenerate,
+}) => {
+  const { theme } = useTheme();
+  const [options, setOptions] = useState(initialOptions);
+
+  useEffect(() => {
+    if (visible) setOptions(initialOptions);
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <TouchableOpacity style={styles.backdrop} onPress={onClose} activeOpacity={1} />
+      <View style={[styles.panel, { backgroundColor: theme.card, borderTopColor: theme.border }]}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.text }]}>Summary Options</Text>
+          <TouchableOpacity onPress={onClose} activeOpacity={0.7}>
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.options}>
+          <SummaryOptionsPicker options={options} onChange={setOptions} />
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.generateButton, { backgroundColor: theme.primary }]}
+          onPress={() => onGenerate(options)}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="sparkles" size={16} color="#FFFFFF" />
+          <Text style={styles.generateButtonText}>Generate Summary</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  panel: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderTopWidth: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 36,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  options: {
+    flexGrow: 0,
+  },
+  generateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  generateButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,112 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  SummaryOptions,
+  SUMMARY_STYLES,
+  SUMMARY_LENGTHS,
+  SUMMARY_LANGUAGES,
+  getLanguageName,
+} from '../services/summaryProviders';
+
+interface SummaryOptionsPickerProps {
+  options: SummaryOptions;
+  onChange: (options: SummaryOptions) => void;
+}
+
+const KEY_POINT_COUNTS = [1, 2, 3, 4, 5];
+
+// Style, length, language and key point count for a summary
+export const SummaryOptionsPicker: React.FC<SummaryOptionsPickerProps> = ({ options, onChange }) => {
+  const { theme } = useTheme();
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: React.Key) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? theme.primary : theme.border },
+        selected && { backgroundColor: theme.primary },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : theme.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const selectedStyle = SUMMARY_STYLES.find(style => style.id === options.style);
+
+  return (
+    <View>
+      <Text style={[styles.label, { color: theme.text }]}>Style</Text>
+      <View style={styles.chips}>
+        {SUMMARY_STYLES.map(style =>
+          renderChip(style.name, options.style === style.id, () => onChange({ ...options, style: style.id }), style.id)
+        )}
+      </View>
+      {selectedStyle && (
+        <Text style={[styles.helpText, { color: theme.textSecondary }]}>{selectedStyle.description}</Text>
+      )}
+
+      <Text style={[styles.label, { color: theme.text }]}>Length</Text>
+      <View style={styles.chips}>
+        {SUMMARY_LENGTHS.map(length =>
+          renderChip(length.name, options.length === length.id, () => onChange({ ...options, length: length.id }), length.id)
+        )}
+      </View>
+
+      <Text style={[styles.label, { color: theme.text }]}>Language</Text>
+      <View style={styles.chips}>
+        {SUMMARY_LANGUAGES.map(language =>
+          renderChip(
+            getLanguageName(language),
+            options.language === language,
+            () => onChange({ ...options, language }),
+            language
+          )
+        )}
+      </View>
+
+      <Text style={[styles.label, { color: theme.text }]}>Key Points</Text>
+      <View style={styles.chips}>
+        {KEY_POINT_COUNTS.map(count =>
+          renderChip(
+            `${count}`,
+            options.maxKeyPoints === count,
+            () => onChange({ ...options, maxKeyPoints: count }),
+            count
+          )
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -16,4 +16,12 @@ export { NoteCard } from './NoteCard';
 export { HighlightCard } from './HighlightCard';
 export { AnnotationButton } from './AnnotationButton';
 export { SummaryCard } from './SummaryCard';
+export { SummaryOptionsPicker } from './SummaryOptionsPicker';
+export { SummaryOptionsPanel } from './SummaryOptionsPanel';
+export { EntityChips } from './EntityChips';
 
+export { ReaderView } from './ReaderView';
+export { ReaderSettingsPanel } from './ReaderSettingsPanel';
+export { HighlightToolbar } from './HighlightToolbar';
+export { ListenPlayer } from './ListenPlayer';
+export { ArticleChatPanel } from './ArticleChatPanel';
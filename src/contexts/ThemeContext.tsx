@@ -8,6 +8,7 @@ interface ThemeContextType {
   theme: Theme;
   themeMode: ThemeMode;
   toggleTheme: () => void;
+  reloadTheme: () => Promise<void>; // Re-read the saved preference (e.g. after a restore)
   isDark: boolean;
 }
 
@@ -30,9 +31,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
   const loadThemePreference = async () => {
     try {
       const savedTheme = await AsyncStorage.getItem(THEME_STORAGE_KEY);
-      if (savedTheme === 'dark' || savedTheme === 'light') {
-        setThemeMode(savedTheme);
-      }
+      setThemeMode(savedTheme === 'dark' ? 'dark' : 'light');
     } catch (error) {
       console.error('Error loading theme preference:', error);
     }
@@ -56,6 +55,7 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
     theme,
     themeMode,
     toggleTheme,
+    reloadTheme: loadThemePreference,
     isDark,
   };
 
@@ -12,15 +12,21 @@ import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
 import { readingHistoryService, ReadingStats } from '../services/readingHistoryService';
+import { summaryService } from '../services/summaryService';
+import { SourceFraming, formatSentiment, getSentimentLabel } from '../services/framing';
 import { StatCard, CategoryChart, ReadingStreak, LoadingState } from '../components';
 
 interface AnalyticsScreenProps {
   navigation: any;
 }
 
+// Sources shown in Tone & Framing, those with the most summarized articles first
+const MAX_FRAMING_SOURCES = 10;
+
 export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation }) => {
   const { theme } = useTheme();
   const [stats, setStats] = useState<ReadingStats | null>(null);
+  const [sourceFraming, setSourceFraming] = useState<SourceFraming[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -32,8 +38,12 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation })
 
   const loadStats = async () => {
     try {
-      const statsData = await readingHistoryService.getStats();
+      const [statsData, framingData] = await Promise.all([
+        readingHistoryService.getStats(),
+        summaryService.getSourceFraming(),
+      ]);
       setStats(statsData);
+      setSourceFraming(framingData);
     } catch (error) {
       console.error('Error loading stats:', error);
     } finally {
@@ -54,6 +64,13 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation })
     return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
   };
 
+  const getSentimentColor = (sentiment: number): string => {
+    const label = getSentimentLabel(sentiment);
+    if (label === 'Positive') return theme.success || theme.primary;
+    if (label === 'Negative') return theme.error;
+    return theme.textSecondary;
+  };
+
   if (loading) {
     return <LoadingState />;
   }
@@ -167,6 +184,30 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation })
             value={stats.favoriteCategory}
             color="#E67E22"
           />
+
+          <StatCard
+            icon="checkmark-done"
+            label="Finished"
+            value={stats.articlesFinished}
+            color="#16A085"
+            subtitle={`${Math.round(stats.averageScrollDepth * 100)}% avg. depth`}
+          />
+
+          <StatCard
+            icon="eye"
+            label="Skimmed"
+            value={stats.articlesSkimmed}
+            color="#95A5A6"
+            subtitle="left early"
+          />
+
+          <StatCard
+            icon="headset"
+            label="Listening Time"
+            value={formatTime(stats.totalListeningTime)}
+            color="#E84393"
+            subtitle="read aloud"
+          />
         </View>
 
         {/* Time Period Stats */}
@@ -221,6 +262,53 @@ export const AnalyticsScreen: React.FC<AnalyticsScreenProps> = ({ navigation })
           title="📰 Reading by Source"
         />
 
+        {/* Tone & framing of the summarized articles, by source */}
+        {sourceFraming.length > 0 && (
+          <View style={[styles.section, { backgroundColor: theme.card }]}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="compass" size={20} color={theme.primary} />
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>
+                Tone & Framing by Source
+              </Text>
+            </View>
+
+            {sourceFraming.slice(0, MAX_FRAMING_SOURCES).map((framing, index) => (
+              <View
+                key={framing.source}
+                style={[
+                  styles.framingRow,
+                  index > 0 && { borderTopWidth: 1, borderTopColor: theme.border },
+                ]}
+              >
+                <View style={styles.framingHeader}>
+                  <Text style={[styles.framingSource, { color: theme.text }]} numberOfLines={1}>
+                    {framing.source}
+                  </Text>
+                  <Text style={[styles.framingCount, { color: theme.textSecondary }]}>
+                    {framing.articles} {framing.articles === 1 ? 'article' : 'articles'}
+                  </Text>
+                </View>
+                <View style={styles.framingStats}>
+                  <Text style={[styles.framingStat, { color: getSentimentColor(framing.averageSentiment) }]}>
+                    {getSentimentLabel(framing.averageSentiment)} {formatSentiment(framing.averageSentiment)}
+                  </Text>
+                  <Text style={[styles.framingStat, { color: theme.textSecondary }]}>
+                    {Math.round(framing.opinionShare * 100)}% opinion
+                  </Text>
+                  <Text style={[styles.framingStat, { color: theme.textSecondary }]}>
+                    {framing.loadedTermsPerArticle.toFixed(1)} loaded words/article
+                  </Text>
+                </View>
+                {framing.topLoadedTerms.length > 0 && (
+                  <Text style={[styles.framingTerms, { color: theme.textSecondary }]} numberOfLines={1}>
+                    Often: {framing.topLoadedTerms.join(', ')}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Insights Section */}
         <View style={[styles.section, { backgroundColor: theme.card }]}>
           <View style={styles.sectionHeader}>
@@ -366,6 +454,38 @@ const styles = StyleSheet.create({
     width: 1,
     height: 40,
   },
+  framingRow: {
+    paddingVertical: 10,
+  },
+  framingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  framingSource: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  framingCount: {
+    fontSize: 12,
+  },
+  framingStats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 12,
+    marginTop: 4,
+  },
+  framingStat: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  framingTerms: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   insightsContainer: {
     gap: 12,
   },
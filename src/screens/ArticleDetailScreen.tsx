@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -6,20 +6,56 @@ import {
   Text,
   ActivityIndicator,
   Alert,
+  AppState,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { WebView } from 'react-native-webview';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import NetInfo from '@react-native-community/netinfo';
 import { Ionicons } from '@expo/vector-icons';
 import { Article } from '../types';
 import { navigationHistory } from '../services/navigationHistory';
 import { bookmarkStorage } from '../services/bookmarkStorage';
 import { shareService } from '../services/shareService';
-import { readingHistoryService } from '../services/readingHistoryService';
+import { readingHistoryService, ReadingProgress } from '../services/readingHistoryService';
+import { ReadingSession } from '../services/readingSession';
+import { speechService, PlaybackStatus } from '../services/speechService';
 import { tagsService, Tag } from '../services/tagsService';
-import { notesService } from '../services/notesService';
-import { summaryService, ArticleSummary } from '../services/summaryService';
+import { notesService, TextQuote } from '../services/notesService';
+import {
+  HIGHLIGHT_SCRIPT,
+  CLEAR_SELECTION_SCRIPT,
+  parseHighlightMessage,
+  applyHighlightsScript,
+  removeHighlightScript,
+} from '../services/highlightScript';
+import { SCROLL_SCRIPT, parseScrollMessage, scrollToScript } from '../services/scrollScript';
+import { summaryService, ArticleSummary, getSummaryOptions } from '../services/summaryService';
+import { PartialSummary, SummaryOptions, DEFAULT_SUMMARY_OPTIONS } from '../services/summaryProviders';
+import { summaryQueue, SummaryJob, SummaryJobStatus } from '../services/summaryQueue';
+import { ArticleEntity, extractEntities } from '../services/entities';
+import { offlineArticleService, OfflineArticle } from '../services/offlineArticleService';
+import {
+  readerService,
+  ReaderContent,
+  ReaderPreferences,
+  ViewMode,
+  DEFAULT_READER_PREFERENCES,
+} from '../services/readerService';
 import { useTheme } from '../contexts/ThemeContext';
-import { TagSelector, CollectionSelector, TagChip, AnnotationButton, SummaryCard } from '../components';
+import {
+  TagSelector,
+  CollectionSelector,
+  TagChip,
+  AnnotationButton,
+  SummaryCard,
+  ReaderView,
+  ReaderSettingsPanel,
+  ArticleChatPanel,
+  SummaryOptionsPanel,
+  EntityChips,
+  HighlightToolbar,
+  ListenPlayer,
+} from '../components';
 
 interface ArticleDetailScreenProps {
   route: any;
@@ -44,16 +80,48 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
   const [showAnnotationMenu, setShowAnnotationMenu] = useState(false);
   const [summary, setSummary] = useState<ArticleSummary | null>(null);
   const [summaryLoading, setSummaryLoading] = useState(false);
+  const [streamingSummary, setStreamingSummary] = useState<PartialSummary | null>(null);
+  const [summaryVersions, setSummaryVersions] = useState<ArticleSummary[]>([]);
+  const [showSummaryOptions, setShowSummaryOptions] = useState(false);
+  const [summaryOptions, setSummaryOptions] = useState<SummaryOptions>(DEFAULT_SUMMARY_OPTIONS);
+  const [summaryJob, setSummaryJob] = useState<SummaryJob | null>(null);
   const [showSummary, setShowSummary] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [offlineArticle, setOfflineArticle] = useState<OfflineArticle | null>(null);
+  const [offlineHtml, setOfflineHtml] = useState<string | null>(null);
+  const [savingOffline, setSavingOffline] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('web');
+  const [readerContent, setReaderContent] = useState<ReaderContent | null>(null);
+  const [readerLoading, setReaderLoading] = useState(false);
+  const [readerPreferences, setReaderPreferences] = useState<ReaderPreferences>(DEFAULT_READER_PREFERENCES);
+  const [showReaderSettings, setShowReaderSettings] = useState(false);
+  const [selectedQuote, setSelectedQuote] = useState<TextQuote | null>(null);
+  const [playback, setPlayback] = useState<PlaybackStatus>(speechService.getStatus());
   const webViewRef = useRef<WebView>(null);
+
+  // The summary's entities, or ones found in the article text before there is a summary
+  const entities = useMemo<ArticleEntity[]>(
+    () => (summary?.entities.length ? summary.entities : extractEntities(currentArticle)),
+    [summary, currentArticle]
+  );
   
   // For bookmark navigation
   const [currentBookmarkIndex, setCurrentBookmarkIndex] = useState<number>(initialIndex || -1);
   const bookmarksArray = bookmarksList || [];
   
-  // Reading time tracking
-  const startTimeRef = useRef<number>(Date.now());
-  const currentArticleUrlRef = useRef<string>(initialArticle.url);
+  // Reading time tracking: active time in the current article only
+  const sessionRef = useRef(new ReadingSession());
+  const currentArticleRef = useRef<Article>(initialArticle);
+  const appActiveRef = useRef(AppState.currentState === 'active');
+  const screenFocusedRef = useRef(true);
+
+  // Scroll tracking: progress in the current article, and where it was left last time
+  const progressRef = useRef<ReadingProgress>({ position: 0, maxDepth: 0 });
+  const resumePositionRef = useRef<number | null>(null);
+
+  // Summary being generated, so it can be stopped
+  const summaryAbortRef = useRef<AbortController | null>(null);
 
   // Add initial article to history and reading history
   useEffect(() => {
@@ -67,51 +135,166 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
     loadSummary();
     
     // Start reading time tracking
-    startTimeRef.current = Date.now();
-    currentArticleUrlRef.current = initialArticle.url;
+    sessionRef.current = new ReadingSession();
+    currentArticleRef.current = initialArticle;
     
     // Cleanup: Save reading time when leaving the screen
     return () => {
       saveReadingHistory();
+      summaryAbortRef.current?.abort();
+    };
+  }, []);
+
+  // Only count time while the app is in front and this screen is showing
+  useEffect(() => {
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      const wasActive = appActiveRef.current;
+      appActiveRef.current = state === 'active';
+      updateSessionState();
+
+      // The app may be closed from the background, so save what has been read so far
+      if (wasActive && !appActiveRef.current) {
+        saveReadingHistory();
+        startReadingSession();
+      }
+    });
+    const unsubscribeFocus = navigation.addListener('focus', () => {
+      screenFocusedRef.current = true;
+      updateSessionState();
+    });
+    const unsubscribeBlur = navigation.addListener('blur', () => {
+      screenFocusedRef.current = false;
+      updateSessionState();
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      unsubscribeFocus();
+      unsubscribeBlur();
     };
   }, []);
   
+  // Track connectivity so the saved copy is shown when offline
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(state => {
+      setIsOffline(!state.isConnected);
+    });
+    return unsubscribe;
+  }, []);
+
+  // Load the saved copy of the current article, if any
+  useEffect(() => {
+    loadOfflineCopy(currentArticle.url);
+  }, [currentArticle.url, isDark]);
+
+  // Auto-generated summaries are written by the background queue; follow this article's job
+  useEffect(() => {
+    const articleUrl = currentArticle.url;
+    let lastStatus: SummaryJobStatus | undefined;
+    const followJob = (job: SummaryJob | null) => {
+      setSummaryJob(job);
+      if (job?.status === 'done' && lastStatus && lastStatus !== 'done') loadSummary();
+      lastStatus = job?.status;
+    };
+
+    summaryQueue.getJob(articleUrl).then(followJob);
+    summaryQueue.generateSummariesForArticles([currentArticle]);
+    return summaryQueue.subscribe(jobs => followJob(jobs.find(job => job.articleUrl === articleUrl) || null));
+  }, [currentArticle.url]);
+
+  // Follow text-to-speech playback to highlight the paragraph being read
+  useEffect(() => speechService.subscribe(setPlayback), []);
+
+  // Reader typography is the same for every article
+  useEffect(() => {
+    readerService.getPreferences().then(setReaderPreferences);
+  }, []);
+
+  // Open each article in the mode last used for its site, where the reader left off
+  useEffect(() => {
+    loadResumePosition(currentArticle.url).then(() => loadViewMode(currentArticle));
+  }, [currentArticle.url]);
+
   // Track article changes
   useEffect(() => {
-    if (currentArticle.url !== currentArticleUrlRef.current) {
+    if (currentArticle.url !== currentArticleRef.current.url) {
       // Save previous article's reading time
       saveReadingHistory();
       
+      // A summary still being written belongs to the previous article
+      handleCancelSummary();
+
       // Start tracking new article
-      startTimeRef.current = Date.now();
-      currentArticleUrlRef.current = currentArticle.url;
+      startReadingSession();
+      progressRef.current = { position: 0, maxDepth: 0 };
+      currentArticleRef.current = currentArticle;
+
+      // The summary, its versions, entities and framing belong to the previous article too
+      setSummary(null);
+      setSummaryVersions([]);
+      loadSummary(currentArticle.url);
     }
   }, [currentArticle]);
+
+  // Start a new reading session, paused if the screen isn't being looked at
+  const startReadingSession = () => {
+    sessionRef.current = new ReadingSession();
+    updateSessionState();
+  };
+
+  const updateSessionState = () => {
+    if (appActiveRef.current && screenFocusedRef.current) {
+      sessionRef.current.resume();
+    } else {
+      sessionRef.current.pause();
+    }
+  };
   
-  // Save reading history
+  // Save reading history for the article being tracked (not necessarily the one now on screen)
   const saveReadingHistory = async () => {
-    const readingTime = Math.floor((Date.now() - startTimeRef.current) / 1000); // in seconds
+    const article = currentArticleRef.current;
+    const readingTime = sessionRef.current.getActiveSeconds();
     const articleCategory = category || 'general';
     
     // Only save if user spent at least 5 seconds reading
     if (readingTime >= 5) {
       await readingHistoryService.addToHistory(
         {
-          title: currentArticle.title,
-          description: currentArticle.description,
-          url: currentArticleUrlRef.current,
-          urlToImage: currentArticle.urlToImage,
-          publishedAt: currentArticle.publishedAt,
-          source: currentArticle.source,
-          author: currentArticle.author,
-          content: currentArticle.content,
+          title: article.title,
+          description: article.description,
+          url: article.url,
+          urlToImage: article.urlToImage,
+          publishedAt: article.publishedAt,
+          source: article.source,
+          author: article.author,
+          content: article.content,
         },
         readingTime,
-        articleCategory
+        articleCategory,
+        progressRef.current
       );
     }
   };
 
+  // Load where the reader left off in a partly read article
+  const loadResumePosition = async (url: string) => {
+    resumePositionRef.current = null;
+    resumePositionRef.current = await readingHistoryService.getResumePosition(url);
+  };
+
+  // Position to open the page at: the current one when switching views, else the saved one
+  const getRestorePosition = (): number =>
+    progressRef.current.position || resumePositionRef.current || 0;
+
+  // Record scroll progress reported by the page or the reader view (both 0-1)
+  const handleScrollProgress = (position: number, depth: number) => {
+    sessionRef.current.recordActivity();
+    progressRef.current = {
+      position,
+      maxDepth: Math.max(progressRef.current.maxDepth, depth),
+    };
+  };
+
   // Check if article is bookmarked
   const checkBookmarkStatus = async (url: string) => {
     const bookmarked = await bookmarkStorage.isBookmarked(url);
@@ -130,31 +313,290 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
     setAnnotationCount(count);
   };
 
+  // Load the offline copy and build its reader page
+  const loadOfflineCopy = async (url: string) => {
+    const saved = await offlineArticleService.getOfflineArticle(url);
+    const content = saved ? await offlineArticleService.readContent(saved) : null;
+    setOfflineArticle(saved);
+    setOfflineHtml(saved && content !== null ? offlineArticleService.buildReaderPage(saved, content, theme) : null);
+  };
+
+  // Handle messages from the script injected into the page
+  const handleWebViewMessage = async (event: WebViewMessageEvent) => {
+    const scrollMessage = parseScrollMessage(event.nativeEvent.data);
+    if (scrollMessage) {
+      if (scrollMessage.type === 'scroll') {
+        handleScrollProgress(scrollMessage.position, scrollMessage.depth);
+        return;
+      }
+      // Page loaded: count what's visible without scrolling, then go back to where the reader was
+      handleScrollProgress(progressRef.current.position, scrollMessage.depth);
+      const position = getRestorePosition();
+      if (position > 0) webViewRef.current?.injectJavaScript(scrollToScript(position));
+      return;
+    }
+
+    const message = parseHighlightMessage(event.nativeEvent.data);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'highlighterReady': {
+        // Mark the highlights saved for this article
+        const highlights = await notesService.getHighlightsForArticle(currentArticle.url);
+        if (highlights.length > 0) {
+          webViewRef.current?.injectJavaScript(applyHighlightsScript(highlights));
+        }
+        break;
+      }
+      case 'selection':
+        sessionRef.current.recordActivity();
+        setSelectedQuote(message.quote);
+        if (message.quote) setShowAnnotationMenu(false);
+        break;
+      case 'highlightPressed':
+        handleHighlightPressed(message.id);
+        break;
+    }
+  };
+
+  // Save the selected text as a highlight and mark it in the page
+  const handleCreateHighlight = async (color: string, note?: string) => {
+    if (!selectedQuote) return;
+    try {
+      const highlight = await notesService.createHighlight(
+        currentArticle.url,
+        currentArticle.title,
+        selectedQuote.exact,
+        color,
+        note,
+        { prefix: selectedQuote.prefix, suffix: selectedQuote.suffix }
+      );
+      webViewRef.current?.injectJavaScript(applyHighlightsScript([highlight]));
+      webViewRef.current?.injectJavaScript(CLEAR_SELECTION_SCRIPT);
+      setSelectedQuote(null);
+      loadAnnotationCount();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save highlight');
+    }
+  };
+
+  const handleDismissSelection = () => {
+    webViewRef.current?.injectJavaScript(CLEAR_SELECTION_SCRIPT);
+    setSelectedQuote(null);
+  };
+
+  // Show a tapped highlight with its note, and offer to delete it
+  const handleHighlightPressed = async (highlightId: string) => {
+    const highlights = await notesService.getHighlightsForArticle(currentArticle.url);
+    const highlight = highlights.find(h => h.id === highlightId);
+    if (!highlight) return;
+
+    Alert.alert(
+      'Highlight',
+      highlight.note ? `“${highlight.text}”\n\n${highlight.note}` : `“${highlight.text}”`,
+      [
+        { text: 'Close', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await notesService.deleteHighlight(highlight.id);
+              webViewRef.current?.injectJavaScript(removeHighlightScript(highlight.id));
+              loadAnnotationCount();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete highlight');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Restore the site's last view mode
+  const loadViewMode = async (article: Article) => {
+    const mode = await readerService.getViewMode(article.url);
+    if (mode === 'reader') {
+      await openReader(article);
+    } else {
+      setViewMode('web');
+      setReaderContent(null);
+    }
+  };
+
+  // Show the reader view; falls back to the web page when the article can't be extracted
+  const openReader = async (article: Article): Promise<boolean> => {
+    setReaderLoading(true);
+    const content = await readerService.getContent(article);
+    setReaderLoading(false);
+
+    // The user may have moved to another article in the meantime
+    if (article.url !== currentArticleRef.current.url) return false;
+
+    setReaderContent(content);
+    setViewMode(content ? 'reader' : 'web');
+    return content !== null;
+  };
+
+  // Switch between reader view and the publisher's page, and remember the choice for the site
+  const handleToggleReader = async () => {
+    if (viewMode === 'reader') {
+      setViewMode('web');
+      await readerService.setViewMode(currentArticle.url, 'web');
+      return;
+    }
+
+    const opened = await openReader(currentArticle);
+    if (opened) {
+      await readerService.setViewMode(currentArticle.url, 'reader');
+    } else {
+      Alert.alert('Reader View Unavailable', "The article text couldn't be found on this page.");
+    }
+  };
+
+  const handleReaderPreferencesChange = async (changes: Partial<ReaderPreferences>) => {
+    setReaderPreferences(current => ({ ...current, ...changes }));
+    await readerService.updatePreferences(changes);
+  };
+
+  // Read this article aloud, or pause/resume if it's already playing
+  const handleListen = () => {
+    if (isListening) {
+      speechService.togglePlayback();
+    } else {
+      speechService.playQueue([currentArticle]);
+    }
+  };
+
+  // Save, refresh or remove the offline copy
+  const handleOfflineToggle = () => {
+    if (!offlineArticle) {
+      saveOfflineCopy();
+      return;
+    }
+
+    Alert.alert(
+      'Saved for Offline',
+      'This article can be read without a connection.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Update', onPress: saveOfflineCopy },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await offlineArticleService.removeOfflineArticle(currentArticle.url);
+              setOfflineArticle(null);
+              setOfflineHtml(null);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove offline copy');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const saveOfflineCopy = async () => {
+    setSavingOffline(true);
+    try {
+      await offlineArticleService.saveForOffline(currentArticle);
+      await loadOfflineCopy(currentArticle.url);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save article for offline reading');
+    } finally {
+      setSavingOffline(false);
+    }
+  };
+
   // Load summary
-  const loadSummary = async () => {
-    const cached = await summaryService.getSummary(currentArticle.url);
+  const loadSummary = async (articleUrl: string = currentArticle.url) => {
+    const cached = await summaryService.getSummary(articleUrl);
+    const versions = await summaryService.getSummaryVersions(articleUrl);
+    // The reader may have moved to another article meanwhile
+    if (articleUrl !== currentArticleRef.current.url) return;
     if (cached) {
       setSummary(cached);
     }
+    setSummaryVersions(versions);
   };
 
-  // Generate AI summary
-  const handleGenerateSummary = async () => {
+  // Generate AI summary, with the default options unless others are given.
+  // refresh writes a new one even when a summary of the same text is cached.
+  const handleGenerateSummary = async (options?: SummaryOptions, refresh: boolean = false) => {
+    summaryAbortRef.current?.abort();
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
+
     setSummaryLoading(true);
+    setStreamingSummary(null);
     setShowSummary(true);
     try {
-      const newSummary = await summaryService.getOrGenerateSummary(currentArticle, true);
-      setSummary(newSummary);
+      const newSummary = await summaryService.streamSummary(
+        currentArticle,
+        (partial) => {
+          if (!controller.signal.aborted) setStreamingSummary(partial);
+        },
+        controller.signal,
+        options,
+        refresh
+      );
+      // Stopped: keep whatever summary was shown before
+      if (newSummary) {
+        setSummary(newSummary);
+        setSummaryVersions(await summaryService.getSummaryVersions(currentArticle.url));
+      }
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to generate summary');
+      if (!controller.signal.aborted) {
+        Alert.alert('Error', error.message || 'Failed to generate summary');
+      }
     } finally {
-      setSummaryLoading(false);
+      // A newer request owns the loading state now
+      if (summaryAbortRef.current === controller) {
+        summaryAbortRef.current = null;
+        setSummaryLoading(false);
+        setStreamingSummary(null);
+      }
     }
   };
 
+  // Start from the options of the summary on screen, or the defaults
+  const handleCustomizeSummary = async () => {
+    setSummaryOptions(summary?.options || getSummaryOptions(await summaryService.getSettings()));
+    setShowSummaryOptions(true);
+  };
+
+  const handleGenerateWithOptions = (options: SummaryOptions) => {
+    setShowSummaryOptions(false);
+    handleGenerateSummary(options);
+  };
+
+  // Show an earlier version, and keep it as the article's summary
+  const handleSelectSummaryVersion = (version: ArticleSummary) => {
+    setSummary(version);
+    summaryService.selectSummaryVersion(version);
+  };
+
+  const handleSelectEntity = (entity: ArticleEntity) => {
+    navigation.navigate('Entity', { entity });
+  };
+
+  const handleRetrySummaryJob = () => {
+    summaryQueue.retry(currentArticle.url);
+  };
+
+  // Stop the summary being generated; nothing partial is saved
+  const handleCancelSummary = () => {
+    summaryAbortRef.current?.abort();
+    summaryAbortRef.current = null;
+    setSummaryLoading(false);
+    setStreamingSummary(null);
+  };
+
   // Handle tags selected
   const handleTagsSelected = async (tagIds: string[]) => {
-    await tagsService.setArticleTags(currentArticle.url, tagIds);
+    await tagsService.setArticleTags(currentArticle, tagIds);
     loadArticleTags();
   };
 
@@ -286,6 +728,11 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
   };
 
   const position = getPosition();
+  const showOfflineCopy = isOffline && offlineHtml !== null && offlineArticle !== null;
+  const showReader = viewMode === 'reader' && readerContent !== null;
+  const showHighlightToolbar = selectedQuote !== null && !showReader;
+  const isListening = playback.state !== 'idle' && playback.queue[playback.queueIndex]?.url === currentArticle.url;
+  const speakingBlockIndex = isListening ? playback.segments[playback.segmentIndex]?.blockIndex : undefined;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.surface }]} edges={['top']}>
@@ -320,6 +767,13 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
               color={showSummary ? theme.primary : theme.textSecondary}
             />
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setShowChat(true)}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chatbubbles-outline" size={22} color={theme.textSecondary} />
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={() => setShowTagSelector(true)}
             style={styles.actionButton}
@@ -342,6 +796,22 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
               color={theme.textSecondary}
             />
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleOfflineToggle}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+            disabled={savingOffline}
+          >
+            {savingOffline ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Ionicons
+                name={offlineArticle ? 'cloud-done' : 'cloud-download-outline'}
+                size={22}
+                color={offlineArticle ? theme.primary : theme.textSecondary}
+              />
+            )}
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={handleShare}
             style={styles.actionButton}
@@ -422,19 +892,64 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
           </TouchableOpacity>
         </View>
         <View style={styles.controlsRight}>
+          {showReader ? (
+            <TouchableOpacity
+              onPress={() => setShowReaderSettings(true)}
+              style={[styles.iconButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="text" size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                onPress={handleWebViewGoBack}
+                style={[styles.iconButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="arrow-back" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleWebViewGoForward}
+                style={[styles.iconButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="arrow-forward" size={20} color={theme.textSecondary} />
+              </TouchableOpacity>
+            </>
+          )}
           <TouchableOpacity
-            onPress={handleWebViewGoBack}
-            style={[styles.iconButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+            onPress={handleListen}
+            style={[
+              styles.iconButton,
+              { backgroundColor: theme.surface, borderColor: isListening ? theme.primary : theme.border },
+            ]}
             activeOpacity={0.7}
           >
-            <Ionicons name="arrow-back" size={20} color={theme.textSecondary} />
+            <Ionicons
+              name={isListening && playback.state === 'playing' ? 'pause' : 'headset-outline'}
+              size={20}
+              color={isListening ? theme.primary : theme.textSecondary}
+            />
           </TouchableOpacity>
           <TouchableOpacity
-            onPress={handleWebViewGoForward}
-            style={[styles.iconButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+            onPress={handleToggleReader}
+            style={[
+              styles.iconButton,
+              { backgroundColor: theme.surface, borderColor: showReader ? theme.primary : theme.border },
+            ]}
             activeOpacity={0.7}
+            disabled={readerLoading}
           >
-            <Ionicons name="arrow-forward" size={20} color={theme.textSecondary} />
+            {readerLoading ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Ionicons
+                name={showReader ? 'reader' : 'reader-outline'}
+                size={20}
+                color={showReader ? theme.primary : theme.textSecondary}
+              />
+            )}
           </TouchableOpacity>
         </View>
       </View>
@@ -460,65 +975,148 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
           <SummaryCard
             summary={summary}
             loading={summaryLoading}
-            onGenerate={handleGenerateSummary}
+            streaming={streamingSummary}
+            onGenerate={() => handleGenerateSummary(undefined, summary !== null)}
+            onCancel={handleCancelSummary}
+            onCustomize={handleCustomizeSummary}
+            versions={summaryVersions}
+            onSelectVersion={handleSelectSummaryVersion}
+            stale={summary !== null && summaryService.isSummaryStale(summary, currentArticle)}
+            job={summaryJob}
+            onRetryJob={handleRetrySummaryJob}
             showReadingTime={true}
           />
+          <EntityChips entities={entities} onSelect={handleSelectEntity} />
         </View>
       )}
 
-      {/* WebView */}
-      <WebView
-        ref={webViewRef}
-        source={{ uri: currentArticle.url }}
-        style={styles.webview}
-        onLoadStart={() => setLoading(true)}
-        onLoadEnd={() => setLoading(false)}
-        startInLoadingState={true}
-        renderLoading={() => (
-          <View style={[styles.loadingContainer, { backgroundColor: theme.surface }]}>
-            <ActivityIndicator size="large" color={theme.primary} />
-            <Text style={[styles.loadingText, { color: theme.textSecondary }]}>Loading article...</Text>
-          </View>
+      {/* Offline Banner */}
+      {showOfflineCopy && !showReader && (
+        <View style={[styles.offlineBanner, { backgroundColor: theme.background, borderBottomColor: theme.border }]}>
+          <Ionicons name="cloud-offline-outline" size={16} color={theme.textSecondary} />
+          <Text style={[styles.offlineBannerText, { color: theme.textSecondary }]}>
+            You're offline. Showing the saved copy.
+          </Text>
+        </View>
+      )}
+
+      {/* Article (the floating controls are positioned within it) */}
+      <View style={styles.articleArea}>
+        {/* Reader View or WebView */}
+        {showReader ? (
+          <ReaderView
+            content={readerContent!}
+            preferences={readerPreferences}
+            initialPosition={getRestorePosition()}
+            onScrollProgress={handleScrollProgress}
+            activeBlockIndex={speakingBlockIndex}
+          />
+        ) : (
+          <WebView
+            ref={webViewRef}
+            source={
+              showOfflineCopy
+                ? { html: offlineHtml!, baseUrl: offlineArticle!.directory }
+                : { uri: currentArticle.url }
+            }
+            originWhitelist={['*']}
+            allowFileAccess={showOfflineCopy}
+            allowFileAccessFromFileURLs={showOfflineCopy}
+            allowingReadAccessToURL={showOfflineCopy ? offlineArticle!.directory : undefined}
+            style={styles.webview}
+            injectedJavaScript={HIGHLIGHT_SCRIPT + SCROLL_SCRIPT}
+            onMessage={handleWebViewMessage}
+            onLoadStart={() => {
+              setLoading(true);
+              setSelectedQuote(null);
+            }}
+            onLoadEnd={() => setLoading(false)}
+            startInLoadingState={true}
+            renderLoading={() => (
+              <View style={[styles.loadingContainer, { backgroundColor: theme.surface }]}>
+                <ActivityIndicator size="large" color={theme.primary} />
+                <Text style={[styles.loadingText, { color: theme.textSecondary }]}>Loading article...</Text>
+              </View>
+            )}
+          />
         )}
-      />
 
-      {/* Floating Annotation Button */}
-      <TouchableOpacity
-        style={[styles.floatingButton, { backgroundColor: theme.primary }]}
-        onPress={() => setShowAnnotationMenu(!showAnnotationMenu)}
-        activeOpacity={0.8}
-      >
-        <Ionicons name="create-outline" size={28} color="#FFFFFF" />
-        {annotationCount > 0 && (
-          <View style={styles.floatingBadge}>
-            <Text style={styles.floatingBadgeText}>
-              {annotationCount > 9 ? '9+' : annotationCount}
-            </Text>
-          </View>
+        {/* Highlight Toolbar (while text is selected in the page) */}
+        {showHighlightToolbar && (
+          <HighlightToolbar
+            selectedText={selectedQuote!.exact}
+            onHighlight={handleCreateHighlight}
+            onDismiss={handleDismissSelection}
+          />
         )}
-      </TouchableOpacity>
-
-      {/* Annotation Menu */}
-      {showAnnotationMenu && (
-        <View style={[styles.annotationMenu, { backgroundColor: theme.card }]}>
-          <View style={styles.menuButtonsContainer}>
-            <AnnotationButton
-              icon="document-text"
-              label="Add Note"
-              onPress={handleAddNote}
-            />
+
+        {/* Floating Annotation Button */}
+        {!showHighlightToolbar && (
+          <TouchableOpacity
+            style={[styles.floatingButton, { backgroundColor: theme.primary }]}
+            onPress={() => setShowAnnotationMenu(!showAnnotationMenu)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="create-outline" size={28} color="#FFFFFF" />
             {annotationCount > 0 && (
+              <View style={styles.floatingBadge}>
+                <Text style={styles.floatingBadgeText}>
+                  {annotationCount > 9 ? '9+' : annotationCount}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Annotation Menu */}
+        {showAnnotationMenu && (
+          <View style={[styles.annotationMenu, { backgroundColor: theme.card }]}>
+            <View style={styles.menuButtonsContainer}>
               <AnnotationButton
-                icon="eye"
-                label="View All"
-                count={annotationCount}
-                onPress={handleViewAnnotations}
-                color={theme.success || theme.primary}
+                icon="document-text"
+                label="Add Note"
+                onPress={handleAddNote}
               />
-            )}
+              {annotationCount > 0 && (
+                <AnnotationButton
+                  icon="eye"
+                  label="View All"
+                  count={annotationCount}
+                  onPress={handleViewAnnotations}
+                  color={theme.success || theme.primary}
+                />
+              )}
+            </View>
           </View>
-        </View>
-      )}
+        )}
+      </View>
+
+      {/* Text-to-speech Player */}
+      <ListenPlayer />
+
+      {/* Reader Settings */}
+      <ReaderSettingsPanel
+        visible={showReaderSettings}
+        onClose={() => setShowReaderSettings(false)}
+        preferences={readerPreferences}
+        onChange={handleReaderPreferencesChange}
+      />
+
+      {/* Options for one summary */}
+      <SummaryOptionsPanel
+        visible={showSummaryOptions}
+        onClose={() => setShowSummaryOptions(false)}
+        initialOptions={summaryOptions}
+        onGenerate={handleGenerateWithOptions}
+      />
+
+      {/* Questions about the article */}
+      <ArticleChatPanel
+        visible={showChat}
+        onClose={() => setShowChat(false)}
+        article={currentArticle}
+        onNoteSaved={loadAnnotationCount}
+      />
 
       {/* Tag Selector Modal */}
       <TagSelector
@@ -532,7 +1130,7 @@ export const ArticleDetailScreen: React.FC<ArticleDetailScreenProps> = ({
       <CollectionSelector
         visible={showCollectionSelector}
         onClose={() => setShowCollectionSelector(false)}
-        articleUrl={currentArticle.url}
+        article={currentArticle}
       />
     </SafeAreaView>
   );
@@ -626,6 +1224,18 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingTop: 8,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   webview: {
     flex: 1,
   },
@@ -643,6 +1253,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  articleArea: {
+    flex: 1,
+  },
   floatingButton: {
     position: 'absolute',
     bottom: 24,
@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  backupService,
+  BackupArchive,
+  RestoreMode,
+  RestorePreview,
+  RestorePreviewItem,
+} from '../services/backupService';
+
+interface BackupScreenProps {
+  navigation: any;
+}
+
+const MODE_DESCRIPTIONS: { [key in RestoreMode]: string } = {
+  merge: 'Adds items from the backup that are missing on this device. Nothing is deleted and your current settings are kept.',
+  replace: 'Replaces everything on this device with the contents of the backup. Items not in the backup are deleted.',
+};
+
+export const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const { theme, reloadTheme } = useTheme();
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+
+  useEffect(() => {
+    if (archive) {
+      backupService.previewRestore(archive, mode).then(setPreview).catch(error => {
+        console.error('Error previewing restore:', error);
+        setPreview(null);
+      });
+    } else {
+      setPreview(null);
+    }
+  }, [archive, mode]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await backupService.shareBackup();
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export backup');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const picked = await backupService.pickBackupFile();
+      if (picked) {
+        setArchive(picked);
+        setMode('merge');
+      }
+    } catch (error: any) {
+      Alert.alert('Invalid Backup', error.message || 'Failed to read backup file');
+    }
+  };
+
+  const applyRestore = async () => {
+    if (!archive) return;
+
+    setRestoring(true);
+    try {
+      await backupService.restoreBackup(archive, mode);
+      await reloadTheme();
+      setArchive(null);
+      Alert.alert('Restore Complete', 'Your data has been restored.');
+    } catch (error: any) {
+      Alert.alert('Restore Failed', error.message || 'Failed to restore backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === 'replace') {
+      Alert.alert(
+        'Replace All Data',
+        'Everything on this device that is not in the backup will be permanently deleted. This action cannot be undone.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Replace', style: 'destructive', onPress: applyRestore },
+        ]
+      );
+    } else {
+      applyRestore();
+    }
+  };
+
+  const describeChange = (item: RestorePreviewItem): string => {
+    if (item.type !== 'list') {
+      if (!item.changed) return 'No change';
+      if (item.result === 0) return 'Reset to default';
+      return item.current === 0 ? 'Will be restored' : 'Will be updated';
+    }
+    if (!item.changed) return `${item.current} (no change)`;
+
+    const parts: string[] = [];
+    if (item.added > 0) parts.push(`+${item.added}`);
+    if (item.removed > 0) parts.push(`-${item.removed}`);
+    return `${item.current} → ${item.result}${parts.length > 0 ? ` (${parts.join(', ')})` : ''}`;
+  };
+
+  const renderPreviewItem = (item: RestorePreviewItem, index: number) => (
+    <React.Fragment key={item.key}>
+      {index > 0 && <View style={[styles.divider, { backgroundColor: theme.border }]} />}
+      <View style={styles.previewRow}>
+        <Text style={[styles.previewLabel, { color: theme.text }]}>{item.label}</Text>
+        <Text
+          style={[
+            styles.previewValue,
+            { color: item.removed > 0 ? theme.error : item.changed ? theme.primary : theme.textSecondary },
+          ]}
+        >
+          {describeChange(item)}
+        </Text>
+      </View>
+    </React.Fragment>
+  );
+
+  const hasChanges = preview?.items.some(item => item.changed) ?? false;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>Backup & Restore</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Export */}
+        <View style={styles.sectionHeader}>
+          <Ionicons name="cloud-upload-outline" size={20} color={theme.text} />
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Backup</Text>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={handleExport}
+            disabled={exporting}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons name="archive-outline" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>Export Backup</Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  Bookmarks, collections, tags, notes, highlights, history, summaries, feeds and settings. API keys are not included.
+                </Text>
+              </View>
+            </View>
+            {exporting ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : (
+              <Ionicons name="share-outline" size={20} color={theme.textSecondary} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Restore */}
+        <View style={styles.sectionHeader}>
+          <Ionicons name="cloud-download-outline" size={20} color={theme.text} />
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Restore</Text>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <TouchableOpacity style={styles.settingRow} onPress={handlePickBackup} activeOpacity={0.7}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="folder-open-outline" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>
+                  {archive ? 'Choose Another File' : 'Choose Backup File'}
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  {archive
+                    ? `Backup from ${new Date(archive.createdAt).toLocaleString()}`
+                    : 'Restore from a previously exported backup'}
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        {archive && (
+          <>
+            {/* Mode */}
+            <View style={[styles.section, styles.modeSection, { backgroundColor: theme.card }]}>
+              <View style={styles.modeToggle}>
+                {(['merge', 'replace'] as RestoreMode[]).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.modeButton,
+                      { borderColor: theme.border },
+                      mode === option && { backgroundColor: theme.primary, borderColor: theme.primary },
+                    ]}
+                    onPress={() => setMode(option)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.modeButtonText, { color: mode === option ? '#FFFFFF' : theme.text }]}>
+                      {option === 'merge' ? 'Merge' : 'Replace'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={[styles.modeDescription, { color: theme.textSecondary }]}>
+                {MODE_DESCRIPTIONS[mode]}
+              </Text>
+            </View>
+
+            {/* Preview */}
+            <View style={styles.sectionHeader}>
+              <Ionicons name="eye-outline" size={20} color={theme.text} />
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>What Will Change</Text>
+            </View>
+
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+              {preview ? (
+                preview.items.map(renderPreviewItem)
+              ) : (
+                <ActivityIndicator size="small" color={theme.primary} style={styles.previewLoading} />
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.restoreButton,
+                { backgroundColor: mode === 'replace' ? theme.error : theme.primary },
+                (!hasChanges || restoring) && styles.disabledButton,
+              ]}
+              onPress={handleRestore}
+              disabled={!hasChanges || restoring}
+              activeOpacity={0.7}
+            >
+              {restoring ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Ionicons name="checkmark" size={20} color="#FFFFFF" />
+              )}
+              <Text style={styles.restoreButtonText}>
+                {hasChanges ? 'Restore Backup' : 'Nothing to Restore'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginTop: 24,
+    marginBottom: 8,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  section: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  settingLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    marginRight: 16,
+  },
+  settingText: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 14,
+  },
+  modeSection: {
+    marginTop: 12,
+    padding: 16,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  modeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  modeDescription: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  divider: {
+    height: 1,
+    marginLeft: 16,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  previewLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  previewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewLoading: {
+    padding: 16,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginHorizontal: 16,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    gap: 8,
+  },
+  restoreButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 32,
+  },
+});
@@ -15,9 +15,11 @@ import {
   ArticleCard,
   LoadingState,
   EmptyState,
+  ListenPlayer,
 } from '../components';
 import { Article } from '../types';
 import { bookmarkStorage } from '../services/bookmarkStorage';
+import { speechService } from '../services/speechService';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface BookmarksScreenProps {
@@ -158,6 +160,16 @@ export const BookmarksScreen: React.FC<BookmarksScreenProps> = ({ navigation })
                 color={theme.text} 
               />
             </TouchableOpacity>
+            {bookmarks.length > 0 && (
+              <TouchableOpacity
+                onPress={() => speechService.playQueue(bookmarks)}
+                style={styles.themeButton}
+                activeOpacity={0.7}
+                accessibilityLabel="Listen to bookmarks"
+              >
+                <Ionicons name="headset-outline" size={20} color={theme.text} />
+              </TouchableOpacity>
+            )}
             {bookmarks.length > 0 && (
               <TouchableOpacity
                 onPress={handleClearAll}
@@ -179,6 +191,9 @@ export const BookmarksScreen: React.FC<BookmarksScreenProps> = ({ navigation })
 
       {/* Content */}
       {renderContent()}
+
+      {/* Text-to-speech Player */}
+      <ListenPlayer />
     </SafeAreaView>
   );
 };
@@ -0,0 +1,391 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { briefingService, Briefing, BriefingScope } from '../services/briefingService';
+import { Article } from '../types';
+
+interface BriefingScreenProps {
+  route: any;
+  navigation: any;
+}
+
+/**
+ * Shows a saved briefing (`briefingId`), or writes a new one for `scope` from `articles`.
+ * Today's briefing needs no articles; they come from the reading history.
+ */
+export const BriefingScreen: React.FC<BriefingScreenProps> = ({ route, navigation }) => {
+  const { theme } = useTheme();
+  const { briefingId, scope, articles } = (route.params || {}) as {
+    briefingId?: string;
+    scope?: BriefingScope;
+    articles?: Article[];
+  };
+  const [briefing, setBriefing] = useState<Briefing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (briefingId) {
+      loadBriefing(briefingId);
+    } else if (scope) {
+      generateBriefing(scope, articles);
+    } else {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadBriefing = async (id: string) => {
+    const saved = await briefingService.getBriefing(id);
+    setBriefing(saved);
+    if (!saved) setError('This briefing no longer exists.');
+    setLoading(false);
+  };
+
+  const generateBriefing = async (briefingScope: BriefingScope, scopeArticles?: Article[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const sourceArticles = scopeArticles
+        || (briefingScope.type === 'today' ? await briefingService.getArticlesReadToday() : []);
+      const generated = await briefingService.generateBriefing(briefingScope, sourceArticles);
+      setBriefing(generated);
+      // Coming back to this screen shows the saved briefing instead of writing another
+      navigation.setParams({ briefingId: generated.id, scope: undefined, articles: undefined });
+    } catch (err: any) {
+      setError(err.message || 'Failed to write the briefing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!briefing) return;
+    try {
+      await briefingService.shareBriefing(briefing);
+    } catch (err) {
+      Alert.alert('Share Failed', 'Unable to share this briefing. Please try again.');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!briefing) return;
+    Alert.alert('Delete Briefing', 'Delete this briefing?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await briefingService.deleteBriefing(briefing.id);
+          navigation.goBack();
+        },
+      },
+    ]);
+  };
+
+  const handleSourcePress = (article: Article) => {
+    navigation.navigate('ArticleDetail', { article });
+  };
+
+  const renderCitations = (citations: string[]) => (
+    <View style={styles.citations}>
+      {citations.map(url => {
+        const number = briefingService.getCitationNumber(briefing!, url);
+        return (
+          <TouchableOpacity
+            key={url}
+            style={[styles.citation, { backgroundColor: theme.primary + '20' }]}
+            onPress={() => handleSourcePress(briefing!.sources[number - 1])}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.citationText, { color: theme.primary }]}>{number}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.primary} />
+          <Text style={[styles.statusText, { color: theme.textSecondary }]}>
+            {scope && !briefing ? 'Writing your briefing...' : 'Loading...'}
+          </Text>
+        </View>
+      );
+    }
+
+    if (error || !briefing) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="newspaper-outline" size={64} color={theme.textSecondary} />
+          <Text style={[styles.statusText, { color: theme.textSecondary }]}>
+            {error || 'No briefing to show.'}
+          </Text>
+          {scope && (
+            <TouchableOpacity
+              style={[styles.retryButton, { backgroundColor: theme.primary }]}
+              onPress={() => generateBriefing(scope, articles)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.retryText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        {briefing.overview ? (
+          <View style={[styles.overview, { backgroundColor: theme.card }]}>
+            <Text style={[styles.overviewText, { color: theme.text }]}>{briefing.overview}</Text>
+          </View>
+        ) : null}
+
+        {briefing.sections.map((section, sectionIndex) => (
+          <View key={sectionIndex} style={styles.section}>
+            <Text style={[styles.sectionHeading, { color: theme.text }]}>{section.heading}</Text>
+            {section.facts.map((fact, factIndex) => (
+              <View key={factIndex} style={styles.fact}>
+                <View style={[styles.bullet, { backgroundColor: theme.primary }]} />
+                <View style={styles.factBody}>
+                  <Text style={[styles.factText, { color: theme.text }]}>{fact.text}</Text>
+                  {renderCitations(fact.citations)}
+                </View>
+              </View>
+            ))}
+          </View>
+        ))}
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionHeading, { color: theme.text }]}>Sources</Text>
+          {briefing.sources.map((article, index) => (
+            <TouchableOpacity
+              key={article.url}
+              style={[styles.source, { backgroundColor: theme.card }]}
+              onPress={() => handleSourcePress(article)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.sourceNumber, { color: theme.primary }]}>{index + 1}</Text>
+              <View style={styles.factBody}>
+                <Text style={[styles.sourceTitle, { color: theme.text }]} numberOfLines={2}>
+                  {article.title}
+                </Text>
+                <Text style={[styles.sourceName, { color: theme.textSecondary }]}>
+                  {article.source.name}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={[styles.footerText, { color: theme.textSecondary }]}>
+          {briefing.model === 'fallback'
+            ? 'Built from article descriptions'
+            : `Written by ${briefing.model.split('/').pop()}`}
+        </Text>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={[styles.headerTitle, { color: theme.text }]} numberOfLines={1}>
+              {briefing?.title || scope?.label || 'Briefing'}
+            </Text>
+            {briefing && (
+              <Text style={[styles.headerSubtitle, { color: theme.textSecondary }]}>
+                {new Date(briefing.generatedAt).toLocaleString()} · {briefing.sources.length}{' '}
+                {briefing.sources.length === 1 ? 'article' : 'articles'}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {briefing && (
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={handleShare} style={styles.actionButton} activeOpacity={0.7}>
+              <Ionicons name="share-outline" size={24} color={theme.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDelete} style={styles.actionButton} activeOpacity={0.7}>
+              <Ionicons name="trash-outline" size={24} color={theme.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {renderBody()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  headerText: {
+    flex: 1,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    padding: 4,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  statusText: {
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  retryButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  retryText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  overview: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  overviewText: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionHeading: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  fact: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+    gap: 10,
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+  },
+  factBody: {
+    flex: 1,
+  },
+  factText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  citations: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  citation: {
+    minWidth: 22,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  citationText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  source: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  sourceNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    width: 22,
+    textAlign: 'center',
+  },
+  sourceTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    lineHeight: 19,
+  },
+  sourceName: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  footerText: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { briefingService, Briefing, BriefingScope } from '../services/briefingService';
+import { LoadingState } from '../components';
+
+interface BriefingsScreenProps {
+  navigation: any;
+}
+
+const SCOPE_ICONS: Record<BriefingScope['type'], string> = {
+  category: 'newspaper-outline',
+  collection: 'folder-outline',
+  today: 'today-outline',
+};
+
+export const BriefingsScreen: React.FC<BriefingsScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [briefings, setBriefings] = useState<Briefing[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadBriefings();
+    }, [])
+  );
+
+  const loadBriefings = async () => {
+    try {
+      setBriefings(await briefingService.getBriefings());
+    } catch (error) {
+      console.error('Error loading briefings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTodayBriefing = () => {
+    navigation.navigate('Briefing', { scope: { type: 'today', label: "Today's Reading" } });
+  };
+
+  const renderBriefing = ({ item }: { item: Briefing }) => (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: theme.card }]}
+      onPress={() => navigation.navigate('Briefing', { briefingId: item.id })}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.cardIcon, { backgroundColor: theme.primary + '20' }]}>
+        <Ionicons name={SCOPE_ICONS[item.scope.type] as any} size={20} color={theme.primary} />
+      </View>
+      <View style={styles.cardText}>
+        <Text style={[styles.title, { color: theme.text }]} numberOfLines={1}>
+          {item.title}
+        </Text>
+        {item.overview ? (
+          <Text style={[styles.overview, { color: theme.textSecondary }]} numberOfLines={2}>
+            {item.overview}
+          </Text>
+        ) : null}
+        <Text style={[styles.meta, { color: theme.textSecondary }]}>
+          {new Date(item.generatedAt).toLocaleString()} · {item.sources.length}{' '}
+          {item.sources.length === 1 ? 'article' : 'articles'}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={20} color={theme.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.text }]}>🗞️ Briefings</Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.todayButton, { backgroundColor: theme.primary }]}
+        onPress={handleTodayBriefing}
+        activeOpacity={0.8}
+      >
+        <Ionicons name="sparkles" size={18} color="#FFFFFF" />
+        <Text style={styles.todayButtonText}>Brief Me on Today's Reading</Text>
+      </TouchableOpacity>
+
+      {loading ? (
+        <LoadingState />
+      ) : briefings.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="newspaper-outline" size={64} color={theme.textSecondary} />
+          <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+            Briefings combine several articles into one read. Create one from a category on the
+            home screen, from a collection, or from what you read today.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={briefings}
+          renderItem={renderBriefing}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  todayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    margin: 16,
+    marginBottom: 0,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  todayButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  cardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  overview: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  emptyMessage: {
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -13,8 +13,10 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
 import { tagsService, Collection } from '../services/tagsService';
 import { bookmarkStorage } from '../services/bookmarkStorage';
+import { speechService } from '../services/speechService';
+import { getArticleId } from '../services/articleUrl';
 import { Article } from '../types';
-import { ArticleCard } from '../components';
+import { ArticleCard, ListenPlayer } from '../components';
 
 interface CollectionDetailScreenProps {
   route: any;
@@ -29,6 +31,7 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
   const { collection: initialCollection } = route.params;
   const [collection, setCollection] = useState<Collection>(initialCollection);
   const [articles, setArticles] = useState<Article[]>([]);
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
 
   useFocusEffect(
@@ -39,11 +42,12 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
 
   const loadArticles = async () => {
     try {
-      const bookmarks = await bookmarkStorage.getBookmarks();
-      const collectionArticles = bookmarks.filter(article =>
-        collection.articleUrls.includes(article.url)
-      );
+      const [collectionArticles, bookmarks] = await Promise.all([
+        tagsService.getCollectionArticles(collection.id),
+        bookmarkStorage.getBookmarks(),
+      ]);
       setArticles(collectionArticles);
+      setBookmarkedIds(new Set(bookmarks.map(article => getArticleId(article.url))));
     } catch (error) {
       console.error('Error loading articles:', error);
     } finally {
@@ -58,6 +62,25 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
     });
   };
 
+  const handleBookmarkToggle = async (article: Article) => {
+    const articleId = getArticleId(article.url);
+    try {
+      if (bookmarkedIds.has(articleId)) {
+        await bookmarkStorage.removeBookmark(article.url);
+        setBookmarkedIds(prev => {
+          const next = new Set(prev);
+          next.delete(articleId);
+          return next;
+        });
+      } else {
+        await bookmarkStorage.addBookmark(article);
+        setBookmarkedIds(prev => new Set(prev).add(articleId));
+      }
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+    }
+  };
+
   const handleRemoveArticle = (article: Article) => {
     Alert.alert(
       'Remove Article',
@@ -69,7 +92,8 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
           style: 'destructive',
           onPress: async () => {
             await tagsService.removeArticleFromCollection(collection.id, article.url);
-            setArticles(prev => prev.filter(a => a.url !== article.url));
+            const articleId = getArticleId(article.url);
+            setArticles(prev => prev.filter(a => getArticleId(a.url) !== articleId));
           },
         },
       ]
@@ -99,8 +123,8 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
       <ArticleCard
         article={item}
         onPress={() => handleArticlePress(item)}
-        isBookmarked={true}
-        onBookmarkToggle={() => {}}
+        isBookmarked={bookmarkedIds.has(getArticleId(item.url))}
+        onBookmarkToggle={() => handleBookmarkToggle(item)}
         onShare={() => {}}
       />
       {!collection.isSmartCollection && (
@@ -141,6 +165,31 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
           </View>
         </View>
 
+        {articles.length > 0 && (
+          <TouchableOpacity
+            onPress={() => speechService.playQueue(articles)}
+            style={styles.deleteButton}
+            activeOpacity={0.7}
+            accessibilityLabel="Listen to collection"
+          >
+            <Ionicons name="headset-outline" size={24} color={theme.text} />
+          </TouchableOpacity>
+        )}
+
+        {articles.length > 0 && (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Briefing', {
+              scope: { type: 'collection', label: `${collection.name} Briefing` },
+              articles,
+            })}
+            style={styles.deleteButton}
+            activeOpacity={0.7}
+            accessibilityLabel="Collection briefing"
+          >
+            <Ionicons name="sparkles-outline" size={24} color={theme.text} />
+          </TouchableOpacity>
+        )}
+
         {!collection.isSmartCollection && (
           <TouchableOpacity
             onPress={handleDeleteCollection}
@@ -193,6 +242,9 @@ export const CollectionDetailScreen: React.FC<CollectionDetailScreenProps> = ({
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      {/* Text-to-speech Player */}
+      <ListenPlayer />
     </SafeAreaView>
   );
 };
@@ -0,0 +1,166 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { ArticleEntity, ENTITY_TYPES } from '../services/entities';
+import { entityService, EntityPage, EntityArticle } from '../services/entityService';
+import { LoadingState, NoteCard } from '../components';
+
+interface EntityScreenProps {
+  route: any;
+  navigation: any;
+}
+
+export const EntityScreen: React.FC<EntityScreenProps> = ({ route, navigation }) => {
+  const { theme } = useTheme();
+  const entity: ArticleEntity = route.params.entity;
+  const [page, setPage] = useState<EntityPage | null>(null);
+  const entityType = ENTITY_TYPES.find(type => type.id === entity.type);
+
+  // Reload on focus, so notes written from an article show when coming back
+  useFocusEffect(
+    useCallback(() => {
+      entityService.getEntityPage(entity).then(setPage);
+    }, [entity.name, entity.type])
+  );
+
+  const renderArticle = ({ article, bookmarked, readAt }: EntityArticle) => (
+    <TouchableOpacity
+      key={article.url}
+      style={[styles.card, { backgroundColor: theme.card }]}
+      onPress={() => navigation.navigate('ArticleDetail', { article })}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.title, { color: theme.text }]} numberOfLines={2}>
+        {article.title}
+      </Text>
+      <View style={styles.meta}>
+        <Text style={[styles.source, { color: theme.textSecondary }]} numberOfLines={1}>
+          {article.source.name} · {new Date(article.publishedAt).toLocaleDateString()}
+        </Text>
+        {bookmarked && <Ionicons name="bookmark" size={14} color={theme.primary} />}
+        {readAt !== null && <Ionicons name="checkmark-circle" size={14} color={theme.success || theme.primary} />}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Ionicons name={entityType?.icon as any} size={22} color={theme.primary} />
+        <Text style={[styles.headerTitle, { color: theme.text }]} numberOfLines={1}>
+          {entity.name}
+        </Text>
+      </View>
+
+      {!page ? (
+        <LoadingState />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            ARTICLES ({page.articles.length})
+          </Text>
+          {page.articles.length === 0 ? (
+            <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+              None of your saved, bookmarked or read articles mention {entity.name}.
+            </Text>
+          ) : (
+            page.articles.map(renderArticle)
+          )}
+
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            NOTES ({page.notes.length})
+          </Text>
+          {page.notes.length === 0 ? (
+            <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+              Notes that mention {entity.name}, or that you wrote on these articles, show here.
+            </Text>
+          ) : (
+            page.notes.map(note => (
+              <NoteCard
+                key={note.id}
+                note={note}
+                onPress={() => navigation.navigate('ArticleDetail', {
+                  article: { url: note.articleUrl, title: note.articleTitle },
+                })}
+              />
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    gap: 6,
+  },
+  source: {
+    flexShrink: 1,
+    fontSize: 12,
+  },
+  emptyMessage: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,445 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { feedService, FeedSubscription, FeedImportResult } from '../services/feedService';
+import { opmlService } from '../services/opmlService';
+
+interface FeedsScreenProps {
+  navigation: any;
+}
+
+const FORMAT_LABELS: { [key: string]: string } = {
+  rss: 'RSS',
+  atom: 'Atom',
+  json: 'JSON Feed',
+};
+
+export const FeedsScreen: React.FC<FeedsScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [feeds, setFeeds] = useState<FeedSubscription[]>([]);
+  const [feedUrl, setFeedUrl] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [showPasteModal, setShowPasteModal] = useState(false);
+  const [opmlText, setOpmlText] = useState('');
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadFeeds();
+    }, [])
+  );
+
+  const loadFeeds = async () => {
+    const subscriptions = await feedService.getSubscriptions();
+    setFeeds(subscriptions);
+  };
+
+  const handleAddFeed = async () => {
+    if (!feedUrl.trim()) {
+      Alert.alert('Error', 'Please enter a feed URL');
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const subscription = await feedService.addSubscription(feedUrl);
+      setFeedUrl('');
+      loadFeeds();
+      Alert.alert('Subscribed', `Added "${subscription.title}" to your feeds`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add feed');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemoveFeed = (feed: FeedSubscription) => {
+    Alert.alert(
+      'Unsubscribe',
+      `Remove "${feed.title}" from your feeds?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await feedService.removeSubscription(feed.id);
+              loadFeeds();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove feed');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const showImportResult = (result: FeedImportResult) => {
+    const added = result.added.length;
+    const skipped = result.duplicates.length;
+    let message = `Imported ${added} ${added === 1 ? 'feed' : 'feeds'}.`;
+    if (skipped > 0) {
+      message += `\nSkipped ${skipped} ${skipped === 1 ? 'feed' : 'feeds'} you already follow.`;
+    }
+    const invalid = result.invalid.length;
+    if (invalid > 0) {
+      message += `\nSkipped ${invalid} ${invalid === 1 ? 'feed' : 'feeds'} without a valid address.`;
+    }
+    Alert.alert('Import Complete', message);
+    loadFeeds();
+  };
+
+  const handleImportFile = async () => {
+    try {
+      const result = await opmlService.importFromFile();
+      if (result) {
+        showImportResult(result);
+      }
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Failed to import OPML file');
+    }
+  };
+
+  const handleImportText = async () => {
+    if (!opmlText.trim()) {
+      Alert.alert('Error', 'Please paste the contents of an OPML file');
+      return;
+    }
+
+    try {
+      const result = await opmlService.importFromText(opmlText);
+      setShowPasteModal(false);
+      setOpmlText('');
+      showImportResult(result);
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Failed to import OPML');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await opmlService.shareAsOpml();
+    } catch (error: any) {
+      Alert.alert('Export Failed', error.message || 'Failed to export feeds');
+    }
+  };
+
+  const renderFeed = ({ item }: { item: FeedSubscription }) => (
+    <View style={[styles.feedItem, { backgroundColor: theme.card }]}>
+      <View style={[styles.iconContainer, { backgroundColor: theme.primary + '20' }]}>
+        <Ionicons name="logo-rss" size={22} color={theme.primary} />
+      </View>
+      <View style={styles.feedInfo}>
+        <Text style={[styles.feedTitle, { color: theme.text }]} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={[styles.feedUrl, { color: theme.textSecondary }]} numberOfLines={1}>
+          {item.url}
+        </Text>
+        <Text style={[styles.feedMeta, { color: theme.textSecondary }]}>
+          {FORMAT_LABELS[item.format] || item.format}
+          {item.group ? ` • ${item.group}` : ''}
+          {item.lastFetchedAt
+            ? ` • Updated ${new Date(item.lastFetchedAt).toLocaleDateString()}`
+            : ''}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRemoveFeed(item)}
+        style={styles.removeButton}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="trash-outline" size={20} color={theme.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>📡 Feeds</Text>
+          <Text style={[styles.headerSubtitle, { color: theme.textSecondary }]}>
+            {feeds.length} {feeds.length === 1 ? 'subscription' : 'subscriptions'}
+          </Text>
+        </View>
+      </View>
+
+      {/* Add Feed */}
+      <View style={[styles.addContainer, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TextInput
+          style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+          value={feedUrl}
+          onChangeText={setFeedUrl}
+          placeholder="RSS, Atom or JSON Feed URL"
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          returnKeyType="done"
+          onSubmitEditing={handleAddFeed}
+          editable={!adding}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: theme.primary }, adding && styles.disabledButton]}
+          onPress={handleAddFeed}
+          disabled={adding}
+          activeOpacity={0.7}
+        >
+          {adding ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Ionicons name="add" size={22} color="#FFFFFF" />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* OPML Import / Export */}
+      <View style={[styles.opmlActions, { borderBottomColor: theme.border }]}>
+        <TouchableOpacity style={styles.opmlButton} onPress={handleImportFile} activeOpacity={0.7}>
+          <Ionicons name="document-outline" size={18} color={theme.primary} />
+          <Text style={[styles.opmlButtonText, { color: theme.primary }]}>Import File</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.opmlButton} onPress={() => setShowPasteModal(true)} activeOpacity={0.7}>
+          <Ionicons name="clipboard-outline" size={18} color={theme.primary} />
+          <Text style={[styles.opmlButtonText, { color: theme.primary }]}>Paste OPML</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.opmlButton}
+          onPress={handleExport}
+          activeOpacity={0.7}
+          disabled={feeds.length === 0}
+        >
+          <Ionicons name="share-outline" size={18} color={feeds.length === 0 ? theme.border : theme.primary} />
+          <Text style={[styles.opmlButtonText, { color: feeds.length === 0 ? theme.border : theme.primary }]}>
+            Export
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Feeds List */}
+      {feeds.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <View style={[styles.emptyIconContainer, { backgroundColor: theme.card }]}>
+            <Ionicons name="logo-rss" size={64} color={theme.textSecondary} />
+          </View>
+          <Text style={[styles.emptyTitle, { color: theme.text }]}>
+            No Feeds Yet
+          </Text>
+          <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+            Subscribe to any RSS, Atom or JSON Feed to read outlets that aren't on NewsAPI. Feeds show up next to the categories on the home screen.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={feeds}
+          renderItem={renderFeed}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      {/* Paste OPML Modal */}
+      <Modal
+        visible={showPasteModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowPasteModal(false)}
+      >
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+            <TouchableOpacity onPress={() => setShowPasteModal(false)}>
+              <Text style={[styles.modalAction, { color: theme.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Paste OPML</Text>
+            <TouchableOpacity onPress={handleImportText}>
+              <Text style={[styles.modalAction, { color: theme.primary }]}>Import</Text>
+            </TouchableOpacity>
+          </View>
+          <TextInput
+            style={[styles.opmlInput, { color: theme.text, backgroundColor: theme.card }]}
+            value={opmlText}
+            onChangeText={setOpmlText}
+            placeholder={'<?xml version="1.0"?>\n<opml version="2.0">...'}
+            placeholderTextColor={theme.textSecondary}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  addContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    gap: 8,
+    borderBottomWidth: 1,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  opmlActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  opmlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 6,
+  },
+  opmlButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  modalAction: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  opmlInput: {
+    flex: 1,
+    margin: 16,
+    padding: 12,
+    borderRadius: 12,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  listContent: {
+    padding: 16,
+  },
+  feedItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  feedInfo: {
+    flex: 1,
+  },
+  feedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  feedUrl: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  feedMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  removeButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyIconContainer: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  emptyMessage: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -11,6 +11,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import NetInfo from '@react-native-community/netinfo';
+import { useFocusEffect } from '@react-navigation/native';
 import {
   CategoryFilter,
   ArticleCard,
@@ -23,6 +24,9 @@ import {
 import { Article, Category } from '../types';
 import { newsApi } from '../services/newsApi';
 import { bookmarkStorage } from '../services/bookmarkStorage';
+import { getArticleId } from '../services/articleUrl';
+import { feedService, FeedSubscription } from '../services/feedService';
+import { CATEGORIES } from '../constants/categories';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface HomeScreenProps {
@@ -38,8 +42,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isSearchMode, setIsSearchMode] = useState<boolean>(false);
-  const [bookmarkedUrls, setBookmarkedUrls] = useState<Set<string>>(new Set());
+  const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
   const [isOffline, setIsOffline] = useState<boolean>(false);
+  const [feeds, setFeeds] = useState<FeedSubscription[]>([]);
+  const [selectedFeedId, setSelectedFeedId] = useState<string | null>(null);
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState<number>(1);
@@ -67,9 +73,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       setTotalResults(response.totalResults);
       setCurrentPage(page);
       
-      // Check if there are more articles to load
-      const totalPages = Math.ceil(response.totalResults / 20);
-      setHasMore(page < totalPages && response.articles.length > 0);
+      // The provider reports whether there are more articles to load
+      setHasMore(response.hasMore);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load news');
       if (page === 1) {
@@ -82,6 +87,29 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   }, []);
 
+  // Fetch articles from a subscribed feed (feeds are not paginated)
+  const fetchFeedArticles = useCallback(async (feedId: string, isRefreshing = false) => {
+    try {
+      if (!isRefreshing) {
+        setLoading(true);
+      }
+      setError(null);
+
+      const response = await feedService.getFeedArticles(feedId, !isRefreshing);
+      setArticles(response.articles);
+      setTotalResults(response.totalResults);
+      setCurrentPage(1);
+      setHasMore(response.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load feed');
+      setArticles([]);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+      setLoadingMore(false);
+    }
+  }, []);
+
   // Search articles by query
   const searchArticles = useCallback(async (query: string, isRefreshing = false, page = 1) => {
     try {
@@ -102,9 +130,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       setTotalResults(response.totalResults);
       setCurrentPage(page);
       
-      // Check if there are more articles to load
-      const totalPages = Math.ceil(response.totalResults / 20);
-      setHasMore(page < totalPages && response.articles.length > 0);
+      // The provider reports whether there are more articles to load
+      setHasMore(response.hasMore);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to search news');
       if (page === 1) {
@@ -117,21 +144,39 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   }, []);
 
-  // Load articles when component mounts or category changes
+  // Load articles when component mounts or category/feed changes
   useEffect(() => {
     if (!isSearchMode) {
-    fetchArticles(selectedCategory);
+      if (selectedFeedId) {
+        fetchFeedArticles(selectedFeedId);
+      } else {
+        fetchArticles(selectedCategory);
+      }
     }
-  }, [selectedCategory, fetchArticles, isSearchMode]);
+  }, [selectedCategory, selectedFeedId, fetchArticles, fetchFeedArticles, isSearchMode]);
+
+  // Reload feed subscriptions when returning to this screen
+  useFocusEffect(
+    useCallback(() => {
+      const loadFeeds = async () => {
+        const subscriptions = await feedService.getSubscriptions();
+        setFeeds(subscriptions);
+        setSelectedFeedId(prev =>
+          prev && subscriptions.some(feed => feed.id === prev) ? prev : null
+        );
+      };
+      loadFeeds();
+    }, [])
+  );
 
-  // Load bookmarked URLs when component mounts
+  // Load bookmarked article IDs when component mounts
   useEffect(() => {
-    const loadBookmarkedUrls = async () => {
+    const loadBookmarkedIds = async () => {
       const bookmarks = await bookmarkStorage.getBookmarks();
-      const urls = new Set(bookmarks.map(article => article.url));
-      setBookmarkedUrls(urls);
+      const ids = new Set(bookmarks.map(article => getArticleId(article.url)));
+      setBookmarkedIds(ids);
     };
-    loadBookmarkedUrls();
+    loadBookmarkedIds();
   }, []);
 
   // Monitor network status
@@ -146,6 +191,16 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   // Handle category selection
   const handleCategorySelect = (category: Category) => {
     setSelectedCategory(category);
+    setSelectedFeedId(null);
+    setIsSearchMode(false);
+    setSearchQuery('');
+    setCurrentPage(1);
+    setHasMore(true);
+  };
+
+  // Handle feed selection
+  const handleFeedSelect = (feedId: string) => {
+    setSelectedFeedId(feedId);
     setIsSearchMode(false);
     setSearchQuery('');
     setCurrentPage(1);
@@ -167,7 +222,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     setIsSearchMode(false);
     setCurrentPage(1);
     setHasMore(true);
-    fetchArticles(selectedCategory, false, 1);
+    if (selectedFeedId) {
+      fetchFeedArticles(selectedFeedId);
+    } else {
+      fetchArticles(selectedCategory, false, 1);
+    }
   };
 
   // Handle pull-to-refresh
@@ -177,6 +236,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     setHasMore(true);
     if (isSearchMode && searchQuery) {
       searchArticles(searchQuery, true, 1);
+    } else if (selectedFeedId) {
+      fetchFeedArticles(selectedFeedId, true);
     } else {
       fetchArticles(selectedCategory, true, 1);
     }
@@ -188,6 +249,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     setHasMore(true);
     if (isSearchMode && searchQuery) {
       searchArticles(searchQuery, false, 1);
+    } else if (selectedFeedId) {
+      fetchFeedArticles(selectedFeedId);
     } else {
       fetchArticles(selectedCategory, false, 1);
     }
@@ -195,7 +258,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   // Handle load more (pagination)
   const handleLoadMore = () => {
-    if (!loadingMore && hasMore && !loading && !error) {
+    // Feeds deliver all of their entries at once
+    const canPaginate = isSearchMode || !selectedFeedId;
+    if (canPaginate && !loadingMore && hasMore && !loading && !error) {
       setLoadingMore(true);
       const nextPage = currentPage + 1;
       
@@ -209,19 +274,20 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   // Handle bookmark toggle
   const handleBookmarkToggle = async (article: Article) => {
-    const isCurrentlyBookmarked = bookmarkedUrls.has(article.url);
+    const articleId = getArticleId(article.url);
+    const isCurrentlyBookmarked = bookmarkedIds.has(articleId);
     
     try {
       if (isCurrentlyBookmarked) {
         await bookmarkStorage.removeBookmark(article.url);
-        setBookmarkedUrls(prev => {
+        setBookmarkedIds(prev => {
           const newSet = new Set(prev);
-          newSet.delete(article.url);
+          newSet.delete(articleId);
           return newSet;
         });
       } else {
         await bookmarkStorage.addBookmark(article);
-        setBookmarkedUrls(prev => new Set(prev).add(article.url));
+        setBookmarkedIds(prev => new Set(prev).add(articleId));
       }
     } catch (error) {
       console.error('Error toggling bookmark:', error);
@@ -232,7 +298,18 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   const handleArticlePress = (article: Article) => {
     navigation.navigate('ArticleDetail', { 
       article,
-      category: selectedCategory 
+      category: selectedFeedId ? 'feeds' : selectedCategory 
+    });
+  };
+
+  // Combine the articles on screen into one briefing
+  const handleBriefing = () => {
+    const label = selectedFeedId
+      ? feeds.find(feed => feed.id === selectedFeedId)?.title || 'Feed'
+      : CATEGORIES.find(item => item.id === selectedCategory)?.label || 'Top Stories';
+    navigation.navigate('Briefing', {
+      scope: { type: 'category', label: `${label} Briefing` },
+      articles,
     });
   };
 
@@ -249,7 +326,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     if (articles.length === 0) {
       const message = isSearchMode
         ? `No articles found for "${searchQuery}"`
-        : 'No articles available in this category';
+        : selectedFeedId
+          ? 'No articles available in this feed'
+          : 'No articles available in this category';
       return <EmptyState message={message} />;
     }
 
@@ -260,7 +339,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         renderItem={({ item }) => (
           <ArticleCard
             article={item}
-            isBookmarked={bookmarkedUrls.has(item.url)}
+            isBookmarked={bookmarkedIds.has(getArticleId(item.url))}
             onBookmarkToggle={() => handleBookmarkToggle(item)}
             onPress={() => handleArticlePress(item)}
           />
@@ -295,6 +374,30 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             <Text style={[styles.headerTitle, { color: theme.text }]}>📰 News Reader</Text>
           </View>
           <View style={styles.headerRight}>
+            {!isSearchMode && articles.length > 0 && (
+              <TouchableOpacity
+                onPress={handleBriefing}
+                style={styles.themeButton}
+                activeOpacity={0.7}
+              >
+                <Ionicons 
+                  name="sparkles-outline" 
+                  size={24} 
+                  color={theme.text} 
+                />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => navigation.navigate('Search')}
+              style={styles.themeButton}
+              activeOpacity={0.7}
+            >
+              <Ionicons 
+                name="library-outline" 
+                size={24} 
+                color={theme.text} 
+              />
+            </TouchableOpacity>
             <TouchableOpacity
               onPress={() => navigation.navigate('Notes')}
               style={styles.themeButton}
@@ -345,10 +448,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               activeOpacity={0.7}
             >
               <Ionicons name="bookmark" size={24} color={theme.primary} />
-              {bookmarkedUrls.size > 0 && (
+              {bookmarkedIds.size > 0 && (
                 <View style={[styles.badge, { backgroundColor: theme.error }]}>
                   <Text style={styles.badgeText}>
-                    {bookmarkedUrls.size > 99 ? '99+' : bookmarkedUrls.size}
+                    {bookmarkedIds.size > 99 ? '99+' : bookmarkedIds.size}
                   </Text>
                 </View>
               )}
@@ -382,6 +485,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       <CategoryFilter
         selectedCategory={selectedCategory}
         onSelectCategory={handleCategorySelect}
+        feeds={feeds}
+        selectedFeedId={selectedFeedId}
+        onSelectFeed={handleFeedSelect}
+        onManageFeeds={() => navigation.navigate('Feeds')}
       />
       )}
 
@@ -13,7 +13,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
-import { readingHistoryService, ReadingHistoryItem } from '../services/readingHistoryService';
+import { readingHistoryService, ReadingHistoryItem, getReadStatus } from '../services/readingHistoryService';
 import { LoadingState } from '../components';
 
 interface ReadingHistoryScreenProps {
@@ -113,8 +113,37 @@ export const ReadingHistoryScreen: React.FC<ReadingHistoryScreenProps> = ({ navi
     return new Date(timestamp).toLocaleDateString();
   };
 
+  // Finished, skimmed, or how far along a partly read article is (opening it resumes there)
+  const renderReadStatus = (item: ReadingHistoryItem) => {
+    switch (getReadStatus(item)) {
+      case 'finished':
+        return (
+          <View style={styles.metaRow}>
+            <Ionicons name="checkmark-done" size={14} color={theme.success} />
+            <Text style={[styles.statusText, { color: theme.success }]}>Finished</Text>
+          </View>
+        );
+      case 'inProgress':
+        return (
+          <View style={styles.metaRow}>
+            <Ionicons name="play-circle-outline" size={14} color={theme.primary} />
+            <Text style={[styles.statusText, { color: theme.primary }]}>
+              {Math.round(item.maxScrollDepth * 100)}% read · Resume
+            </Text>
+          </View>
+        );
+      case 'skimmed':
+        return (
+          <View style={styles.metaRow}>
+            <Ionicons name="eye-outline" size={14} color={theme.textSecondary} />
+            <Text style={[styles.statusText, { color: theme.textSecondary }]}>Skimmed</Text>
+          </View>
+        );
+    }
+  };
+
   const renderHistoryItem = ({ item }: { item: ReadingHistoryItem }) => {
-    const { article, readAt, readingTime, category } = item;
+    const { article, readAt, readingTime, listeningTime, category } = item;
 
     return (
       <TouchableOpacity
@@ -170,11 +199,22 @@ export const ReadingHistoryScreen: React.FC<ReadingHistoryScreenProps> = ({ navi
                   </>
                 )}
 
+                {listeningTime > 0 && (
+                  <>
+                    <Text style={[styles.metaDivider, { color: theme.textSecondary }]}>•</Text>
+                    <Ionicons name="headset-outline" size={14} color={theme.textSecondary} />
+                    <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                      {formatReadingTime(listeningTime)}
+                    </Text>
+                  </>
+                )}
+
                 <Text style={[styles.metaDivider, { color: theme.textSecondary }]}>•</Text>
                 <Text style={[styles.categoryBadge, { color: theme.primary, backgroundColor: theme.primary + '20' }]}>
                   {category}
                 </Text>
               </View>
+              {renderReadStatus(item)}
             </View>
           </View>
 
@@ -216,6 +256,14 @@ export const ReadingHistoryScreen: React.FC<ReadingHistoryScreenProps> = ({ navi
         </View>
 
         <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Briefings')}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="sparkles-outline" size={24} color={theme.primary} />
+          </TouchableOpacity>
+
           <TouchableOpacity
             onPress={() => navigation.navigate('Analytics')}
             style={styles.actionButton}
@@ -345,6 +393,7 @@ const styles = StyleSheet.create({
   },
   metaContainer: {
     marginTop: 'auto',
+    gap: 4,
   },
   metaRow: {
     flexDirection: 'row',
@@ -355,6 +404,10 @@ const styles = StyleSheet.create({
   metaText: {
     fontSize: 12,
   },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   metaDivider: {
     fontSize: 12,
     marginHorizontal: 4,
@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { searchService, SearchResult, SearchResultKind, MATCH_START, MATCH_END } from '../services/searchService';
+import { articleStore } from '../services/articleStore';
+import { Article } from '../types';
+
+interface SearchScreenProps {
+  navigation: any;
+}
+
+const KIND_LABELS: Record<SearchResultKind, { label: string; icon: string }> = {
+  article: { label: 'Article', icon: 'newspaper-outline' },
+  note: { label: 'Note', icon: 'document-text-outline' },
+  highlight: { label: 'Highlight', icon: 'color-wand-outline' },
+  summary: { label: 'Summary', icon: 'sparkles-outline' },
+};
+
+const SEARCH_TIPS = [
+  { example: 'climate deal', description: 'Words, matched by prefix' },
+  { example: '"carbon tax"', description: 'Exact phrase' },
+  { example: 'tag:politics', description: 'Articles with a tag' },
+  { example: 'source:bbc', description: 'Articles from a source' },
+];
+
+// Wait this long after typing stops before searching
+const SEARCH_DELAY = 250;
+
+export const SearchScreen: React.FC<SearchScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchService.search(query);
+      if (!cancelled) {
+        setResults(found);
+        setSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleResultPress = async (result: SearchResult) => {
+    if (result.kind === 'note') {
+      navigation.navigate('NoteEditor', {
+        noteId: result.id,
+        articleUrl: result.articleUrl,
+        articleTitle: result.title,
+        initialContent: result.body,
+      });
+      return;
+    }
+
+    const stored = await articleStore.getArticle(result.articleId);
+    const article: Article = stored || {
+      source: { id: null, name: 'Unknown' },
+      author: null,
+      title: result.title,
+      description: null,
+      url: result.articleUrl,
+      urlToImage: null,
+      publishedAt: '',
+      content: null,
+    };
+    navigation.navigate('ArticleDetail', { article });
+  };
+
+  // Show matched words in bold
+  const renderSnippet = (snippet: string) => {
+    const parts = snippet.split(MATCH_START);
+    return parts.map((part, index) => {
+      if (index === 0) {
+        return <Text key={index}>{part}</Text>;
+      }
+      const [matched, rest] = part.split(MATCH_END);
+      return (
+        <Text key={index}>
+          <Text style={[styles.match, { color: theme.text }]}>{matched}</Text>
+          {rest}
+        </Text>
+      );
+    });
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    const kind = KIND_LABELS[item.kind];
+
+    return (
+      <TouchableOpacity
+        style={[styles.resultItem, { backgroundColor: theme.card }]}
+        onPress={() => handleResultPress(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.resultHeader}>
+          <Ionicons name={kind.icon as any} size={14} color={theme.primary} />
+          <Text style={[styles.resultKind, { color: theme.primary }]}>{kind.label}</Text>
+        </View>
+        <Text style={[styles.resultTitle, { color: theme.text }]} numberOfLines={2}>
+          {item.title || item.articleUrl}
+        </Text>
+        {item.snippet.length > 0 && (
+          <Text style={[styles.resultSnippet, { color: theme.textSecondary }]} numberOfLines={3}>
+            {renderSnippet(item.snippet)}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (searching) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      );
+    }
+
+    if (query.trim()) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search-outline" size={64} color={theme.textSecondary} />
+          <Text style={[styles.emptyTitle, { color: theme.text }]}>No Results Found</Text>
+          <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+            Try fewer words or a different filter
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.tipsContainer}>
+        <Text style={[styles.tipsTitle, { color: theme.textSecondary }]}>
+          Search your saved articles, notes, highlights, summaries and tags
+        </Text>
+        {SEARCH_TIPS.map(tip => (
+          <TouchableOpacity
+            key={tip.example}
+            style={[styles.tipItem, { backgroundColor: theme.card }]}
+            onPress={() => setQuery(tip.example)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.tipExample, { color: theme.primary }]}>{tip.example}</Text>
+            <Text style={[styles.tipDescription, { color: theme.textSecondary }]}>{tip.description}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={[styles.searchContainer, { backgroundColor: theme.background }]}>
+          <Ionicons name="search" size={20} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder="Search your library..."
+            placeholderTextColor={theme.textSecondary}
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color={theme.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {/* Results */}
+      {results.length === 0 ? (
+        renderEmpty()
+      ) : (
+        <FlatList
+          data={results}
+          renderItem={renderResult}
+          keyExtractor={item => `${item.kind}-${item.id}`}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  listContent: {
+    padding: 16,
+  },
+  resultItem: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  resultKind: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    lineHeight: 22,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 6,
+  },
+  match: {
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginTop: 16,
+  },
+  emptyMessage: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  tipsContainer: {
+    padding: 16,
+  },
+  tipsTitle: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  tipItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  tipExample: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  tipDescription: {
+    fontSize: 13,
+  },
+});
@@ -15,6 +15,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { bookmarkStorage } from '../services/bookmarkStorage';
 import { cacheStorage } from '../services/cacheStorage';
 import { notificationService } from '../services/notificationService';
+import { offlineArticleService } from '../services/offlineArticleService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 interface SettingsScreenProps {
@@ -23,10 +24,20 @@ interface SettingsScreenProps {
 
 const APP_VERSION = '1.0.0';
 
+// Human-readable byte count, e.g. "1.4 MB"
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) => {
   const { theme, toggleTheme, isDark } = useTheme();
   const [bookmarkCount, setBookmarkCount] = useState(0);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [cacheSize, setCacheSize] = useState(0);
+  const [offlineCount, setOfflineCount] = useState(0);
+  const [offlineSize, setOfflineSize] = useState(0);
 
   useEffect(() => {
     loadSettings();
@@ -40,6 +51,16 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     // Load notification status
     const notifSettings = await notificationService.getSettings();
     setNotificationsEnabled(notifSettings.enabled);
+
+    loadStorageStats();
+  };
+
+  // Load space used by cached headlines and offline articles
+  const loadStorageStats = async () => {
+    const stats = await cacheStorage.getCacheStats();
+    setCacheSize(stats.totalSize);
+    setOfflineCount(stats.offlineArticles);
+    setOfflineSize(stats.offlineSize);
   };
 
   const handleClearCache = async () => {
@@ -54,6 +75,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
           onPress: async () => {
             try {
               await cacheStorage.clearAllCache();
+              loadStorageStats();
               Alert.alert('Success', 'Cache cleared successfully!');
             } catch (error) {
               Alert.alert('Error', 'Failed to clear cache');
@@ -64,6 +86,29 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
     );
   };
 
+  const handleClearOfflineArticles = async () => {
+    Alert.alert(
+      'Remove Offline Articles',
+      `This will delete the saved copies of ${offlineCount} ${offlineCount === 1 ? 'article' : 'articles'}. You can save them again when online.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await offlineArticleService.clearAll();
+              loadStorageStats();
+              Alert.alert('Success', 'Offline articles removed');
+            } catch (error) {
+              Alert.alert('Error', 'Failed to remove offline articles');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleClearBookmarks = async () => {
     Alert.alert(
       'Clear All Bookmarks',
@@ -251,6 +296,27 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
 
           <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => navigation.navigate('Feeds')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons name="logo-rss" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>
+                  Feeds
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  RSS, Atom & JSON Feed subscriptions
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
           <TouchableOpacity
             style={styles.settingRow}
             onPress={() => navigation.navigate('Analytics')}
@@ -293,6 +359,27 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
 
           <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => navigation.navigate('Briefings')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons name="sparkles" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>
+                  Briefings
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  Several articles combined into one read
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
           <TouchableOpacity
             style={styles.settingRow}
             onPress={() => navigation.navigate('Notes')}
@@ -347,7 +434,39 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
                   Clear Cache
                 </Text>
                 <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
-                  Remove cached articles
+                  Remove cached articles{cacheSize > 0 ? ` · ${formatSize(cacheSize)}` : ''}
+                </Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={handleClearOfflineArticles}
+            activeOpacity={0.7}
+            disabled={offlineCount === 0}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="cloud-download-outline"
+                size={24}
+                color={offlineCount === 0 ? theme.border : theme.textSecondary}
+              />
+              <View style={styles.settingText}>
+                <Text
+                  style={[
+                    styles.settingTitle,
+                    { color: offlineCount === 0 ? theme.textSecondary : theme.text },
+                  ]}
+                >
+                  Offline Articles
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  {offlineCount === 0
+                    ? 'No articles saved for offline reading'
+                    : `${offlineCount} saved · ${formatSize(offlineSize)} · Tap to remove`}
                 </Text>
               </View>
             </View>
@@ -474,6 +593,27 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ navigation }) =>
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => navigation.navigate('Backup')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons name="archive-outline" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>
+                  Backup & Restore
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  Export or restore all your data
+                </Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
           <TouchableOpacity
             style={styles.settingRow}
             onPress={handleResetSettings}
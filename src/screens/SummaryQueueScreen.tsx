@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { summaryQueue, SummaryJob, SummaryJobStatus } from '../services/summaryQueue';
+import { LoadingState } from '../components';
+
+interface SummaryQueueScreenProps {
+  navigation: any;
+}
+
+const STATUS_LABELS: Record<SummaryJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Writing',
+  failed: 'Failed',
+  done: 'Done',
+};
+
+const STATUS_ICONS: Record<SummaryJobStatus, string> = {
+  queued: 'hourglass-outline',
+  running: 'sync-outline',
+  failed: 'alert-circle-outline',
+  done: 'checkmark-circle-outline',
+};
+
+// Running and waiting jobs first, then failed ones, then finished
+const STATUS_ORDER: SummaryJobStatus[] = ['running', 'queued', 'failed', 'done'];
+
+export const SummaryQueueScreen: React.FC<SummaryQueueScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const [jobs, setJobs] = useState<SummaryJob[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    summaryQueue.getJobs().then(loaded => {
+      setJobs(loaded);
+      setLoading(false);
+    });
+    return summaryQueue.subscribe(setJobs);
+  }, []);
+
+  const sortedJobs = [...jobs].sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || b.updatedAt - a.updatedAt
+  );
+  const hasFinished = jobs.some(job => job.status === 'done' || job.status === 'failed');
+
+  const getStatusColor = (status: SummaryJobStatus): string => {
+    if (status === 'failed') return theme.error;
+    if (status === 'done') return theme.success || theme.primary;
+    return theme.primary;
+  };
+
+  const describeJob = (job: SummaryJob): string | null => {
+    if (job.status === 'failed') return job.error || 'Unknown error';
+    if (job.status === 'queued' && job.attempts > 0) {
+      return `Attempt ${job.attempts + 1} at ${new Date(job.nextAttemptAt).toLocaleTimeString()}: ${job.error}`;
+    }
+    return null;
+  };
+
+  const renderJob = ({ item }: { item: SummaryJob }) => {
+    const detail = describeJob(item);
+    const color = getStatusColor(item.status);
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, { backgroundColor: theme.card }]}
+        onPress={() => navigation.navigate('ArticleDetail', { article: item.article })}
+        activeOpacity={0.7}
+      >
+        <Ionicons name={STATUS_ICONS[item.status] as any} size={22} color={color} />
+        <View style={styles.cardText}>
+          <Text style={[styles.title, { color: theme.text }]} numberOfLines={2}>
+            {item.article.title}
+          </Text>
+          <Text style={[styles.status, { color }]}>{STATUS_LABELS[item.status]}</Text>
+          {detail && (
+            <Text style={[styles.detail, { color: theme.textSecondary }]} numberOfLines={2}>
+              {detail}
+            </Text>
+          )}
+        </View>
+        {item.status === 'failed' && (
+          <TouchableOpacity
+            onPress={() => summaryQueue.retry(item.articleUrl)}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="refresh" size={20} color={theme.primary} />
+          </TouchableOpacity>
+        )}
+        {item.status !== 'running' && (
+          <TouchableOpacity
+            onPress={() => summaryQueue.removeJob(item.articleUrl)}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="close" size={20} color={theme.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: theme.surface, borderBottomColor: theme.border }]}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>⏳ Summary Queue</Text>
+        </View>
+        {hasFinished && (
+          <TouchableOpacity
+            onPress={() => summaryQueue.clearFinished()}
+            style={styles.actionButton}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="trash-outline" size={24} color={theme.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <LoadingState />
+      ) : jobs.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="layers-outline" size={64} color={theme.textSecondary} />
+          <Text style={[styles.emptyMessage, { color: theme.textSecondary }]}>
+            With Auto-Generate on, summaries of the articles you open are written here in the
+            background.
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={sortedJobs}
+          renderItem={renderJob}
+          keyExtractor={(item) => item.articleUrl}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  actionButton: {
+    padding: 4,
+  },
+  listContent: {
+    padding: 16,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 12,
+  },
+  cardText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  detail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  emptyMessage: {
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
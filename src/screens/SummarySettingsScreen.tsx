@@ -14,7 +14,21 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { useNavigation } from '@react-navigation/native';
-import { summaryService, SummarySettings } from '../services/summaryService';
+import {
+  summaryService,
+  SummarySettings,
+  DEFAULT_SUMMARY_SETTINGS,
+  getSummaryOptions,
+} from '../services/summaryService';
+import { SUMMARY_PROVIDERS, getSummaryProvider } from '../services/summaryProviders';
+import {
+  aiUsageService,
+  UsageTotals,
+  DailyUsage,
+  getModelPrice,
+  formatCost,
+} from '../services/aiUsageService';
+import { SummaryOptionsPicker } from '../components';
 
 const AI_MODELS = [
   {
@@ -43,31 +57,52 @@ const AI_MODELS = [
   },
 ];
 
+// Summaries the background queue may write at once
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+// Numbers typed into the budget and price fields; anything else counts as 0
+const parseAmount = (text: string): number => Math.max(0, parseFloat(text.replace(',', '.')) || 0);
+
 export const SummarySettingsScreen: React.FC = () => {
   const { theme } = useTheme();
   const navigation = useNavigation();
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [settings, setSettings] = useState<SummarySettings>({
-    enabled: false,
-    autoGenerate: false,
-    model: 'openai/gpt-3.5-turbo',
-    apiKey: '',
-    maxKeyPoints: 5,
-  });
+  const [settings, setSettings] = useState<SummarySettings>(DEFAULT_SUMMARY_SETTINGS);
   const [showApiKey, setShowApiKey] = useState(false);
   const [testingConnection, setTestingConnection] = useState(false);
+  const [usage, setUsage] = useState<{ today: UsageTotals; month: UsageTotals; days: DailyUsage[] } | null>(null);
+  // Kept as typed, so "0." can be entered on the way to "0.5"
+  const [budgetText, setBudgetText] = useState('');
+  const [promptPriceText, setPromptPriceText] = useState('');
+  const [completionPriceText, setCompletionPriceText] = useState('');
+
+  const provider = getSummaryProvider(settings.provider);
+  const providerConfigured = provider.isConfigured(settings);
+  const pricedModel = provider.getModel(settings);
 
   useEffect(() => {
     loadSettings();
+    loadUsage();
   }, []);
 
+  // Prices of the selected model
+  useEffect(() => {
+    const price = getModelPrice(pricedModel, settings.modelPrices);
+    setPromptPriceText(price ? `${price.prompt}` : '');
+    setCompletionPriceText(price ? `${price.completion}` : '');
+  }, [pricedModel, loading]);
+
   const loadSettings = async () => {
     setLoading(true);
     try {
       const currentSettings = await summaryService.getSettings();
       setSettings(currentSettings);
+      setBudgetText(currentSettings.monthlyBudget > 0 ? `${currentSettings.monthlyBudget}` : '');
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
@@ -75,6 +110,38 @@ export const SummarySettingsScreen: React.FC = () => {
     }
   };
 
+  const loadUsage = async () => {
+    try {
+      const [today, month, days] = await Promise.all([
+        aiUsageService.getTodayTotals(),
+        aiUsageService.getMonthTotals(),
+        aiUsageService.getDailyUsage(7),
+      ]);
+      setUsage({ today, month, days });
+    } catch (error) {
+      console.error('Error loading AI usage:', error);
+    }
+  };
+
+  const handleBudgetChange = (text: string) => {
+    setBudgetText(text);
+    setSettings({ ...settings, monthlyBudget: parseAmount(text) });
+  };
+
+  const handlePriceChange = (field: 'prompt' | 'completion', text: string) => {
+    const promptText = field === 'prompt' ? text : promptPriceText;
+    const completionText = field === 'completion' ? text : completionPriceText;
+    setPromptPriceText(promptText);
+    setCompletionPriceText(completionText);
+    setSettings({
+      ...settings,
+      modelPrices: {
+        ...settings.modelPrices,
+        [pricedModel]: { prompt: parseAmount(promptText), completion: parseAmount(completionText) },
+      },
+    });
+  };
+
   const handleSave = async () => {
     setSaving(true);
     try {
@@ -88,40 +155,49 @@ export const SummarySettingsScreen: React.FC = () => {
   };
 
   const handleTestConnection = async () => {
-    if (!settings.apiKey) {
-      Alert.alert('API Key Required', 'Please enter your OpenRouter API key first.');
-      return;
-    }
-
     setTestingConnection(true);
     try {
-      // Test with a simple article
-      const testArticle = {
-        title: 'Test Article',
-        description: 'This is a test article to verify the API connection is working correctly.',
-        url: 'https://test.com',
-        urlToImage: null,
-        publishedAt: new Date().toISOString(),
-        source: { id: 'test', name: 'Test Source' },
-        author: 'Test Author',
-        content: 'This is a longer test content to ensure the summarization works properly.',
-      };
-
-      await summaryService.generateSummaryWithAI(testArticle);
+      await summaryService.testConnection(settings);
       Alert.alert(
         'Success! ✅',
-        'API connection is working perfectly. You can now generate AI-powered summaries!'
+        `${provider.name} is responding. You can now generate AI-powered summaries!`
       );
     } catch (error: any) {
       Alert.alert(
         'Connection Failed',
-        error.message || 'Please check your API key and try again.'
+        error.message || 'Please check your settings and try again.'
       );
     } finally {
       setTestingConnection(false);
     }
   };
 
+  // Password-style input with a show/hide toggle, shared by both API key fields
+  const renderApiKeyInput = (value: string, onChange: (text: string) => void, placeholder: string) => (
+    <View style={styles.inputContainer}>
+      <TextInput
+        style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        placeholderTextColor={theme.textSecondary}
+        secureTextEntry={!showApiKey}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <TouchableOpacity
+        onPress={() => setShowApiKey(!showApiKey)}
+        style={styles.eyeButton}
+      >
+        <Ionicons
+          name={showApiKey ? 'eye-off' : 'eye'}
+          size={20}
+          color={theme.textSecondary}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+
   const handleClearCache = async () => {
     Alert.alert(
       'Clear All Summaries',
@@ -155,6 +231,19 @@ export const SummarySettingsScreen: React.FC = () => {
     );
   };
 
+  const renderUsageTotals = (label: string, totals: UsageTotals) => (
+    <View style={[styles.usageTotals, { backgroundColor: theme.background }]}>
+      <Text style={[styles.usageLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <Text style={[styles.usageCost, { color: theme.text }]}>{formatCost(totals.cost)}</Text>
+      <Text style={[styles.usageDetail, { color: theme.textSecondary }]}>
+        {totals.calls} {totals.calls === 1 ? 'request' : 'requests'} ·{' '}
+        {formatTokens(totals.promptTokens + totals.completionTokens)} tokens
+      </Text>
+    </View>
+  );
+
+  const overBudget = !!usage && settings.monthlyBudget > 0 && usage.month.cost >= settings.monthlyBudget;
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]} edges={['top']}>
@@ -195,7 +284,7 @@ export const SummarySettingsScreen: React.FC = () => {
                   Enable AI Summaries
                 </Text>
                 <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
-                  Use AI to generate article summaries
+                  Use AI to generate article summaries (On-Device works without it)
                 </Text>
               </View>
             </View>
@@ -226,109 +315,80 @@ export const SummarySettingsScreen: React.FC = () => {
               onValueChange={(value) => setSettings({ ...settings, autoGenerate: value })}
               trackColor={{ false: theme.border, true: theme.primary }}
               thumbColor="#fff"
-              disabled={!settings.enabled}
+              disabled={!settings.enabled && settings.provider !== 'local'}
             />
           </View>
-        </View>
 
-        {/* API Key */}
-        <View style={styles.sectionHeader}>
-          <Ionicons name="key" size={20} color={theme.text} />
-          <Text style={[styles.sectionTitle, { color: theme.text }]}>API Configuration</Text>
-        </View>
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
 
-        <View style={[styles.section, { backgroundColor: theme.card }]}>
-          <Text style={[styles.label, { color: theme.text }]}>OpenRouter API Key</Text>
-          <Text style={[styles.helpText, { color: theme.textSecondary }]}>
-            Get your free API key from https://openrouter.ai/
-          </Text>
-          
-          <View style={styles.inputContainer}>
-            <TextInput
-              style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
-              value={settings.apiKey}
-              onChangeText={(text) => setSettings({ ...settings, apiKey: text })}
-              placeholder="sk-or-v1-..."
-              placeholderTextColor={theme.textSecondary}
-              secureTextEntry={!showApiKey}
-              autoCapitalize="none"
-              autoCorrect={false}
-            />
-            <TouchableOpacity
-              onPress={() => setShowApiKey(!showApiKey)}
-              style={styles.eyeButton}
-            >
-              <Ionicons
-                name={showApiKey ? 'eye-off' : 'eye'}
-                size={20}
-                color={theme.textSecondary}
-              />
-            </TouchableOpacity>
+          <View style={styles.settingRow}>
+            <View style={styles.settingLeft}>
+              <Ionicons name="layers" size={24} color={theme.primary} />
+              <View style={styles.settingText}>
+                <Text style={[styles.settingTitle, { color: theme.text }]}>
+                  Parallel Summaries
+                </Text>
+                <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                  How many background summaries are written at once
+                </Text>
+              </View>
+            </View>
+          </View>
+          <View style={styles.concurrencyRow}>
+            {CONCURRENCY_OPTIONS.map(count => {
+              const selected = settings.queueConcurrency === count;
+              return (
+                <TouchableOpacity
+                  key={count}
+                  style={[
+                    styles.concurrencyChip,
+                    { borderColor: selected ? theme.primary : theme.border },
+                    selected && { backgroundColor: theme.primary },
+                  ]}
+                  onPress={() => setSettings({ ...settings, queueConcurrency: count })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.concurrencyText, { color: selected ? '#FFFFFF' : theme.text }]}>
+                    {count}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
-
-          <TouchableOpacity
-            style={[
-              styles.testButton,
-              { backgroundColor: theme.primary },
-              (!settings.apiKey || testingConnection) && styles.disabledButton
-            ]}
-            onPress={handleTestConnection}
-            disabled={!settings.apiKey || testingConnection}
-            activeOpacity={0.7}
-          >
-            {testingConnection ? (
-              <>
-                <ActivityIndicator size="small" color="#FFFFFF" />
-                <Text style={styles.testButtonText}>Testing...</Text>
-              </>
-            ) : (
-              <>
-                <Ionicons name="checkmark-circle" size={18} color="#FFFFFF" />
-                <Text style={styles.testButtonText}>Test Connection</Text>
-              </>
-            )}
-          </TouchableOpacity>
         </View>
 
-        {/* Model Selection */}
+        {/* Provider */}
         <View style={styles.sectionHeader}>
-          <Ionicons name="options" size={20} color={theme.text} />
-          <Text style={[styles.sectionTitle, { color: theme.text }]}>AI Model</Text>
+          <Ionicons name="server" size={20} color={theme.text} />
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Provider</Text>
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
-          {AI_MODELS.map((model, index) => (
-            <React.Fragment key={model.id}>
+          {SUMMARY_PROVIDERS.map((option, index) => (
+            <React.Fragment key={option.id}>
               {index > 0 && <View style={[styles.divider, { backgroundColor: theme.border }]} />}
               <TouchableOpacity
                 style={styles.modelRow}
-                onPress={() => setSettings({ ...settings, model: model.id })}
+                onPress={() => setSettings({ ...settings, provider: option.id })}
                 activeOpacity={0.7}
               >
                 <View style={styles.modelLeft}>
                   <View
                     style={[
                       styles.radio,
-                      { borderColor: settings.model === model.id ? theme.primary : theme.border },
+                      { borderColor: settings.provider === option.id ? theme.primary : theme.border },
                     ]}
                   >
-                    {settings.model === model.id && (
+                    {settings.provider === option.id && (
                       <View style={[styles.radioDot, { backgroundColor: theme.primary }]} />
                     )}
                   </View>
                   <View style={styles.modelInfo}>
                     <View style={styles.modelNameRow}>
-                      <Text style={[styles.modelName, { color: theme.text }]}>
-                        {model.name}
-                      </Text>
-                      {model.free && (
-                        <View style={[styles.freeBadge, { backgroundColor: theme.success || theme.primary }]}>
-                          <Text style={styles.freeBadgeText}>FREE</Text>
-                        </View>
-                      )}
+                      <Text style={[styles.modelName, { color: theme.text }]}>{option.name}</Text>
                     </View>
                     <Text style={[styles.modelDescription, { color: theme.textSecondary }]}>
-                      {model.description}
+                      {option.description}
                     </Text>
                   </View>
                 </View>
@@ -337,45 +397,250 @@ export const SummarySettingsScreen: React.FC = () => {
           ))}
         </View>
 
-        {/* Key Points */}
+        {/* API Configuration */}
+        {settings.provider !== 'local' && (
+          <>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="key" size={20} color={theme.text} />
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>API Configuration</Text>
+            </View>
+
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+              {settings.provider === 'openrouter' ? (
+                <>
+                  <Text style={[styles.label, { color: theme.text }]}>OpenRouter API Key</Text>
+                  <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                    Get your free API key from https://openrouter.ai/
+                  </Text>
+                  {renderApiKeyInput(settings.apiKey, (text) => setSettings({ ...settings, apiKey: text }), 'sk-or-v1-...')}
+                </>
+              ) : (
+                <>
+                  <Text style={[styles.label, { color: theme.text }]}>Server URL</Text>
+                  <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                    The API base URL, including /v1 (Ollama: http://&lt;computer&gt;:11434/v1)
+                  </Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+                      value={settings.baseUrl}
+                      onChangeText={(text) => setSettings({ ...settings, baseUrl: text })}
+                      placeholder="http://192.168.1.20:11434/v1"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      keyboardType="url"
+                    />
+                  </View>
+
+                  <Text style={[styles.label, { color: theme.text }]}>Model</Text>
+                  <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                    The model name as the server knows it
+                  </Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+                      value={settings.customModel}
+                      onChangeText={(text) => setSettings({ ...settings, customModel: text })}
+                      placeholder="llama3.1"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                  </View>
+
+                  <Text style={[styles.label, { color: theme.text }]}>API Key (optional)</Text>
+                  <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                    Only needed if your server asks for one
+                  </Text>
+                  {renderApiKeyInput(settings.customApiKey, (text) => setSettings({ ...settings, customApiKey: text }), 'API key')}
+                </>
+              )}
+
+              <TouchableOpacity
+                style={[
+                  styles.testButton,
+                  { backgroundColor: theme.primary },
+                  (!providerConfigured || testingConnection) && styles.disabledButton
+                ]}
+                onPress={handleTestConnection}
+                disabled={!providerConfigured || testingConnection}
+                activeOpacity={0.7}
+              >
+                {testingConnection ? (
+                  <>
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                    <Text style={styles.testButtonText}>Testing...</Text>
+                  </>
+                ) : (
+                  <>
+                    <Ionicons name="checkmark-circle" size={18} color="#FFFFFF" />
+                    <Text style={styles.testButtonText}>Test Connection</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+
+        {/* Model Selection (OpenRouter) */}
+        {settings.provider === 'openrouter' && (
+          <>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="options" size={20} color={theme.text} />
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>AI Model</Text>
+            </View>
+
+            <View style={[styles.section, { backgroundColor: theme.card }]}>
+              {AI_MODELS.map((model, index) => (
+                <React.Fragment key={model.id}>
+                  {index > 0 && <View style={[styles.divider, { backgroundColor: theme.border }]} />}
+                  <TouchableOpacity
+                    style={styles.modelRow}
+                    onPress={() => setSettings({ ...settings, model: model.id })}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.modelLeft}>
+                      <View
+                        style={[
+                          styles.radio,
+                          { borderColor: settings.model === model.id ? theme.primary : theme.border },
+                        ]}
+                      >
+                        {settings.model === model.id && (
+                          <View style={[styles.radioDot, { backgroundColor: theme.primary }]} />
+                        )}
+                      </View>
+                      <View style={styles.modelInfo}>
+                        <View style={styles.modelNameRow}>
+                          <Text style={[styles.modelName, { color: theme.text }]}>
+                            {model.name}
+                          </Text>
+                          {model.free && (
+                            <View style={[styles.freeBadge, { backgroundColor: theme.success || theme.primary }]}>
+                              <Text style={styles.freeBadgeText}>FREE</Text>
+                            </View>
+                          )}
+                        </View>
+                        <Text style={[styles.modelDescription, { color: theme.textSecondary }]}>
+                          {model.description}
+                        </Text>
+                      </View>
+                    </View>
+                  </TouchableOpacity>
+                </React.Fragment>
+              ))}
+            </View>
+          </>
+        )}
+
+        {/* Summary Options */}
         <View style={styles.sectionHeader}>
           <Ionicons name="list" size={20} color={theme.text} />
           <Text style={[styles.sectionTitle, { color: theme.text }]}>Summary Options</Text>
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
-          <Text style={[styles.label, { color: theme.text }]}>
-            Number of Key Points: {settings.maxKeyPoints}
+          <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+            Defaults for new summaries. You can pick other options for a single summary from the article.
           </Text>
+          <SummaryOptionsPicker
+            options={getSummaryOptions(settings)}
+            onChange={(options) => setSettings({ ...settings, ...options })}
+          />
+        </View>
+
+        {/* Usage & Budget */}
+        <View style={styles.sectionHeader}>
+          <Ionicons name="wallet" size={20} color={theme.text} />
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Usage & Budget</Text>
+        </View>
+
+        <View style={[styles.section, { backgroundColor: theme.card }]}>
+          {usage && (
+            <>
+              <View style={styles.usageRow}>
+                {renderUsageTotals('Today', usage.today)}
+                {renderUsageTotals('This Month', usage.month)}
+              </View>
+
+              {usage.days.map(day => (
+                <View key={day.date} style={styles.usageDay}>
+                  <Text style={[styles.usageDayDate, { color: theme.text }]}>
+                    {new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </Text>
+                  <Text style={[styles.usageDetail, { color: theme.textSecondary }]}>
+                    {day.totals.calls > 0
+                      ? `${formatTokens(day.totals.promptTokens + day.totals.completionTokens)} tokens · ${formatCost(day.totals.cost)}`
+                      : '—'}
+                  </Text>
+                </View>
+              ))}
+
+              {overBudget && (
+                <View style={[styles.budgetNotice, { backgroundColor: theme.warning + '20' }]}>
+                  <Ionicons name="alert-circle-outline" size={18} color={theme.warning} />
+                  <Text style={[styles.budgetNoticeText, { color: theme.text }]}>
+                    This month's budget is used up. Summaries are picked from the article on this device until next month.
+                  </Text>
+                </View>
+              )}
+
+              <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            </>
+          )}
+
+          <Text style={[styles.label, { color: theme.text }]}>Monthly Budget (USD)</Text>
           <Text style={[styles.helpText, { color: theme.textSecondary }]}>
-            How many bullet points to extract (1-5)
+            Once reached, AI summaries stop until next month. Leave empty for no limit.
           </Text>
-          
-          <View style={styles.sliderContainer}>
-            {[1, 2, 3, 4, 5].map((num) => (
-              <TouchableOpacity
-                key={num}
-                style={[
-                  styles.sliderButton,
-                  { borderColor: theme.border },
-                  settings.maxKeyPoints === num && { 
-                    backgroundColor: theme.primary,
-                    borderColor: theme.primary 
-                  }
-                ]}
-                onPress={() => setSettings({ ...settings, maxKeyPoints: num })}
-              >
-                <Text
-                  style={[
-                    styles.sliderButtonText,
-                    { color: settings.maxKeyPoints === num ? '#FFFFFF' : theme.text }
-                  ]}
-                >
-                  {num}
-                </Text>
-              </TouchableOpacity>
-            ))}
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+              value={budgetText}
+              onChangeText={handleBudgetChange}
+              placeholder="No limit"
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="decimal-pad"
+            />
           </View>
+
+          {settings.provider !== 'local' && !!pricedModel && (
+            <>
+              <Text style={[styles.label, { color: theme.text }]}>Price of {pricedModel}</Text>
+              <Text style={[styles.helpText, { color: theme.textSecondary }]}>
+                US dollars per million tokens, used to estimate costs. Models without a price count as free.
+              </Text>
+              <View style={styles.priceRow}>
+                <View style={styles.priceField}>
+                  <Text style={[styles.priceLabel, { color: theme.textSecondary }]}>Prompt</Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+                      value={promptPriceText}
+                      onChangeText={(text) => handlePriceChange('prompt', text)}
+                      placeholder="0"
+                      placeholderTextColor={theme.textSecondary}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+                <View style={styles.priceField}>
+                  <Text style={[styles.priceLabel, { color: theme.textSecondary }]}>Completion</Text>
+                  <View style={styles.inputContainer}>
+                    <TextInput
+                      style={[styles.input, { color: theme.text, backgroundColor: theme.background }]}
+                      value={completionPriceText}
+                      onChangeText={(text) => handlePriceChange('completion', text)}
+                      placeholder="0"
+                      placeholderTextColor={theme.textSecondary}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+              </View>
+            </>
+          )}
         </View>
 
         {/* Management */}
@@ -385,6 +650,25 @@ export const SummarySettingsScreen: React.FC = () => {
         </View>
 
         <View style={[styles.section, { backgroundColor: theme.card }]}>
+          <TouchableOpacity
+            style={styles.managementRow}
+            onPress={() => navigation.navigate('SummaryQueue' as never)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="layers-outline" size={24} color={theme.primary} />
+            <View style={styles.managementText}>
+              <Text style={[styles.managementTitle, { color: theme.text }]}>
+                Summary Queue
+              </Text>
+              <Text style={[styles.managementDescription, { color: theme.textSecondary }]}>
+                Background summaries: queued, running, failed and done
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={24} color={theme.textSecondary} />
+          </TouchableOpacity>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
           <TouchableOpacity
             style={styles.managementRow}
             onPress={getStatistics}
@@ -428,7 +712,7 @@ export const SummarySettingsScreen: React.FC = () => {
           <View style={styles.infoText}>
             <Text style={[styles.infoTitle, { color: theme.text }]}>How It Works</Text>
             <Text style={[styles.infoDescription, { color: theme.textSecondary }]}>
-              • AI summaries require an OpenRouter API key{'\n'}
+              • AI summaries need an OpenRouter API key or your own OpenAI-compatible server{'\n'}
               • Reading time is calculated automatically{'\n'}
               • Summaries are cached for fast access{'\n'}
               • Fallback mode works without API key
@@ -638,21 +922,75 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
-  sliderContainer: {
+  concurrencyRow: {
     flexDirection: 'row',
-    gap: 12,
+    gap: 8,
     marginTop: 8,
   },
-  sliderButton: {
+  concurrencyChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  concurrencyText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  usageRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  usageTotals: {
     flex: 1,
-    paddingVertical: 12,
     borderRadius: 8,
-    borderWidth: 2,
-    alignItems: 'center',
+    padding: 12,
   },
-  sliderButtonText: {
-    fontSize: 16,
+  usageLabel: {
+    fontSize: 12,
     fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  usageCost: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginVertical: 4,
+  },
+  usageDetail: {
+    fontSize: 12,
+  },
+  usageDay: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  usageDayDate: {
+    fontSize: 13,
+  },
+  budgetNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  budgetNoticeText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  priceField: {
+    flex: 1,
+  },
+  priceLabel: {
+    fontSize: 12,
+    marginBottom: 4,
   },
   managementRow: {
     flexDirection: 'row',
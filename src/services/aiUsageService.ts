@@ -0,0 +1,157 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SummaryProviderId, TokenUsage } from './summaryProviders';
+
+const USAGE_STORAGE_KEY = '@ai_usage';
+
+// Monthly totals only need the current month; keep the previous one for comparison
+const MAX_RECORD_AGE = 62 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 5000;
+
+// US dollars per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// OpenRouter list prices of the models offered in Summary Settings; others cost nothing
+// unless a price is set for them (local models are free)
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai/gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'openai/gpt-4': { prompt: 30, completion: 60 },
+  'google/gemini-pro': { prompt: 0.125, completion: 0.375 },
+  'anthropic/claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+};
+
+// One AI request
+export interface UsageRecord {
+  timestamp: number;
+  provider: SummaryProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // Token counts guessed from the text length
+  cost: number; // US dollars, from the price table at the time
+  latencyMs: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface DailyUsage {
+  date: number; // Start of the day
+  totals: UsageTotals;
+}
+
+// The price set for a model, falling back to the default table
+export const getModelPrice = (
+  model: string,
+  prices: Record<string, ModelPrice> = {}
+): ModelPrice | null => prices[model] || DEFAULT_MODEL_PRICES[model] || null;
+
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | null): number =>
+  price ? (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000 : 0;
+
+export const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const startOfMonth = (time: number): number => {
+  const date = new Date(startOfDay(time));
+  date.setDate(1);
+  return date.getTime();
+};
+
+const sumUsage = (records: UsageRecord[]): UsageTotals =>
+  records.reduce(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      cost: totals.cost + record.cost,
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+
+class AIUsageService {
+  // Writes run one after another so records made at the same time don't overwrite each other
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  async getRecords(): Promise<UsageRecord[]> {
+    try {
+      const data = await AsyncStorage.getItem(USAGE_STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting AI usage:', error);
+      return [];
+    }
+  }
+
+  async recordUsage(record: UsageRecord): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const records = await this.getRecords();
+      const cutoff = Date.now() - MAX_RECORD_AGE;
+      const updated = [...records.filter(r => r.timestamp >= cutoff), record].slice(-MAX_RECORDS);
+      await AsyncStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(updated));
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    try {
+      await write;
+    } catch (error) {
+      console.error('Error recording AI usage:', error);
+    }
+  }
+
+  async clearUsage(): Promise<void> {
+    const write = this.pendingWrite.then(() => AsyncStorage.removeItem(USAGE_STORAGE_KEY));
+    this.pendingWrite = write.catch(() => undefined);
+    try {
+      await write;
+    } catch (error) {
+      console.error('Error clearing AI usage:', error);
+      throw error;
+    }
+  }
+
+  async getTodayTotals(): Promise<UsageTotals> {
+    const since = startOfDay(Date.now());
+    return sumUsage((await this.getRecords()).filter(r => r.timestamp >= since));
+  }
+
+  async getMonthTotals(): Promise<UsageTotals> {
+    const since = startOfMonth(Date.now());
+    return sumUsage((await this.getRecords()).filter(r => r.timestamp >= since));
+  }
+
+  // Totals for each of the last `days` days, today first
+  async getDailyUsage(days: number = 7): Promise<DailyUsage[]> {
+    const records = await this.getRecords();
+    const today = startOfDay(Date.now());
+
+    return Array.from({ length: days }, (_, index) => {
+      const date = new Date(today);
+      date.setDate(date.getDate() - index);
+      const start = date.getTime();
+      date.setDate(date.getDate() + 1);
+      const end = date.getTime();
+      return { date: start, totals: sumUsage(records.filter(r => r.timestamp >= start && r.timestamp < end)) };
+    });
+  }
+
+  // Whether this month's spending has reached the budget; a budget of 0 means no cap
+  async isOverBudget(monthlyBudget: number): Promise<boolean> {
+    if (monthlyBudget <= 0) return false;
+    const month = await this.getMonthTotals();
+    return month.cost >= monthlyBudget;
+  }
+}
+
+export const aiUsageService = new AIUsageService();
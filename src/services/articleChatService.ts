@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Article } from '../types';
+import { summaryService } from './summaryService';
+import { notesService, Note } from './notesService';
+import { readerService, getBlockText } from './readerService';
+import { getArticleText, getSummaryProvider } from './summaryProviders';
+
+const CHATS_STORAGE_KEY = '@article_chats';
+
+// Keep conversations for this many articles
+const MAX_CONVERSATIONS = 100;
+
+// Article text sent with each question; long articles are cut to fit small local models
+const MAX_ARTICLE_CHARS = 12000;
+
+// Earlier messages sent with a question, so follow-ups ("and who said that?") make sense
+const MAX_HISTORY_MESSAGES = 10;
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+}
+
+// Questions and answers about one article
+export interface ArticleConversation {
+  articleUrl: string;
+  articleTitle: string;
+  messages: ChatTurn[];
+  updatedAt: number;
+}
+
+class ArticleChatService {
+  /**
+   * ========== CONVERSATION STORAGE ==========
+   */
+
+  async getConversations(): Promise<ArticleConversation[]> {
+    try {
+      const data = await AsyncStorage.getItem(CHATS_STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting conversations:', error);
+      return [];
+    }
+  }
+
+  async getConversation(articleUrl: string): Promise<ArticleConversation | null> {
+    const conversations = await this.getConversations();
+    return conversations.find(c => c.articleUrl === articleUrl) || null;
+  }
+
+  async deleteConversation(articleUrl: string): Promise<void> {
+    try {
+      const conversations = await this.getConversations();
+      await AsyncStorage.setItem(
+        CHATS_STORAGE_KEY,
+        JSON.stringify(conversations.filter(c => c.articleUrl !== articleUrl))
+      );
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      throw error;
+    }
+  }
+
+  private async saveConversation(conversation: ArticleConversation): Promise<void> {
+    const conversations = await this.getConversations();
+    // Most recently used first, so the oldest are dropped
+    const updated = [conversation, ...conversations.filter(c => c.articleUrl !== conversation.articleUrl)];
+    await AsyncStorage.setItem(CHATS_STORAGE_KEY, JSON.stringify(updated.slice(0, MAX_CONVERSATIONS)));
+  }
+
+  /**
+   * ========== QUESTIONS ==========
+   */
+
+  // Whether the summary settings point at a backend that can answer questions
+  async canAnswerQuestions(): Promise<boolean> {
+    const settings = await summaryService.getSettings();
+    const provider = getSummaryProvider(settings.provider);
+    return settings.enabled && provider.isConfigured(settings) && !!provider.answerQuestion;
+  }
+
+  /**
+   * Ask a question about an article, reporting the answer as it is written. The question
+   * and answer are saved together once the answer is complete; resolves with the updated
+   * conversation, or null when cancelled through the signal.
+   */
+  async ask(
+    article: Article,
+    question: string,
+    onText: (text: string) => void,
+    signal: AbortSignal
+  ): Promise<ArticleConversation | null> {
+    const settings = await summaryService.getSettings();
+    const provider = getSummaryProvider(settings.provider);
+    if (!settings.enabled || !provider.isConfigured(settings) || !provider.answerQuestion) {
+      throw new Error('Asking questions needs an AI summarizer. Set one up in Summary Settings.');
+    }
+    if (await summaryService.isOverBudget(settings)) {
+      throw new Error("This month's AI budget has been reached. Raise it in Summary Settings to ask more questions.");
+    }
+
+    const conversation = (await this.getConversation(article.url)) || {
+      articleUrl: article.url,
+      articleTitle: article.title,
+      messages: [],
+      updatedAt: Date.now(),
+    };
+    const askedAt = Date.now();
+
+    try {
+      const answer = await provider.answerQuestion(
+        {
+          articleTitle: article.title,
+          articleText: await this.getArticleContext(article),
+          history: conversation.messages
+            .slice(-MAX_HISTORY_MESSAGES)
+            .map(({ role, content }) => ({ role, content })),
+          question: question.trim(),
+        },
+        settings,
+        onText,
+        signal
+      );
+      await summaryService.recordUsage(settings, answer, askedAt);
+
+      const updated: ArticleConversation = {
+        ...conversation,
+        messages: [
+          ...conversation.messages,
+          { role: 'user', content: question.trim(), createdAt: askedAt },
+          { role: 'assistant', content: answer.text.trim(), createdAt: Date.now() },
+        ],
+        updatedAt: Date.now(),
+      };
+      await this.saveConversation(updated);
+      return updated;
+    } catch (error: any) {
+      if (signal.aborted) return null;
+      console.error('Error answering question:', error);
+      throw error;
+    }
+  }
+
+  // The extracted page text when it can be loaded, otherwise what the feed provided
+  private async getArticleContext(article: Article): Promise<string> {
+    const content = await readerService.getContent(article);
+    const text = content
+      ? content.blocks.map(getBlockText).filter(Boolean).join('\n\n')
+      : getArticleText(article);
+    return text.length > MAX_ARTICLE_CHARS ? `${text.slice(0, MAX_ARTICLE_CHARS)}\n\n[Article shortened]` : text;
+  }
+
+  /**
+   * ========== EXPORT ==========
+   */
+
+  // Save the conversation as a note on the article
+  async exportToNote(conversation: ArticleConversation): Promise<Note> {
+    const content = conversation.messages
+      .map(message => `${message.role === 'user' ? 'Q' : 'A'}: ${message.content}`)
+      .join('\n\n');
+    return notesService.createNote(
+      conversation.articleUrl,
+      conversation.articleTitle,
+      `Questions about this article\n\n${content}`
+    );
+  }
+}
+
+export const articleChatService = new ArticleChatService();
@@ -0,0 +1,126 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { Article } from '../types';
+import { getDatabase } from './database';
+import { getArticleId } from './articleUrl';
+
+export interface StoredArticle extends Article {
+  id: string; // See getArticleId
+}
+
+export interface ArticleRow {
+  id: string;
+  url: string;
+  source_id: string | null;
+  source_name: string;
+  author: string | null;
+  title: string;
+  description: string | null;
+  url_to_image: string | null;
+  published_at: string;
+  content: string | null;
+}
+
+export const rowToArticle = (row: ArticleRow): Article => ({
+  source: { id: row.source_id, name: row.source_name },
+  author: row.author,
+  title: row.title,
+  description: row.description,
+  url: row.url,
+  urlToImage: row.url_to_image,
+  publishedAt: row.published_at,
+  content: row.content,
+});
+
+/**
+ * Every article the user kept (bookmarked, collected, tagged, annotated, read or saved offline) is
+ * stored once here. Other tables refer to it by ID. Methods that take a `db`
+ * can join a transaction; without one they use the shared connection.
+ */
+class ArticleStore {
+  // Store or update an article; returns its ID
+  async saveArticle(article: Article, db?: SQLiteDatabase): Promise<string> {
+    const connection = db || (await getDatabase());
+    const id = getArticleId(article.url);
+
+    await connection.runAsync(
+      `INSERT OR REPLACE INTO articles
+         (id, url, source_id, source_name, author, title, description, url_to_image, published_at, content)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      article.url,
+      article.source?.id ?? null,
+      article.source?.name || 'Unknown',
+      article.author ?? null,
+      article.title,
+      article.description ?? null,
+      article.urlToImage ?? null,
+      article.publishedAt || '',
+      article.content ?? null
+    );
+    return id;
+  }
+
+  // Make sure an article exists when only its URL and title are known; returns its ID
+  async ensureArticle(url: string, title: string, db?: SQLiteDatabase): Promise<string> {
+    const connection = db || (await getDatabase());
+    const id = getArticleId(url);
+
+    await connection.runAsync(
+      `INSERT OR IGNORE INTO articles (id, url, source_name, title, published_at)
+       VALUES (?, ?, 'Unknown', ?, '')`,
+      id, url, title
+    );
+    return id;
+  }
+
+  // Get an article by ID or by any URL variant of it
+  async getArticle(idOrUrl: string): Promise<Article | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<ArticleRow>(
+        'SELECT * FROM articles WHERE id = ?',
+        getArticleId(idOrUrl)
+      );
+      return row ? rowToArticle(row) : null;
+    } catch (error) {
+      console.error('Error getting article:', error);
+      return null;
+    }
+  }
+
+  // Get every stored article (e.g. for backups)
+  async getAllArticles(): Promise<StoredArticle[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ArticleRow>('SELECT * FROM articles ORDER BY rowid');
+      return rows.map(row => ({ ...rowToArticle(row), id: row.id }));
+    } catch (error) {
+      console.error('Error getting articles:', error);
+      return [];
+    }
+  }
+
+  // Store many articles at once
+  async saveArticles(articles: Article[], db?: SQLiteDatabase): Promise<void> {
+    for (const article of articles) {
+      await this.saveArticle(article, db);
+    }
+  }
+
+  // Drop articles nothing refers to anymore
+  async removeUnreferenced(db?: SQLiteDatabase): Promise<void> {
+    const connection = db || (await getDatabase());
+    await connection.runAsync(
+      `DELETE FROM articles WHERE
+         id NOT IN (SELECT article_id FROM bookmarks) AND
+         id NOT IN (SELECT article_id FROM collection_articles) AND
+         id NOT IN (SELECT article_id FROM article_tags) AND
+         id NOT IN (SELECT article_id FROM notes) AND
+         id NOT IN (SELECT article_id FROM highlights) AND
+         id NOT IN (SELECT article_id FROM history) AND
+         id NOT IN (SELECT article_id FROM offline_articles)`
+    );
+  }
+}
+
+export const articleStore = new ArticleStore();
@@ -0,0 +1,52 @@
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  'ref_src',
+  'ref_url',
+  'cmpid',
+  'ocid',
+  'smid',
+  'sr_share',
+  'taid',
+  'ito',
+  'at_medium',
+  'at_campaign',
+]);
+
+const isTrackingParam = (name: string): boolean => {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+};
+
+/**
+ * Stable ID of an article: its URL with tracking parameters and the fragment
+ * removed, the scheme unified to https, the host lowercased, trailing slashes
+ * dropped and the remaining query parameters sorted. Applying it to an ID
+ * returns the same ID.
+ */
+export const getArticleId = (url: string): string => {
+  const trimmed = url.trim();
+  const match = trimmed.match(/^(?:[a-z][a-z0-9+.-]*:)?\/\/([^/?#]*)([^?#]*)(\?[^#]*)?/i);
+  if (!match) {
+    return trimmed;
+  }
+
+  const host = match[1].toLowerCase().replace(/:(80|443)$/, '');
+  const path = match[2].replace(/\/+$/, '');
+  const params = (match[3] || '')
+    .slice(1)
+    .split('&')
+    .filter(param => param.length > 0 && !isTrackingParam(param.split('=')[0]))
+    .sort();
+
+  return `https://${host}${path}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+};
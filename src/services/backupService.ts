@@ -0,0 +1,421 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { SQLiteDatabase } from 'expo-sqlite';
+import { migrationService, SchemaVersions } from './migrationService';
+import { tagsService } from './tagsService';
+import { notesService } from './notesService';
+import { readingHistoryService } from './readingHistoryService';
+import { bookmarkStorage } from './bookmarkStorage';
+import { articleStore } from './articleStore';
+import { runInTransaction } from './database';
+import { getArticleId } from './articleUrl';
+import { summaryService } from './summaryService';
+import { searchService } from './searchService';
+
+export const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_APP_ID = 'news-reader';
+
+type StoreType = 'list' | 'settings' | 'value';
+
+interface BackupStore {
+  key: string;
+  label: string;
+  type: StoreType;
+  identify?: (item: any) => string; // Identity of a list item, used when merging
+  privateFields?: string[]; // Settings fields never written to a backup
+  memberFields?: string[]; // List fields of an item; merging an item on both sides unions them
+  // Stores kept in the database rather than AsyncStorage; `key` is then only the archive key.
+  // A restore writes all of them in one transaction
+  read?: () => Promise<any[]>;
+  write?: (items: any[], db: SQLiteDatabase) => Promise<void>;
+}
+
+// Every store that holds user data. Articles come first so the stores after them can refer to them.
+const BACKUP_STORES: BackupStore[] = [
+  {
+    key: '@articles', label: 'Articles', type: 'list', identify: (a) => a.id,
+    read: () => articleStore.getAllArticles(),
+    write: (items, db) => articleStore.saveArticles(items, db),
+  },
+  {
+    key: '@news_reader_bookmarks', label: 'Bookmarks', type: 'list', identify: (a) => getArticleId(a.url),
+    read: () => bookmarkStorage.getBookmarks(),
+    write: (items, db) => bookmarkStorage.replaceAllBookmarks(items, db),
+  },
+  {
+    key: '@collections', label: 'Collections', type: 'list', identify: (c) => c.id, memberFields: ['articleIds'],
+    read: () => tagsService.getCollections(),
+    write: (items, db) => tagsService.replaceAllCollections(items, db),
+  },
+  {
+    key: '@tags', label: 'Tags', type: 'list', identify: (t) => t.id,
+    read: () => tagsService.getTags(),
+    write: (items, db) => tagsService.replaceAllTags(items, db),
+  },
+  {
+    key: '@article_tags', label: 'Tagged Articles', type: 'list', identify: (at) => at.articleId, memberFields: ['tagIds'],
+    read: () => tagsService.getAllArticleTags(),
+    write: (items, db) => tagsService.replaceAllArticleTags(items, db),
+  },
+  {
+    key: '@notes', label: 'Notes', type: 'list', identify: (n) => n.id,
+    read: () => notesService.getNotes(),
+    write: (items, db) => notesService.replaceAllNotes(items, db),
+  },
+  {
+    key: '@highlights', label: 'Highlights', type: 'list', identify: (h) => h.id,
+    read: () => notesService.getHighlights(),
+    write: (items, db) => notesService.replaceAllHighlights(items, db),
+  },
+  {
+    key: '@reading_history', label: 'Reading History', type: 'list', identify: (h) => getArticleId(h.article?.url || ''),
+    read: () => readingHistoryService.getHistory(),
+    write: (items, db) => readingHistoryService.replaceHistory(items, db),
+  },
+  // An article can have several summaries, written with different options
+  { key: '@summaries', label: 'Summaries', type: 'list', identify: (s) => `${s.articleUrl} ${s.generatedAt}` },
+  { key: '@article_chats', label: 'Article Questions', type: 'list', identify: (c) => c.articleUrl },
+  { key: '@briefings', label: 'Briefings', type: 'list', identify: (b) => b.id },
+  { key: '@ai_usage', label: 'AI Usage', type: 'list', identify: (u) => `${u.timestamp} ${u.model}` },
+  { key: '@feed_subscriptions', label: 'Feeds', type: 'list', identify: (f) => f.url },
+  { key: '@summary_settings', label: 'Summary Settings', type: 'settings', privateFields: ['apiKey', 'customApiKey'] },
+  { key: '@notification_settings', label: 'Notification Settings', type: 'settings' },
+  { key: '@reader_preferences', label: 'Reader Settings', type: 'settings' },
+  { key: '@reader_modes', label: 'Reader Mode Sites', type: 'settings' },
+  { key: '@speech_settings', label: 'Listening Settings', type: 'settings' },
+  { key: '@theme_mode', label: 'Theme', type: 'value' },
+];
+
+export interface BackupArchive {
+  app: string;
+  schemaVersion: number;
+  createdAt: number;
+  storeVersions?: SchemaVersions; // Storage schema of `data`; missing in archives made before migrations existed
+  data: { [key: string]: any };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestorePreviewItem {
+  key: string;
+  label: string;
+  type: StoreType;
+  current: number; // Items on this device (1/0 for settings and values)
+  incoming: number; // Items in the archive
+  added: number; // Items the restore will add
+  removed: number; // Items the restore will delete (replace only)
+  result: number; // Items after the restore
+  changed: boolean;
+}
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  createdAt: number;
+  items: RestorePreviewItem[];
+}
+
+/**
+ * ========== HELPERS ==========
+ */
+
+// Read a store's value; theme mode is stored as a bare string, everything else as JSON
+const decodeValue = (store: BackupStore, raw: string | null): any => {
+  if (raw === null) return null;
+  if (store.type === 'value') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`Error reading ${store.key} for backup:`, error);
+    return null;
+  }
+};
+
+const encodeValue = (store: BackupStore, value: any): string => {
+  return store.type === 'value' ? String(value) : JSON.stringify(value);
+};
+
+const countOf = (store: BackupStore, value: any): number => {
+  if (value === null || value === undefined) return 0;
+  return store.type === 'list' ? (Array.isArray(value) ? value.length : 0) : 1;
+};
+
+const withoutPrivateFields = (store: BackupStore, value: any): any => {
+  if (!store.privateFields || !value || typeof value !== 'object') return value;
+  const copy = { ...value };
+  store.privateFields.forEach(field => delete copy[field]);
+  return copy;
+};
+
+// Current value of every store on this device, in BACKUP_STORES order
+const readCurrentValues = async (): Promise<any[]> => {
+  const pairs = await AsyncStorage.multiGet(BACKUP_STORES.map(s => s.key));
+  return Promise.all(
+    BACKUP_STORES.map(async (store, index) => {
+      if (store.read) {
+        const items = await store.read();
+        return items.length > 0 ? items : null;
+      }
+      return decodeValue(store, pairs[index][1]);
+    })
+  );
+};
+
+// Compute what a store will hold after restoring `incoming` over `current`
+const restoreValue = (store: BackupStore, current: any, incoming: any, mode: RestoreMode): any => {
+  if (store.type === 'list') {
+    const currentItems: any[] = Array.isArray(current) ? current : [];
+    const incomingItems: any[] = Array.isArray(incoming) ? incoming : [];
+
+    if (mode === 'replace') {
+      return incomingItems;
+    }
+
+    // Merge: keep everything on this device, add what's missing. Items on both sides keep
+    // this device's fields, with the archive's members (a collection's articles...) added
+    const incomingById = new Map(incomingItems.map(item => [store.identify!(item), item]));
+    const existing = new Set(currentItems.map(item => store.identify!(item)));
+    const merged = currentItems.map(item => {
+      const other = incomingById.get(store.identify!(item));
+      if (!other || !store.memberFields) return item;
+      const members: { [field: string]: any[] } = {};
+      store.memberFields.forEach(field => {
+        const ours: any[] = Array.isArray(item[field]) ? item[field] : [];
+        const theirs: any[] = Array.isArray(other[field]) ? other[field] : [];
+        members[field] = [...ours, ...theirs.filter(member => !ours.includes(member))];
+      });
+      return { ...item, ...members };
+    });
+    return [...merged, ...incomingItems.filter(item => !existing.has(store.identify!(item)))];
+  }
+
+  if (store.type === 'settings') {
+    if (incoming === null || incoming === undefined) {
+      return mode === 'replace' ? null : current;
+    }
+    // Fields kept out of backups (like API keys) always stay as they are on this device
+    const preserved: { [field: string]: any } = {};
+    (store.privateFields || []).forEach(field => {
+      if (current && current[field] !== undefined) preserved[field] = current[field];
+    });
+    return mode === 'replace'
+      ? { ...incoming, ...preserved }
+      : { ...incoming, ...(current || {}) };
+  }
+
+  if (mode === 'replace') return incoming;
+  return current ?? incoming;
+};
+
+class BackupService {
+  /**
+   * ========== EXPORT ==========
+   */
+
+  // Build a backup archive from everything stored on this device
+  async createBackup(): Promise<BackupArchive> {
+    const values = await readCurrentValues();
+    const storeVersions = await migrationService.getSchemaVersions();
+    const data: { [key: string]: any } = {};
+
+    BACKUP_STORES.forEach((store, index) => {
+      const value = values[index];
+      if (value !== null) {
+        data[store.key] = withoutPrivateFields(store, value);
+      }
+    });
+
+    return {
+      app: BACKUP_APP_ID,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: Date.now(),
+      storeVersions,
+      data,
+    };
+  }
+
+  // Save a backup file and open the share sheet
+  async shareBackup(): Promise<void> {
+    try {
+      const archive = await this.createBackup();
+      const date = new Date().toISOString().split('T')[0];
+      const fileUri = FileSystem.documentDirectory + `news-reader-backup-${date}.json`;
+
+      await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(archive, null, 2), {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      const canShare = await Sharing.isAvailableAsync();
+      if (canShare) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'application/json',
+          dialogTitle: 'Export Backup',
+        });
+      } else {
+        throw new Error('Sharing is not available on this device');
+      }
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ========== RESTORE ==========
+   */
+
+  // Parse and validate a backup archive
+  parseBackup(json: string): BackupArchive {
+    let archive: any;
+    try {
+      archive = JSON.parse(json);
+    } catch (error) {
+      throw new Error('This file is not a valid backup.');
+    }
+
+    if (!archive || archive.app !== BACKUP_APP_ID || typeof archive.data !== 'object') {
+      throw new Error('This file is not a News Reader backup.');
+    }
+    if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion < 1) {
+      throw new Error('This backup has an unknown format version.');
+    }
+    if (archive.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Please update the app to restore it.');
+    }
+
+    BACKUP_STORES.forEach(store => {
+      const value = archive.data[store.key];
+      if (value === undefined || value === null) return;
+      if (store.type === 'list' && !Array.isArray(value)) {
+        throw new Error(`The backup's ${store.label.toLowerCase()} are damaged.`);
+      }
+      if (store.type === 'settings' && typeof value !== 'object') {
+        throw new Error(`The backup's ${store.label.toLowerCase()} are damaged.`);
+      }
+    });
+
+    return archive;
+  }
+
+  // Let the user pick a backup file; returns null when cancelled
+  async pickBackupFile(): Promise<BackupArchive | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', '*/*'],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.length) {
+      return null;
+    }
+
+    const json = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+    return this.upgradeBackup(this.parseBackup(json));
+  }
+
+  // Run storage migrations over an archive made with an older schema
+  async upgradeBackup(archive: BackupArchive): Promise<BackupArchive> {
+    const versions = archive.storeVersions || {};
+    const latest = migrationService.getLatestVersions();
+    if (Object.keys(versions).some(store => versions[store] > (latest[store] || 0))) {
+      throw new Error('This backup was made by a newer version of the app. Please update the app to restore it.');
+    }
+
+    try {
+      const data = await migrationService.migrateData(archive.data, versions);
+      return { ...archive, storeVersions: latest, data };
+    } catch (error) {
+      console.error('Error upgrading backup:', error);
+      throw new Error('This backup could not be converted to the current format.');
+    }
+  }
+
+  // Describe what restoring an archive would change, without writing anything
+  async previewRestore(archive: BackupArchive, mode: RestoreMode): Promise<RestorePreview> {
+    const values = await readCurrentValues();
+
+    const items = BACKUP_STORES.map((store, index) => {
+      const current = values[index];
+      const incoming = archive.data[store.key] ?? null;
+      const result = restoreValue(store, current, incoming, mode);
+
+      const currentCount = countOf(store, current);
+      const resultCount = countOf(store, result);
+      let added = 0;
+      let removed = 0;
+
+      if (store.type === 'list') {
+        const currentIds = new Set((current || []).map((item: any) => store.identify!(item)));
+        const resultIds = new Set((result || []).map((item: any) => store.identify!(item)));
+        added = Array.from(resultIds).filter(id => !currentIds.has(id)).length;
+        removed = Array.from(currentIds).filter(id => !resultIds.has(id)).length;
+      }
+
+      return {
+        key: store.key,
+        label: store.label,
+        type: store.type,
+        current: currentCount,
+        incoming: countOf(store, incoming),
+        added,
+        removed,
+        result: resultCount,
+        changed: JSON.stringify(current) !== JSON.stringify(result),
+      };
+    });
+
+    return { mode, createdAt: archive.createdAt, items };
+  }
+
+  // Apply an archive to this device
+  async restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<void> {
+    try {
+      const values = await readCurrentValues();
+      const toWrite: { store: BackupStore; items: any[] }[] = [];
+      const toSet: [string, string][] = [];
+      const toRemove: string[] = [];
+
+      for (let index = 0; index < BACKUP_STORES.length; index++) {
+        const store = BACKUP_STORES[index];
+        const current = values[index];
+        const incoming = archive.data[store.key] ?? null;
+        const result = restoreValue(store, current, incoming, mode);
+
+        if (store.write) {
+          if (JSON.stringify(current) !== JSON.stringify(result)) {
+            toWrite.push({ store, items: result || [] });
+          }
+        } else if (result === null || result === undefined) {
+          if (current !== null) toRemove.push(store.key);
+        } else {
+          toSet.push([store.key, encodeValue(store, result)]);
+        }
+      }
+
+      // Database stores first, all or nothing, so a failure leaves this device as it was
+      await runInTransaction(async (db) => {
+        for (const { store, items } of toWrite) {
+          await store.write!(items, db);
+        }
+        // Articles the restored data no longer refers to
+        await articleStore.removeUnreferenced(db);
+      });
+
+      if (toSet.length > 0) {
+        await AsyncStorage.multiSet(toSet);
+      }
+      if (toRemove.length > 0) {
+        await AsyncStorage.multiRemove(toRemove);
+      }
+
+      await searchService.indexSummaries(await summaryService.getSummaries());
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      throw new Error('Failed to restore backup');
+    }
+  }
+}
+
+export const backupService = new BackupService();
@@ -1,19 +1,26 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SQLiteDatabase } from 'expo-sqlite';
 import { Article } from '../types';
+import { getDatabase, runInTransaction } from './database';
+import { articleStore, ArticleRow, rowToArticle } from './articleStore';
+import { getArticleId } from './articleUrl';
 
-const BOOKMARKS_KEY = '@news_reader_bookmarks';
+export interface BookmarkedArticle extends Article {
+  savedAt: number;
+}
 
 export const bookmarkStorage = {
   /**
-   * Get all bookmarked articles
+   * Get all bookmarked articles, newest first
    */
-  getBookmarks: async (): Promise<Article[]> => {
+  getBookmarks: async (): Promise<BookmarkedArticle[]> => {
     try {
-      const bookmarksJson = await AsyncStorage.getItem(BOOKMARKS_KEY);
-      if (bookmarksJson) {
-        return JSON.parse(bookmarksJson);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ArticleRow & { saved_at: number }>(
+        `SELECT articles.*, bookmarks.created_at AS saved_at FROM bookmarks
+         JOIN articles ON articles.id = bookmarks.article_id
+         ORDER BY bookmarks.created_at DESC, bookmarks.rowid DESC`
+      );
+      return rows.map(row => ({ ...rowToArticle(row), savedAt: row.saved_at }));
     } catch (error) {
       console.error('Error loading bookmarks:', error);
       return [];
@@ -25,20 +32,13 @@ export const bookmarkStorage = {
    */
   addBookmark: async (article: Article): Promise<void> => {
     try {
-      const bookmarks = await bookmarkStorage.getBookmarks();
-      
-      // Check if article already bookmarked (by URL)
-      const isAlreadyBookmarked = bookmarks.some(
-        (item) => item.url === article.url
-      );
-      
-      if (!isAlreadyBookmarked) {
-        const updatedBookmarks = [article, ...bookmarks];
-        await AsyncStorage.setItem(
-          BOOKMARKS_KEY,
-          JSON.stringify(updatedBookmarks)
+      await runInTransaction(async (db) => {
+        const articleId = await articleStore.saveArticle(article, db);
+        await db.runAsync(
+          'INSERT OR IGNORE INTO bookmarks (article_id, created_at) VALUES (?, ?)',
+          articleId, Date.now()
         );
-      }
+      });
     } catch (error) {
       console.error('Error adding bookmark:', error);
       throw new Error('Failed to save bookmark');
@@ -50,14 +50,10 @@ export const bookmarkStorage = {
    */
   removeBookmark: async (articleUrl: string): Promise<void> => {
     try {
-      const bookmarks = await bookmarkStorage.getBookmarks();
-      const updatedBookmarks = bookmarks.filter(
-        (item) => item.url !== articleUrl
-      );
-      await AsyncStorage.setItem(
-        BOOKMARKS_KEY,
-        JSON.stringify(updatedBookmarks)
-      );
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM bookmarks WHERE article_id = ?', getArticleId(articleUrl));
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error removing bookmark:', error);
       throw new Error('Failed to remove bookmark');
@@ -69,8 +65,9 @@ export const bookmarkStorage = {
    */
   isBookmarked: async (articleUrl: string): Promise<boolean> => {
     try {
-      const bookmarks = await bookmarkStorage.getBookmarks();
-      return bookmarks.some((item) => item.url === articleUrl);
+      const db = await getDatabase();
+      const row = await db.getFirstAsync('SELECT 1 FROM bookmarks WHERE article_id = ?', getArticleId(articleUrl));
+      return row !== null;
     } catch (error) {
       console.error('Error checking bookmark status:', error);
       return false;
@@ -82,7 +79,10 @@ export const bookmarkStorage = {
    */
   clearAllBookmarks: async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem(BOOKMARKS_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM bookmarks');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing bookmarks:', error);
       throw new Error('Failed to clear bookmarks');
@@ -94,12 +94,35 @@ export const bookmarkStorage = {
    */
   getBookmarksCount: async (): Promise<number> => {
     try {
-      const bookmarks = await bookmarkStorage.getBookmarks();
-      return bookmarks.length;
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM bookmarks');
+      return row?.count || 0;
     } catch (error) {
       console.error('Error getting bookmarks count:', error);
       return 0;
     }
   },
-};
 
+  /**
+   * Replace every bookmark (storage migrations & backup restore). `articles` is newest first;
+   * each keeps its `savedAt` when it has one (older backups and the legacy list don't).
+   */
+  replaceAllBookmarks: async (
+    articles: (Article & { savedAt?: number })[],
+    transaction?: SQLiteDatabase
+  ): Promise<void> => {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM bookmarks');
+
+      // Insert oldest first; bookmarks with the same timestamp are ordered by rowid
+      const now = Date.now();
+      for (const article of [...articles].reverse()) {
+        const articleId = await articleStore.saveArticle(article, db);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO bookmarks (article_id, created_at) VALUES (?, ?)',
+          articleId, article.savedAt ?? now
+        );
+      }
+    }, transaction);
+  },
+};
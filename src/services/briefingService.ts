@@ -0,0 +1,274 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Share } from 'react-native';
+import { Article } from '../types';
+import { summaryService } from './summaryService';
+import { readingHistoryService } from './readingHistoryService';
+import { getArticleId } from './articleUrl';
+import {
+  BriefingDraft,
+  BriefingRequest,
+  DEFAULT_SUMMARY_OPTIONS,
+  getArticleText,
+  getSummaryProvider,
+  summarizeFallback,
+} from './summaryProviders';
+
+const BRIEFINGS_STORAGE_KEY = '@briefings';
+
+// Keep this many briefings
+const MAX_BRIEFINGS = 30;
+
+// A briefing covers at most this many articles, so the prompt fits smaller models
+const MAX_BRIEFING_ARTICLES = 20;
+const MAX_ARTICLE_CHARS = 1500;
+
+// What the briefing was made from
+export interface BriefingScope {
+  type: 'category' | 'collection' | 'today';
+  label: string; // Category or collection name, shown as the briefing title
+}
+
+export interface BriefingFact {
+  text: string;
+  citations: string[]; // URLs of the articles reporting it, all in Briefing.sources
+}
+
+export interface BriefingSection {
+  heading: string;
+  facts: BriefingFact[];
+}
+
+export interface Briefing {
+  id: string;
+  title: string;
+  scope: BriefingScope;
+  overview: string;
+  sections: BriefingSection[];
+  sources: Article[]; // Numbered from 1 in citations, in this order
+  generatedAt: number;
+  model: string; // 'fallback' when built without AI
+}
+
+// Text used to spot the same fact written twice
+const factKey = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Turn a draft into sections of distinct facts, each citing at least one article. A fact that
+ * appears twice keeps its first place and the citations of both.
+ */
+const mergeDraft = (draft: BriefingDraft, sources: Article[]): BriefingSection[] => {
+  const factsByKey = new Map<string, BriefingFact>();
+  const sections: BriefingSection[] = [];
+
+  for (const section of draft.sections) {
+    const facts: BriefingFact[] = [];
+    for (const fact of section.facts) {
+      const citations = fact.sources
+        .filter(number => number >= 1 && number <= sources.length)
+        .map(number => sources[number - 1].url);
+      if (citations.length === 0) continue;
+
+      const key = factKey(fact.text);
+      const existing = factsByKey.get(key);
+      if (existing) {
+        existing.citations = [...new Set([...existing.citations, ...citations])];
+        continue;
+      }
+      const merged = { text: fact.text, citations: [...new Set(citations)] };
+      factsByKey.set(key, merged);
+      facts.push(merged);
+    }
+    if (facts.length > 0) sections.push({ heading: section.heading || 'Other News', facts });
+  }
+  return sections;
+};
+
+class BriefingService {
+  /**
+   * ========== BRIEFING STORAGE ==========
+   */
+
+  async getBriefings(): Promise<Briefing[]> {
+    try {
+      const data = await AsyncStorage.getItem(BRIEFINGS_STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting briefings:', error);
+      return [];
+    }
+  }
+
+  async getBriefing(id: string): Promise<Briefing | null> {
+    const briefings = await this.getBriefings();
+    return briefings.find(b => b.id === id) || null;
+  }
+
+  async deleteBriefing(id: string): Promise<void> {
+    try {
+      const briefings = await this.getBriefings();
+      await AsyncStorage.setItem(BRIEFINGS_STORAGE_KEY, JSON.stringify(briefings.filter(b => b.id !== id)));
+    } catch (error) {
+      console.error('Error deleting briefing:', error);
+      throw error;
+    }
+  }
+
+  private async saveBriefing(briefing: Briefing): Promise<void> {
+    const briefings = await this.getBriefings();
+    await AsyncStorage.setItem(
+      BRIEFINGS_STORAGE_KEY,
+      JSON.stringify([briefing, ...briefings].slice(0, MAX_BRIEFINGS))
+    );
+  }
+
+  /**
+   * ========== GENERATION ==========
+   */
+
+  // Articles read (or listened to) since midnight, most recent first
+  async getArticlesReadToday(): Promise<Article[]> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+    const history = await readingHistoryService.getHistory();
+    return history
+      .filter(item => item.readAt >= startOfDay.getTime())
+      .map(item => item.article);
+  }
+
+  /**
+   * Combine articles into one briefing and save it. Uses the AI summarizer when it is set
+   * up and within the monthly budget, otherwise (or when it fails) lists each article's own summary.
+   */
+  async generateBriefing(scope: BriefingScope, articles: Article[]): Promise<Briefing> {
+    const seen = new Set<string>();
+    const sources = articles
+      .filter(article => {
+        const id = getArticleId(article.url);
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      })
+      .slice(0, MAX_BRIEFING_ARTICLES);
+
+    if (sources.length === 0) {
+      throw new Error('There are no articles to brief on.');
+    }
+
+    const request: BriefingRequest = {
+      title: scope.label,
+      articles: await Promise.all(sources.map(async article => ({
+        title: article.title,
+        source: article.source.name,
+        text: (await this.getBriefingText(article)).slice(0, MAX_ARTICLE_CHARS),
+      }))),
+    };
+
+    let draft: BriefingDraft | null = null;
+    const settings = await summaryService.getSettings();
+    const provider = getSummaryProvider(settings.provider);
+    if (
+      settings.enabled && provider.isConfigured(settings) && provider.writeBriefing &&
+      !(await summaryService.isOverBudget(settings))
+    ) {
+      try {
+        const startedAt = Date.now();
+        draft = await provider.writeBriefing(request, settings);
+        await summaryService.recordUsage(settings, draft, startedAt);
+      } catch (error) {
+        console.error('AI briefing error:', error);
+      }
+    }
+
+    let sections = draft ? mergeDraft(draft, sources) : [];
+    if (!draft || sections.length === 0) {
+      draft = this.buildFallbackDraft(sources);
+      sections = mergeDraft(draft, sources);
+    }
+
+    const briefing: Briefing = {
+      id: Date.now().toString(),
+      title: scope.label,
+      scope,
+      overview: draft.overview,
+      sections,
+      sources,
+      generatedAt: Date.now(),
+      model: draft.model,
+    };
+    await this.saveBriefing(briefing);
+    return briefing;
+  }
+
+  // The saved summary when it is current, as it is already condensed; otherwise the feed text
+  private async getBriefingText(article: Article): Promise<string> {
+    const summary = await summaryService.getSummary(article.url);
+    if (summary && summary.model !== 'fallback' && !summaryService.isSummaryStale(summary, article)) {
+      return [summary.summary, ...summary.keyPoints.map(point => `- ${point}`)].join('\n');
+    }
+    return getArticleText(article);
+  }
+
+  // One fact per article, its key sentence, under a single heading
+  private buildFallbackDraft(sources: Article[]): BriefingDraft {
+    return {
+      overview: `${sources.length} ${sources.length === 1 ? 'article' : 'articles'} from ${
+        new Set(sources.map(article => article.source.name)).size
+      } sources.`,
+      sections: [{
+        heading: 'Headlines',
+        facts: sources.map((article, index) => {
+          const { summary } = summarizeFallback(article, { ...DEFAULT_SUMMARY_OPTIONS, length: 'short' });
+          return {
+            text: article.description ? summary : article.title,
+            sources: [index + 1],
+          };
+        }),
+      }],
+      model: 'fallback',
+    };
+  }
+
+  /**
+   * ========== EXPORT ==========
+   */
+
+  // Citation number of an article in the briefing, from 1
+  getCitationNumber(briefing: Briefing, url: string): number {
+    return briefing.sources.findIndex(article => article.url === url) + 1;
+  }
+
+  toMarkdown(briefing: Briefing): string {
+    const cite = (fact: BriefingFact) =>
+      fact.citations.map(url => `[${this.getCitationNumber(briefing, url)}]`).join('');
+
+    const lines = [
+      `# ${briefing.title}`,
+      '',
+      `_${new Date(briefing.generatedAt).toLocaleString()}_`,
+      '',
+    ];
+    if (briefing.overview) lines.push(briefing.overview, '');
+    for (const section of briefing.sections) {
+      lines.push(`## ${section.heading}`, '');
+      section.facts.forEach(fact => lines.push(`- ${fact.text} ${cite(fact)}`));
+      lines.push('');
+    }
+    lines.push('## Sources', '');
+    briefing.sources.forEach((article, index) => {
+      lines.push(`${index + 1}. [${article.title}](${article.url}) — ${article.source.name}`);
+    });
+    return lines.join('\n');
+  }
+
+  async shareBriefing(briefing: Briefing): Promise<void> {
+    try {
+      await Share.share({ title: briefing.title, message: this.toMarkdown(briefing) });
+    } catch (error) {
+      console.error('Error sharing briefing:', error);
+      throw error;
+    }
+  }
+}
+
+export const briefingService = new BriefingService();
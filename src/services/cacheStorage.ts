@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Article, NewsApiResponse } from '../types';
+import { ArticlePage } from '../types';
+import { offlineArticleService } from './offlineArticleService';
 
 const CACHE_PREFIX = '@news_cache_';
 const CACHE_METADATA_KEY = '@news_cache_metadata';
@@ -10,10 +11,11 @@ interface CacheMetadata {
   timestamp: number;
   category?: string;
   query?: string;
+  feedId?: string;
 }
 
 interface CacheEntry {
-  data: NewsApiResponse;
+  data: ArticlePage;
   timestamp: number;
 }
 
@@ -21,7 +23,7 @@ export const cacheStorage = {
   /**
    * Generate cache key based on request type
    */
-  generateCacheKey: (type: 'category' | 'search', value: string): string => {
+  generateCacheKey: (type: 'category' | 'search' | 'feed', value: string): string => {
     return `${CACHE_PREFIX}${type}_${value}`;
   },
 
@@ -30,7 +32,7 @@ export const cacheStorage = {
    */
   cacheArticles: async (
     key: string,
-    data: NewsApiResponse,
+    data: ArticlePage,
     metadata: Omit<CacheMetadata, 'timestamp'>
   ): Promise<void> => {
     try {
@@ -67,7 +69,7 @@ export const cacheStorage = {
   /**
    * Get cached articles
    */
-  getCachedArticles: async (key: string): Promise<NewsApiResponse | null> => {
+  getCachedArticles: async (key: string): Promise<ArticlePage | null> => {
     try {
       const cached = await AsyncStorage.getItem(key);
       if (!cached) return null;
@@ -168,12 +170,15 @@ export const cacheStorage = {
   },
 
   /**
-   * Get cache statistics
+   * Get cache statistics. Articles saved for offline reading are counted
+   * separately; clearAllCache does not remove them.
    */
   getCacheStats: async (): Promise<{
     totalEntries: number;
     oldestCache: number | null;
     totalSize: number;
+    offlineArticles: number;
+    offlineSize: number;
   }> => {
     try {
       const metadata = await cacheStorage.getCacheMetadata();
@@ -190,14 +195,18 @@ export const cacheStorage = {
       const timestamps = metadata.map(m => m.timestamp);
       const oldestCache = timestamps.length > 0 ? Math.min(...timestamps) : null;
 
+      const offline = await offlineArticleService.getStorageUsage();
+
       return {
         totalEntries: metadata.length,
         oldestCache,
         totalSize,
+        offlineArticles: offline.count,
+        offlineSize: offline.totalSize,
       };
     } catch (error) {
       console.error('Error getting cache stats:', error);
-      return { totalEntries: 0, oldestCache: null, totalSize: 0 };
+      return { totalEntries: 0, oldestCache: null, totalSize: 0, offlineArticles: 0, offlineSize: 0 };
     }
   },
 };
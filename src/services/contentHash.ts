@@ -0,0 +1,34 @@
+import { Article } from '../types';
+
+/**
+ * Article text reduced to what a summary depends on: title, description and content,
+ * without markup, NewsAPI's "[+123 chars]" truncation markers, case, punctuation or
+ * spacing differences. The same wire story published at several URLs gives the same text.
+ */
+export const normalizeArticleContent = (article: Article): string =>
+  [article.title, article.description, article.content]
+    .map(text => (text || '')
+      .replace(/\[\+\d+ chars\]/g, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim())
+    .join('\n');
+
+// 53-bit string hash (cyrb53) as hex; plenty to tell a few hundred articles apart
+export const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+// Changes whenever the article text changes in a way a summary could reflect
+export const getContentHash = (article: Article): string => hashText(normalizeArticleContent(article));
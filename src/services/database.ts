@@ -0,0 +1,428 @@
+import * as SQLite from 'expo-sqlite';
+import { getArticleId } from './articleUrl';
+
+const DATABASE_NAME = 'news-reader.db';
+
+// Tables without an explicit order column keep insertion order via rowid.
+// Version 1: tags, collections, notes, highlights and reading history keyed by article URL.
+const SCHEMA_V1 = `
+CREATE TABLE IF NOT EXISTS articles (
+  url TEXT PRIMARY KEY NOT NULL,
+  source_id TEXT,
+  source_name TEXT NOT NULL,
+  author TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  url_to_image TEXT,
+  published_at TEXT NOT NULL,
+  content TEXT
+);
+
+CREATE TABLE IF NOT EXISTS tags (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS article_tags (
+  article_url TEXT NOT NULL,
+  tag_id TEXT NOT NULL,
+  PRIMARY KEY (article_url, tag_id)
+);
+CREATE INDEX IF NOT EXISTS idx_article_tags_tag_id ON article_tags(tag_id);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  icon TEXT NOT NULL,
+  color TEXT NOT NULL,
+  is_smart INTEGER NOT NULL DEFAULT 0,
+  smart_filter_type TEXT,
+  smart_filter_value TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS collection_articles (
+  collection_id TEXT NOT NULL,
+  article_url TEXT NOT NULL,
+  PRIMARY KEY (collection_id, article_url)
+);
+CREATE INDEX IF NOT EXISTS idx_collection_articles_article_url ON collection_articles(article_url);
+
+CREATE TABLE IF NOT EXISTS notes (
+  id TEXT PRIMARY KEY NOT NULL,
+  article_url TEXT NOT NULL,
+  article_title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_notes_article_url ON notes(article_url);
+CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes(created_at);
+
+CREATE TABLE IF NOT EXISTS highlights (
+  id TEXT PRIMARY KEY NOT NULL,
+  article_url TEXT NOT NULL,
+  article_title TEXT NOT NULL,
+  text TEXT NOT NULL,
+  color TEXT NOT NULL,
+  note TEXT,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_highlights_article_url ON highlights(article_url);
+CREATE INDEX IF NOT EXISTS idx_highlights_created_at ON highlights(created_at);
+
+CREATE TABLE IF NOT EXISTS history (
+  article_url TEXT PRIMARY KEY NOT NULL,
+  read_at INTEGER NOT NULL,
+  reading_time INTEGER NOT NULL DEFAULT 0,
+  category TEXT NOT NULL,
+  source TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_history_read_at ON history(read_at);
+`;
+
+// Version 2: every table refers to articles by ID (see getArticleId), and bookmarks move in
+const SCHEMA_V2 = `
+CREATE TABLE articles_v2 (
+  id TEXT PRIMARY KEY NOT NULL,
+  url TEXT NOT NULL,
+  source_id TEXT,
+  source_name TEXT NOT NULL,
+  author TEXT,
+  title TEXT NOT NULL,
+  description TEXT,
+  url_to_image TEXT,
+  published_at TEXT NOT NULL,
+  content TEXT
+);
+
+CREATE TABLE bookmarks (
+  article_id TEXT PRIMARY KEY NOT NULL,
+  created_at INTEGER NOT NULL
+);
+CREATE INDEX idx_bookmarks_created_at ON bookmarks(created_at);
+
+CREATE TABLE article_tags_v2 (
+  article_id TEXT NOT NULL,
+  tag_id TEXT NOT NULL,
+  PRIMARY KEY (article_id, tag_id)
+);
+
+CREATE TABLE collection_articles_v2 (
+  collection_id TEXT NOT NULL,
+  article_id TEXT NOT NULL,
+  PRIMARY KEY (collection_id, article_id)
+);
+
+CREATE TABLE notes_v2 (
+  id TEXT PRIMARY KEY NOT NULL,
+  article_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE highlights_v2 (
+  id TEXT PRIMARY KEY NOT NULL,
+  article_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  color TEXT NOT NULL,
+  note TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE history_v2 (
+  article_id TEXT PRIMARY KEY NOT NULL,
+  read_at INTEGER NOT NULL,
+  reading_time INTEGER NOT NULL DEFAULT 0,
+  category TEXT NOT NULL,
+  source TEXT NOT NULL
+);
+`;
+
+const SCHEMA_V2_FINISH = `
+DROP TABLE articles;
+DROP TABLE article_tags;
+DROP TABLE collection_articles;
+DROP TABLE notes;
+DROP TABLE highlights;
+DROP TABLE history;
+
+ALTER TABLE articles_v2 RENAME TO articles;
+ALTER TABLE article_tags_v2 RENAME TO article_tags;
+ALTER TABLE collection_articles_v2 RENAME TO collection_articles;
+ALTER TABLE notes_v2 RENAME TO notes;
+ALTER TABLE highlights_v2 RENAME TO highlights;
+ALTER TABLE history_v2 RENAME TO history;
+
+CREATE INDEX idx_article_tags_tag_id ON article_tags(tag_id);
+CREATE INDEX idx_collection_articles_article_id ON collection_articles(article_id);
+CREATE INDEX idx_notes_article_id ON notes(article_id);
+CREATE INDEX idx_notes_created_at ON notes(created_at);
+CREATE INDEX idx_highlights_article_id ON highlights(article_id);
+CREATE INDEX idx_highlights_created_at ON highlights(created_at);
+CREATE INDEX idx_history_read_at ON history(read_at);
+`;
+
+// Copy every version 1 row into the version 2 tables, converting article URLs to IDs
+const upgradeToArticleIds = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  await db.execAsync(SCHEMA_V2);
+
+  const articles = await db.getAllAsync<any>('SELECT * FROM articles ORDER BY rowid');
+  for (const row of articles) {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO articles_v2
+         (id, url, source_id, source_name, author, title, description, url_to_image, published_at, content)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      getArticleId(row.url), row.url, row.source_id, row.source_name, row.author,
+      row.title, row.description, row.url_to_image, row.published_at, row.content
+    );
+  }
+
+  // Notes, highlights and collections may refer to articles that were never stored; keep what is known
+  const ensureArticle = (url: string, title: string) =>
+    db.runAsync(
+      `INSERT OR IGNORE INTO articles_v2 (id, url, source_name, title, published_at)
+       VALUES (?, ?, 'Unknown', ?, '')`,
+      getArticleId(url), url, title
+    );
+
+  const notes = await db.getAllAsync<any>('SELECT * FROM notes ORDER BY rowid');
+  for (const row of notes) {
+    await ensureArticle(row.article_url, row.article_title);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO notes_v2 (id, article_id, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      row.id, getArticleId(row.article_url), row.content, row.created_at, row.updated_at
+    );
+  }
+
+  const highlights = await db.getAllAsync<any>('SELECT * FROM highlights ORDER BY rowid');
+  for (const row of highlights) {
+    await ensureArticle(row.article_url, row.article_title);
+    await db.runAsync(
+      'INSERT OR REPLACE INTO highlights_v2 (id, article_id, text, color, note, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      row.id, getArticleId(row.article_url), row.text, row.color, row.note, row.created_at
+    );
+  }
+
+  // Oldest first, so when two URLs share an ID the most recent read wins
+  const history = await db.getAllAsync<any>('SELECT * FROM history ORDER BY read_at');
+  for (const row of history) {
+    await db.runAsync(
+      'INSERT OR REPLACE INTO history_v2 (article_id, read_at, reading_time, category, source) VALUES (?, ?, ?, ?, ?)',
+      getArticleId(row.article_url), row.read_at, row.reading_time, row.category, row.source
+    );
+  }
+
+  const articleTags = await db.getAllAsync<any>('SELECT * FROM article_tags ORDER BY rowid');
+  for (const row of articleTags) {
+    await db.runAsync(
+      'INSERT OR IGNORE INTO article_tags_v2 (article_id, tag_id) VALUES (?, ?)',
+      getArticleId(row.article_url), row.tag_id
+    );
+  }
+
+  const collectionArticles = await db.getAllAsync<any>('SELECT * FROM collection_articles ORDER BY rowid');
+  for (const row of collectionArticles) {
+    await ensureArticle(row.article_url, row.article_url);
+    await db.runAsync(
+      'INSERT OR IGNORE INTO collection_articles_v2 (collection_id, article_id) VALUES (?, ?)',
+      row.collection_id, getArticleId(row.article_url)
+    );
+  }
+
+  await db.execAsync(SCHEMA_V2_FINISH);
+};
+
+// Tag names of an article, as indexed for search
+const articleTagNames = (articleId: string) => `
+  (SELECT COALESCE(group_concat(tags.name, ' '), '') FROM article_tags
+   JOIN tags ON tags.id = article_tags.tag_id
+   WHERE article_tags.article_id = ${articleId})`;
+
+// Statements that (re)index one document; arguments are SQL expressions such as NEW.id
+const indexDocument = (kind: string, refId: string, articleId: string, title: string, body: string, tags: string) => `
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_docs WHERE kind = '${kind}' AND ref_id = ${refId});
+  INSERT OR IGNORE INTO search_docs (kind, ref_id, article_id) VALUES ('${kind}', ${refId}, ${articleId});
+  INSERT INTO search_index (rowid, title, body, tags)
+    SELECT id, ${title}, ${body}, ${tags} FROM search_docs WHERE kind = '${kind}' AND ref_id = ${refId};`;
+
+const unindexDocument = (kind: string, refId: string) => `
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_docs WHERE kind = '${kind}' AND ref_id = ${refId});
+  DELETE FROM search_docs WHERE kind = '${kind}' AND ref_id = ${refId};`;
+
+const reindexTags = (articleId: string) => `
+  UPDATE search_index SET tags = ${articleTagNames(articleId)}
+  WHERE rowid = (SELECT id FROM search_docs WHERE kind = 'article' AND ref_id = ${articleId});`;
+
+const ARTICLE_DOCUMENT = indexDocument(
+  'article', 'NEW.id', 'NEW.id', 'NEW.title', "COALESCE(NEW.description, '')", articleTagNames('NEW.id')
+) + `
+  UPDATE search_index SET title = NEW.title
+  WHERE rowid IN (SELECT id FROM search_docs WHERE article_id = NEW.id AND kind IN ('note', 'highlight'));`;
+
+const articleTitle = (articleId: string) => `COALESCE((SELECT title FROM articles WHERE id = ${articleId}), '')`;
+const NOTE_DOCUMENT = indexDocument(
+  'note', 'NEW.id', 'NEW.article_id', articleTitle('NEW.article_id'), 'NEW.content', "''"
+);
+const HIGHLIGHT_DOCUMENT = indexDocument(
+  'highlight', 'NEW.id', 'NEW.article_id', articleTitle('NEW.article_id'),
+  "NEW.text || ' ' || COALESCE(NEW.note, '')", "''"
+);
+
+// Version 3: full-text search. Articles, notes and highlights are indexed by triggers
+// (INSERT OR REPLACE does not fire delete triggers, so inserts clear any earlier entry);
+// summaries live in AsyncStorage and are indexed by searchService.
+const SCHEMA_V3 = `
+CREATE TABLE search_docs (
+  id INTEGER PRIMARY KEY,
+  kind TEXT NOT NULL,
+  ref_id TEXT NOT NULL,
+  article_id TEXT NOT NULL,
+  UNIQUE (kind, ref_id)
+);
+CREATE INDEX idx_search_docs_article_id ON search_docs(article_id);
+
+CREATE VIRTUAL TABLE search_index USING fts5(
+  title, body, tags,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+CREATE TRIGGER articles_search_insert AFTER INSERT ON articles BEGIN ${ARTICLE_DOCUMENT} END;
+CREATE TRIGGER articles_search_update AFTER UPDATE ON articles BEGIN ${ARTICLE_DOCUMENT} END;
+CREATE TRIGGER articles_search_delete AFTER DELETE ON articles BEGIN ${unindexDocument('article', 'OLD.id')} END;
+
+CREATE TRIGGER notes_search_insert AFTER INSERT ON notes BEGIN ${NOTE_DOCUMENT} END;
+CREATE TRIGGER notes_search_update AFTER UPDATE ON notes BEGIN ${NOTE_DOCUMENT} END;
+CREATE TRIGGER notes_search_delete AFTER DELETE ON notes BEGIN ${unindexDocument('note', 'OLD.id')} END;
+
+CREATE TRIGGER highlights_search_insert AFTER INSERT ON highlights BEGIN ${HIGHLIGHT_DOCUMENT} END;
+CREATE TRIGGER highlights_search_update AFTER UPDATE ON highlights BEGIN ${HIGHLIGHT_DOCUMENT} END;
+CREATE TRIGGER highlights_search_delete AFTER DELETE ON highlights BEGIN ${unindexDocument('highlight', 'OLD.id')} END;
+
+CREATE TRIGGER article_tags_search_insert AFTER INSERT ON article_tags BEGIN ${reindexTags('NEW.article_id')} END;
+CREATE TRIGGER article_tags_search_delete AFTER DELETE ON article_tags BEGIN ${reindexTags('OLD.article_id')} END;
+CREATE TRIGGER tags_search_update AFTER UPDATE OF name ON tags BEGIN
+  UPDATE search_index SET tags = ${articleTagNames('(SELECT ref_id FROM search_docs WHERE id = search_index.rowid)')}
+  WHERE rowid IN (
+    SELECT search_docs.id FROM search_docs
+    JOIN article_tags ON article_tags.article_id = search_docs.ref_id
+    WHERE search_docs.kind = 'article' AND article_tags.tag_id = NEW.id
+  );
+END;
+
+INSERT INTO search_docs (kind, ref_id, article_id) SELECT 'article', id, id FROM articles ORDER BY rowid;
+INSERT INTO search_docs (kind, ref_id, article_id) SELECT 'note', id, article_id FROM notes ORDER BY rowid;
+INSERT INTO search_docs (kind, ref_id, article_id) SELECT 'highlight', id, article_id FROM highlights ORDER BY rowid;
+
+INSERT INTO search_index (rowid, title, body, tags)
+  SELECT search_docs.id, articles.title, COALESCE(articles.description, ''), ${articleTagNames('articles.id')}
+  FROM search_docs JOIN articles ON articles.id = search_docs.ref_id
+  WHERE search_docs.kind = 'article';
+INSERT INTO search_index (rowid, title, body, tags)
+  SELECT search_docs.id, ${articleTitle('notes.article_id')}, notes.content, ''
+  FROM search_docs JOIN notes ON notes.id = search_docs.ref_id
+  WHERE search_docs.kind = 'note';
+INSERT INTO search_index (rowid, title, body, tags)
+  SELECT search_docs.id, ${articleTitle('highlights.article_id')}, highlights.text || ' ' || COALESCE(highlights.note, ''), ''
+  FROM search_docs JOIN highlights ON highlights.id = search_docs.ref_id
+  WHERE search_docs.kind = 'highlight';
+`;
+
+// Version 4: articles saved for offline reading. The page content and images are files in
+// `directory`; this table only lists them.
+const SCHEMA_V4 = `
+CREATE TABLE offline_articles (
+  article_id TEXT PRIMARY KEY NOT NULL,
+  directory TEXT NOT NULL,
+  title TEXT NOT NULL,
+  byline TEXT,
+  excerpt TEXT,
+  size INTEGER NOT NULL,
+  image_count INTEGER NOT NULL,
+  saved_at INTEGER NOT NULL
+);
+CREATE INDEX idx_offline_articles_saved_at ON offline_articles(saved_at);
+`;
+
+// Version 5: highlights remember the text around them, so they can be found again in the page
+const SCHEMA_V5 = `
+ALTER TABLE highlights ADD COLUMN prefix TEXT;
+ALTER TABLE highlights ADD COLUMN suffix TEXT;
+`;
+
+// Version 6: history remembers where the reader left off and how far into the article they got
+const SCHEMA_V6 = `
+ALTER TABLE history ADD COLUMN scroll_position REAL NOT NULL DEFAULT 0;
+ALTER TABLE history ADD COLUMN max_scroll_depth REAL NOT NULL DEFAULT 0;
+`;
+
+// Version 7: time spent listening to an article (text-to-speech), kept apart from reading time
+const SCHEMA_V7 = `
+ALTER TABLE history ADD COLUMN listening_time INTEGER NOT NULL DEFAULT 0;
+`;
+
+// Upgrade steps in order; step N brings the database (PRAGMA user_version) from N to N + 1
+const UPGRADES: ((db: SQLite.SQLiteDatabase) => Promise<void>)[] = [
+  (db) => db.execAsync(SCHEMA_V1),
+  upgradeToArticleIds,
+  (db) => db.execAsync(SCHEMA_V3),
+  (db) => db.execAsync(SCHEMA_V4),
+  (db) => db.execAsync(SCHEMA_V5),
+  (db) => db.execAsync(SCHEMA_V6),
+  (db) => db.execAsync(SCHEMA_V7),
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const openDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  for (let version = row?.user_version || 0; version < UPGRADES.length; version++) {
+    // Each step commits together with its version number, or not at all
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await UPGRADES[version](txn);
+      await txn.execAsync(`PRAGMA user_version = ${version + 1};`);
+    });
+  }
+
+  return db;
+};
+
+/**
+ * Shared connection to the app database. The schema is created or upgraded on first use.
+ */
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      databasePromise = null; // Let the next call try again
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+/**
+ * Run several writes atomically: either all of them are stored or none are. Given a
+ * `transaction` already open, the writes join it instead.
+ */
+export const runInTransaction = async (
+  task: (db: SQLite.SQLiteDatabase) => Promise<void>,
+  transaction?: SQLite.SQLiteDatabase
+): Promise<void> => {
+  if (transaction) {
+    await task(transaction);
+    return;
+  }
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await task(txn);
+  });
+};
@@ -0,0 +1,206 @@
+import { Article } from '../types';
+
+export type EntityType = 'person' | 'organization' | 'place';
+
+// Someone or something an article is about
+export interface ArticleEntity {
+  name: string;
+  type: EntityType;
+}
+
+export const ENTITY_TYPES: { id: EntityType; name: string; icon: string }[] = [
+  { id: 'person', name: 'People', icon: 'person-outline' },
+  { id: 'organization', name: 'Organizations', icon: 'business-outline' },
+  { id: 'place', name: 'Places', icon: 'location-outline' },
+];
+
+// Entities kept for one article, most mentioned first
+export const MAX_ENTITIES = 12;
+
+export const isEntityType = (value: any): value is EntityType =>
+  ENTITY_TYPES.some(type => type.id === value);
+
+// Case and spacing don't make a different entity
+export const getEntityKey = (entity: ArticleEntity): string =>
+  `${entity.type}:${entity.name.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim()}`;
+
+export const sameEntity = (a: ArticleEntity, b: ArticleEntity): boolean => getEntityKey(a) === getEntityKey(b);
+
+// Drop malformed and repeated entities, keeping the first of each
+export const cleanEntities = (entities: any[]): ArticleEntity[] => {
+  const seen = new Set<string>();
+  return entities
+    .filter(entity => entity && typeof entity.name === 'string' && isEntityType(entity.type))
+    .map(entity => ({ name: entity.name.replace(/\s+/g, ' ').trim(), type: entity.type as EntityType }))
+    .filter(entity => {
+      const key = getEntityKey(entity);
+      if (!entity.name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_ENTITIES);
+};
+
+// Whether the text names the entity, as a whole word or phrase
+export const mentionsEntity = (text: string, entity: ArticleEntity): boolean => {
+  const name = entity.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${name}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+/**
+ * ========== LOCAL EXTRACTION ==========
+ * Runs of capitalized words, sorted into people, organizations and places by the words
+ * around them. Used when no AI model is available, and for summaries without entities.
+ */
+
+// Capitalized words, acronyms, and the small words allowed inside a name ("Bank of England").
+// "and" and "&" end a run: "the European Union and Microsoft" names two organizations
+const NAME_RUN =
+  /(?:\p{Lu}[\p{L}'’.-]*)(?:\s+(?:(?:of|de|del|da|la|le|van|von|der|al|bin)\s+)?(?:\p{Lu}[\p{L}'’.-]*))*/gu;
+
+// Capitalized because they start a sentence, or common words that aren't names
+const NOT_NAMES = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'he', 'she', 'it', 'they', 'we', 'i', 'you',
+  'his', 'her', 'its', 'their', 'our', 'my', 'in', 'on', 'at', 'for', 'but', 'and', 'or', 'after',
+  'before', 'as', 'when', 'while', 'if', 'so', 'yet', 'with', 'without', 'from', 'to', 'by', 'of',
+  'there', 'here', 'what', 'who', 'why', 'how', 'where', 'which', 'some', 'many', 'most', 'all',
+  'one', 'two', 'three', 'new', 'more', 'also', 'however', 'meanwhile', 'still', 'now', 'today',
+  'yesterday', 'tomorrow', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+  'sunday', 'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september',
+  'october', 'november', 'december', 'read', 'more', 'photo', 'video', 'getty', 'images', 'reuters',
+  'ap', 'afp', 'cnn', 'bbc', 'watch', 'live', 'update', 'breaking',
+]);
+
+const PERSON_TITLES = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sir', 'dame', 'president', 'minister', 'senator', 'sen',
+  'rep', 'representative', 'governor', 'gov', 'mayor', 'judge', 'justice', 'chancellor', 'king',
+  'queen', 'prince', 'princess', 'pope', 'ceo', 'chief', 'secretary', 'general', 'gen', 'coach',
+  'captain', 'officer', 'spokesperson', 'spokesman', 'spokeswoman', 'founder', 'chairman', 'chair',
+  'prime', 'vice', 'foreign', 'defense', 'defence', 'finance', 'lord', 'lady', 'saint', 'st',
+]);
+
+const ORGANIZATION_WORDS = new Set([
+  'inc', 'corp', 'corporation', 'co', 'company', 'ltd', 'llc', 'plc', 'group', 'holdings', 'bank',
+  'university', 'college', 'school', 'institute', 'agency', 'association', 'party', 'council',
+  'committee', 'ministry', 'department', 'commission', 'federation', 'union', 'foundation', 'fund',
+  'organization', 'organisation', 'court', 'congress', 'parliament', 'senate', 'police', 'army',
+  'navy', 'fc', 'club', 'airlines', 'airways', 'motors', 'technologies', 'labs', 'news', 'times',
+  'post', 'network', 'studios', 'records', 'systems', 'pharmaceuticals', 'office', 'service',
+  'board', 'authority', 'reserve', 'assembly', 'league', 'team', 'house', 'nations', 'forces',
+]);
+
+const PLACES = new Set([
+  'africa', 'america', 'asia', 'europe', 'oceania', 'antarctica', 'arctic', 'middle east',
+  'afghanistan', 'argentina', 'australia', 'austria', 'bangladesh', 'belgium', 'brazil', 'canada',
+  'chile', 'china', 'colombia', 'cuba', 'denmark', 'egypt', 'ethiopia', 'finland', 'france',
+  'gaza', 'germany', 'greece', 'india', 'indonesia', 'iran', 'iraq', 'ireland', 'israel', 'italy',
+  'japan', 'kenya', 'lebanon', 'mexico', 'morocco', 'netherlands', 'new zealand', 'nigeria',
+  'north korea', 'norway', 'pakistan', 'palestine', 'peru', 'philippines', 'poland', 'portugal',
+  'qatar', 'russia', 'saudi arabia', 'scotland', 'south africa', 'south korea', 'spain', 'sudan',
+  'sweden', 'switzerland', 'syria', 'taiwan', 'thailand', 'turkey', 'ukraine', 'united kingdom',
+  'united states', 'us', 'u.s.', 'usa', 'uk', 'venezuela', 'vietnam', 'wales', 'yemen',
+  'amsterdam', 'athens', 'bangkok', 'beijing', 'berlin', 'boston', 'brussels', 'cairo', 'chicago',
+  'delhi', 'new delhi', 'dubai', 'geneva', 'hong kong', 'istanbul', 'jerusalem', 'kyiv', 'kiev',
+  'lagos', 'london', 'los angeles', 'madrid', 'miami', 'moscow', 'mumbai', 'nairobi', 'new york',
+  'paris', 'rome', 'san francisco', 'seoul', 'shanghai', 'singapore', 'sydney', 'tehran',
+  'tel aviv', 'tokyo', 'toronto', 'vienna', 'warsaw', 'washington', 'california', 'texas',
+  'florida', 'silicon valley', 'wall street',
+]);
+
+// Words right before a name that point to a place
+const PLACE_PREPOSITIONS = new Set(['in', 'across', 'near', 'outside']);
+
+const bareWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}]/gu, '');
+
+const lastWord = (text: string): string => {
+  const words = text.trim().split(/\s+/);
+  return bareWord(words[words.length - 1] || '');
+};
+
+// `titled` when the name came after a title such as "President" or "Dr."
+const classify = (name: string, before: string, titled: boolean): EntityType | null => {
+  const words = name.split(/\s+/);
+  const lower = name.toLowerCase();
+  const previous = lastWord(before);
+
+  if (PLACES.has(lower)) return 'place';
+  if (words.some(word => ORGANIZATION_WORDS.has(bareWord(word)))) {
+    return 'organization';
+  }
+  // Acronyms such as NASA or FBI
+  if (words.length === 1 && /^\p{Lu}{2,6}$/u.test(name)) return 'organization';
+  if (titled || PERSON_TITLES.has(previous)) return 'person';
+  if (PLACE_PREPOSITIONS.has(previous) && words.length <= 2) return 'place';
+  // First and last name, each written Like This
+  if (words.length >= 2 && words.length <= 3 && words.every(word => /^\p{Lu}\p{Ll}+[\p{L}'’-]*$/u.test(word))) {
+    return 'person';
+  }
+  return null;
+};
+
+// Title case headlines capitalize every word, so the title is only used when there is nothing else
+const getExtractionText = (article: Article): string => {
+  const body = [article.description, article.content]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\[\+\d+ chars\]/g, '')
+    .replace(/<[^>]*>/g, ' ');
+  return body.trim() ? body : article.title || '';
+};
+
+export const extractEntities = (article: Article): ArticleEntity[] => {
+  const text = getExtractionText(article);
+  const counts = new Map<string, { entity: ArticleEntity; count: number }>();
+
+  // A run stops where a sentence ends ("... in Washington. The talks"); "Dr." and "U.S." don't end one
+  const runs = [...text.matchAll(NAME_RUN)].flatMap(match => {
+    let index = match.index || 0;
+    return match[0].split(/(?<=\p{L}{3,}\.)\s+/u).map(part => {
+      const run = { text: part, index };
+      index += part.length + 1;
+      return run;
+    });
+  });
+
+  for (const run of runs) {
+    const words = run.text.replace(/[.'’-]+$/, '').split(/\s+/);
+    // "The White House" and "In Paris" lose the word that only starts the sentence
+    while (words.length > 0 && NOT_NAMES.has(words[0].toLowerCase())) words.shift();
+    // "French President Emmanuel Macron" and "Bank of England Governor Andrew Bailey" lose what
+    // describes the title, unless the words after it name an organization ("House Foreign Affairs Committee")
+    const titleAt = words.findIndex((word, index) => index < words.length - 1 && PERSON_TITLES.has(bareWord(word)));
+    if (titleAt > 0 && !words.slice(titleAt).some(word => ORGANIZATION_WORDS.has(bareWord(word)))) {
+      words.splice(0, titleAt);
+    }
+    // "Prime Minister Keir Starmer" is Keir Starmer
+    let titled = false;
+    while (words.length > 1 && PERSON_TITLES.has(bareWord(words[0]))) {
+      words.shift();
+      titled = true;
+    }
+    // "Dr. Anna Schmidt of Stanford University" names the person, not the university
+    const connector = words.findIndex(word => word === 'of');
+    if (titled && connector > 0) words.splice(connector);
+    const name = words.join(' ');
+    if (name.length < 2 || NOT_NAMES.has(name.toLowerCase()) || PERSON_TITLES.has(bareWord(name))) continue;
+
+    const before = text.slice(Math.max(0, run.index - 20), run.index);
+    const type = classify(name, before, titled);
+    if (!type) continue;
+
+    const entity = { name, type };
+    const key = getEntityKey(entity);
+    const counted = counts.get(key);
+    counts.set(key, { entity, count: (counted?.count || 0) + 1 });
+  }
+
+  const found = [...counts.values()].sort((a, b) => b.count - a.count).map(({ entity }) => entity);
+  // "Biden" on its own is the "Joe Biden" named earlier
+  const people = found.filter(entity => entity.type === 'person' && entity.name.includes(' '));
+  return found
+    .filter(entity =>
+      entity.name.includes(' ') ||
+      !people.some(person => person.name.split(' ').pop()?.toLowerCase() === entity.name.toLowerCase())
+    )
+    .slice(0, MAX_ENTITIES);
+};
@@ -0,0 +1,71 @@
+import { Article } from '../types';
+import { articleStore } from './articleStore';
+import { bookmarkStorage } from './bookmarkStorage';
+import { readingHistoryService } from './readingHistoryService';
+import { notesService, Note } from './notesService';
+import { summaryService } from './summaryService';
+import { ArticleEntity, mentionsEntity, sameEntity } from './entities';
+
+export interface EntityArticle {
+  article: Article;
+  bookmarked: boolean;
+  readAt: number | null; // Last read, if ever
+}
+
+export interface EntityPage {
+  entity: ArticleEntity;
+  articles: EntityArticle[]; // Most recently published first
+  notes: Note[]; // Notes naming it, and notes on its articles
+}
+
+class EntityService {
+  /**
+   * Every kept article (saved, bookmarked or read) whose summary lists the entity or whose
+   * text names it, with the notes about it.
+   */
+  async getEntityPage(entity: ArticleEntity): Promise<EntityPage> {
+    try {
+      const [articles, bookmarks, history, summaries, notes] = await Promise.all([
+        articleStore.getAllArticles(),
+        bookmarkStorage.getBookmarks(),
+        readingHistoryService.getHistory(),
+        summaryService.getSummaries(),
+        notesService.getNotes(),
+      ]);
+
+      const bookmarkedUrls = new Set(bookmarks.map(article => article.url));
+      const readAt = new Map<string, number>();
+      history.forEach(item => {
+        readAt.set(item.article.url, Math.max(readAt.get(item.article.url) || 0, item.readAt));
+      });
+      const listedUrls = new Set(
+        summaries
+          .filter(summary => summary.entities.some(listed => sameEntity(listed, entity)))
+          .map(summary => summary.articleUrl)
+      );
+
+      const matching = articles
+        .filter(article =>
+          listedUrls.has(article.url) ||
+          mentionsEntity([article.title, article.description, article.content].filter(Boolean).join('\n'), entity)
+        )
+        .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+      const matchingUrls = new Set(matching.map(article => article.url));
+
+      return {
+        entity,
+        articles: matching.map(article => ({
+          article,
+          bookmarked: bookmarkedUrls.has(article.url),
+          readAt: readAt.get(article.url) ?? null,
+        })),
+        notes: notes.filter(note => matchingUrls.has(note.articleUrl) || mentionsEntity(note.content, entity)),
+      };
+    } catch (error) {
+      console.error('Error getting entity page:', error);
+      return { entity, articles: [], notes: [] };
+    }
+  }
+}
+
+export const entityService = new EntityService();
@@ -0,0 +1,152 @@
+import { Article } from '../types';
+import type { PartialSummary, SummaryLength, SummaryOptions } from './summaryProviders';
+
+/**
+ * Summaries picked from the article's own sentences, on the device: no network, no API key.
+ * Sentences are scored by how often their words occur in the article, how many words they
+ * share with the title, and how early they come. The best ones make the summary and the key
+ * points, kept in article order. Sentences are not rewritten, so styles other than Bullets and
+ * output languages have no effect.
+ */
+
+// Summary sentences for each length
+const SUMMARY_SENTENCES: Record<SummaryLength, number> = {
+  short: 1,
+  medium: 2,
+  long: 4,
+};
+
+// How much each signal counts towards a sentence's score
+const FREQUENCY_WEIGHT = 0.5;
+const TITLE_WEIGHT = 0.3;
+const POSITION_WEIGHT = 0.2;
+
+// Sentences sharing more of their words than this with one already picked repeat it
+const MAX_OVERLAP = 0.6;
+
+// Long extracted pages are scored on their opening sentences only
+const MAX_SENTENCES = 150;
+const MIN_SENTENCE_LENGTH = 25;
+const MAX_SENTENCE_LENGTH = 400;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who',
+  'did', 'get', 'him', 'let', 'say', 'she', 'too', 'use', 'that', 'with', 'this', 'from', 'they',
+  'will', 'would', 'there', 'their', 'what', 'about', 'which', 'when', 'were', 'been', 'also',
+  'into', 'than', 'then', 'them', 'these', 'those', 'some', 'more', 'most', 'such', 'only', 'over',
+  'after', 'before', 'while', 'where', 'could', 'should', 'said', 'says', 'just', 'like', 'very',
+  'much', 'many', 'other', 'being', 'because', 'does', 'each', 'here', 'even', 'well', 'still',
+  'year', 'years', 'since', 'under', 'between', 'during', 'through', 'against', 'according',
+  'told', 'including', 'last', 'first', 'week', 'month', 'day', 'time', 'make', 'made',
+]);
+
+interface ScoredSentence {
+  text: string;
+  index: number; // Position in the article
+  terms: Set<string>;
+  score: number;
+}
+
+const getTerms = (text: string): string[] =>
+  (text.toLowerCase().match(/\p{L}[\p{L}\p{N}'’-]*/gu) || [])
+    .map(word => word.replace(/['’]s$/, ''))
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+
+// Sentence ends, without breaking "U.S." or "Dr. Smith"
+const splitSentences = (text: string): string[] =>
+  text
+    .replace(/\[\+\d+ chars\]/g, '')
+    .replace(/<[^>]*>/g, ' ')
+    .split(/\n+|(?<=[.!?…]["”’)]?)\s+(?=["“‘(]?[\p{Lu}\p{N}])(?<!\b(?:\p{Lu}|Mr|Mrs|Ms|Dr|St|Jr|Sr|Prof|Gen|Gov|Sen|Rep)\.\s+)/u)
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.length >= MIN_SENTENCE_LENGTH && sentence.length <= MAX_SENTENCE_LENGTH)
+    // NewsAPI cuts content mid-sentence with an ellipsis
+    .filter(sentence => !/(?:…|\.\.\.)$/.test(sentence));
+
+// How many of a's terms are also in b, as a share of the smaller set
+const overlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+};
+
+/**
+ * Summarize from the title, description and body. `body` is the extracted page text when it
+ * is on the device; otherwise the feed's (often truncated) content is used.
+ */
+export const summarizeExtractive = (
+  article: Article,
+  options: SummaryOptions,
+  body: string = ''
+): PartialSummary => {
+  const seen = new Set<string>();
+  const sentences = [article.description || '', body || article.content || '']
+    .flatMap(splitSentences)
+    .filter(sentence => {
+      const key = sentence.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SENTENCES);
+
+  if (sentences.length === 0) {
+    return { summary: article.description || article.title || 'Summary not available', keyPoints: [] };
+  }
+
+  // Term frequency over the whole article
+  const frequency = new Map<string, number>();
+  const sentenceTerms = sentences.map(sentence => {
+    const terms = getTerms(sentence);
+    terms.forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1));
+    return new Set(terms);
+  });
+  const maxFrequency = Math.max(1, ...frequency.values());
+  const titleTerms = new Set(getTerms(article.title || ''));
+
+  const frequencyScores = sentenceTerms.map(terms => {
+    let total = 0;
+    terms.forEach(term => {
+      total += (frequency.get(term) || 0) / maxFrequency;
+    });
+    // Long sentences shouldn't win on length alone
+    return terms.size > 0 ? total / Math.sqrt(terms.size) : 0;
+  });
+  const maxFrequencyScore = Math.max(...frequencyScores) || 1;
+
+  const scored: ScoredSentence[] = sentences.map((text, index) => ({
+    text,
+    index,
+    terms: sentenceTerms[index],
+    score:
+      FREQUENCY_WEIGHT * (frequencyScores[index] / maxFrequencyScore) +
+      TITLE_WEIGHT * (titleTerms.size > 0 ? overlap(sentenceTerms[index], titleTerms) : 0) +
+      POSITION_WEIGHT * (1 - index / sentences.length),
+  }));
+
+  // Best first, skipping sentences that repeat one already picked
+  const picked: ScoredSentence[] = [];
+  [...scored]
+    .sort((a, b) => b.score - a.score)
+    .forEach(sentence => {
+      if (picked.every(other => overlap(sentence.terms, other.terms) <= MAX_OVERLAP)) {
+        picked.push(sentence);
+      }
+    });
+
+  // Bullets has a one-line headline, like the AI style
+  const summaryCount = options.style === 'bullets' ? 1 : SUMMARY_SENTENCES[options.length];
+  const byPosition = (a: ScoredSentence, b: ScoredSentence) => a.index - b.index;
+
+  return {
+    summary: picked.slice(0, summaryCount).sort(byPosition).map(sentence => sentence.text).join(' '),
+    keyPoints: picked
+      .slice(summaryCount, summaryCount + options.maxKeyPoints)
+      .sort(byPosition)
+      .map(sentence => sentence.text),
+  };
+};
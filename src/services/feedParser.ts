@@ -0,0 +1,420 @@
+import { XMLParser } from 'fast-xml-parser';
+import { Article } from '../types';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  siteUrl: string | null;
+  articles: Article[];
+}
+
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Elements that may appear once or many times; always parse them as arrays
+const ARRAY_ELEMENTS = new Set([
+  'item',
+  'entry',
+  'link',
+  'enclosure',
+  'category',
+  'media:content',
+  'media:thumbnail',
+  'media:group',
+]);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  trimValues: true,
+  processEntities: true,
+  htmlEntities: true,
+  isArray: (name) => ARRAY_ELEMENTS.has(name),
+});
+
+/**
+ * ========== DOCUMENT NODES ==========
+ * Only the parts the parsers read. Feeds are untrusted, so text and attributes are typed
+ * `unknown` and read through textOf / attributeOf.
+ */
+
+// An element parsed with its attributes (`@_name`) and text (`#text`)
+type XmlElement = Record<string, unknown>;
+
+// Elements that can carry an image: enclosures, Media RSS and iTunes tags
+interface MediaNode {
+  enclosure?: unknown[];
+  'media:content'?: unknown[];
+  'media:thumbnail'?: unknown[];
+  'media:group'?: MediaNode[];
+  'itunes:image'?: unknown;
+}
+
+interface RssChannel {
+  title?: unknown;
+  link?: unknown[];
+  item?: RssItem[];
+}
+
+interface RssItem extends MediaNode {
+  title?: unknown;
+  link?: unknown[];
+  guid?: unknown;
+  author?: unknown;
+  description?: unknown;
+  pubDate?: unknown;
+  'dc:creator'?: unknown;
+  'dc:date'?: unknown;
+  'content:encoded'?: unknown;
+}
+
+interface AtomPerson {
+  name?: unknown;
+}
+
+interface AtomFeed {
+  title?: unknown;
+  link?: unknown[];
+  author?: AtomPerson;
+  entry?: AtomEntry[];
+}
+
+interface AtomEntry extends MediaNode {
+  title?: unknown;
+  link?: unknown[];
+  author?: AtomPerson | AtomPerson[];
+  summary?: unknown;
+  content?: unknown;
+  published?: unknown;
+  updated?: unknown;
+}
+
+interface JsonFeedAuthor {
+  name?: unknown;
+}
+
+interface JsonFeedAttachment {
+  url?: unknown;
+  mime_type?: unknown;
+}
+
+interface JsonFeedItem {
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  summary?: unknown;
+  content_html?: unknown;
+  content_text?: unknown;
+  image?: unknown;
+  banner_image?: unknown;
+  date_published?: unknown;
+  date_modified?: unknown;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeed {
+  version?: unknown;
+  title?: unknown;
+  home_page_url?: unknown;
+  author?: JsonFeedAuthor;
+  authors?: JsonFeedAuthor[];
+  items?: JsonFeedItem[];
+}
+
+/**
+ * ========== HELPERS ==========
+ */
+
+const isElement = (node: unknown): node is XmlElement =>
+  typeof node === 'object' && node !== null && !Array.isArray(node);
+
+// Read the text of a node that may be a plain value or an element with attributes
+const textOf = (node: unknown): string => {
+  if (node === undefined || node === null) return '';
+  if (Array.isArray(node)) return textOf(node[0]);
+  if (typeof node === 'object') return textOf((node as XmlElement)['#text']);
+  return String(node).trim();
+};
+
+// An attribute of an element, or '' when the node has none
+const attributeOf = (node: unknown, name: string): string => {
+  const value = isElement(node) ? node[`@_${name}`] : undefined;
+  return typeof value === 'string' ? value : '';
+};
+
+// A JSON Feed field that should be a string
+const stringOf = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// Like asArray, skipping values that aren't elements (e.g. an empty <item/> parsed as '')
+const elementsOf = <T>(value: T | T[] | undefined | null): T[] =>
+  asArray(value).filter(node => isElement(node));
+
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+};
+
+// Convert an HTML fragment into plain text
+export const stripHtml = (html: string): string => {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim();
+};
+
+const truncate = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength).replace(/\s+\S*$/, '') + '...';
+};
+
+const isImageUrl = (url: string): boolean => /\.(jpe?g|png|gif|webp|avif)(\?|$)/i.test(url);
+
+// First <img src="..."> in an HTML fragment
+const firstImageInHtml = (html: string): string | null => {
+  const match = html.match(/<img[^>]+src=["']([^"']+)["']/i);
+  return match ? decodeEntities(match[1]) : null;
+};
+
+const toIsoDate = (value: string): string => {
+  const date = value ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+// Resolve a possibly relative link against the feed's site URL
+const resolveUrl = (url: string, base: string | null): string => {
+  if (!url || /^[a-z][a-z0-9+.-]*:/i.test(url) || !base) return url;
+  const origin = base.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i)?.[0];
+  if (!origin) return url;
+  if (url.startsWith('//')) return `${origin.split(':')[0]}:${url}`;
+  if (url.startsWith('/')) return origin + url;
+  return base.replace(/[^/]*$/, '') + url;
+};
+
+// Pick an image from enclosures and Media RSS tags
+const findMediaImage = (node: MediaNode): string | null => {
+  for (const enclosure of asArray(node.enclosure)) {
+    const url = attributeOf(enclosure, 'url');
+    const type = attributeOf(enclosure, 'type');
+    if (url && (type.startsWith('image/') || isImageUrl(url))) {
+      return url;
+    }
+  }
+
+  const mediaNodes = [node, ...elementsOf(node['media:group'])];
+  for (const media of mediaNodes) {
+    for (const content of asArray(media['media:content'])) {
+      const url = attributeOf(content, 'url');
+      const medium = attributeOf(content, 'medium');
+      const type = attributeOf(content, 'type');
+      if (url && (medium === 'image' || type.startsWith('image/') || isImageUrl(url))) {
+        return url;
+      }
+    }
+    const thumbnail = attributeOf(asArray(media['media:thumbnail'])[0], 'url');
+    if (thumbnail) {
+      return thumbnail;
+    }
+  }
+
+  return attributeOf(node['itunes:image'], 'href') || null;
+};
+
+const buildArticle = (fields: {
+  sourceId: string;
+  sourceName: string;
+  title: string;
+  url: string;
+  author: string;
+  summaryHtml: string;
+  contentHtml: string;
+  image: string | null;
+  date: string;
+}): Article => {
+  const description = stripHtml(fields.summaryHtml || fields.contentHtml);
+  const content = stripHtml(fields.contentHtml || fields.summaryHtml);
+
+  return {
+    source: { id: fields.sourceId, name: fields.sourceName },
+    author: fields.author || null,
+    title: stripHtml(fields.title) || truncate(description, 80) || fields.url,
+    description: description ? truncate(description, MAX_DESCRIPTION_LENGTH) : null,
+    url: fields.url,
+    urlToImage: fields.image || firstImageInHtml(fields.contentHtml || fields.summaryHtml),
+    publishedAt: toIsoDate(fields.date),
+    content: content || null,
+  };
+};
+
+/**
+ * ========== FORMAT PARSERS ==========
+ */
+
+const parseRss = (channel: RssChannel, items: RssItem[], sourceId: string): ParsedFeed => {
+  const title = stripHtml(textOf(channel.title)) || 'Untitled Feed';
+  const siteUrl = asArray(channel.link).map(textOf).find(Boolean) || null;
+
+  const articles = elementsOf(items)
+    .map(item => {
+      // A <guid> is a permalink unless isPermaLink="false"
+      const guid = item.guid;
+      const guidIsLink = attributeOf(guid, 'isPermaLink') !== 'false';
+      const guidText = textOf(guid);
+      const link =
+        asArray(item.link).map(textOf).find(Boolean) ||
+        (guidIsLink && /^https?:\/\//i.test(guidText) ? guidText : '');
+
+      return buildArticle({
+        sourceId,
+        sourceName: title,
+        title: textOf(item.title),
+        url: resolveUrl(link, siteUrl),
+        author: textOf(item['dc:creator']) || textOf(item.author),
+        summaryHtml: textOf(item.description),
+        contentHtml: textOf(item['content:encoded']),
+        image: findMediaImage(item),
+        date: textOf(item.pubDate) || textOf(item['dc:date']),
+      });
+    })
+    .filter(article => article.url);
+
+  return { format: 'rss', title, siteUrl, articles };
+};
+
+// Atom links are <link rel="alternate" href="..."/>; rel defaults to alternate
+const atomLink = (links: unknown[], rel: string = 'alternate'): unknown => {
+  return links.find(link => (attributeOf(link, 'rel') || 'alternate') === rel);
+};
+
+const parseAtom = (feed: AtomFeed, sourceId: string): ParsedFeed => {
+  const title = stripHtml(textOf(feed.title)) || 'Untitled Feed';
+  const siteUrl = attributeOf(atomLink(asArray(feed.link)), 'href') || null;
+  const feedAuthor = textOf(feed.author?.name);
+
+  const articles = elementsOf(feed.entry)
+    .map(entry => {
+      const links = asArray(entry.link);
+      const link = attributeOf(atomLink(links), 'href') || attributeOf(links[0], 'href');
+      const imageLink = atomLink(links, 'enclosure');
+      const enclosureImage =
+        attributeOf(imageLink, 'type').startsWith('image/') ? attributeOf(imageLink, 'href') || null : null;
+
+      return buildArticle({
+        sourceId,
+        sourceName: title,
+        title: textOf(entry.title),
+        url: resolveUrl(link, siteUrl),
+        author: textOf(elementsOf<AtomPerson>(entry.author)[0]?.name) || feedAuthor,
+        summaryHtml: textOf(entry.summary),
+        contentHtml: textOf(entry.content),
+        image: enclosureImage || findMediaImage(entry),
+        date: textOf(entry.published) || textOf(entry.updated),
+      });
+    })
+    .filter(article => article.url);
+
+  return { format: 'atom', title, siteUrl, articles };
+};
+
+// The first author's name; JSON Feed 1.1 has `authors`, 1.0 a single `author`
+const jsonFeedAuthor = (node: { author?: JsonFeedAuthor; authors?: JsonFeedAuthor[] }): string =>
+  stringOf(asArray<JsonFeedAuthor>(node.authors)[0]?.name) || stringOf(node.author?.name);
+
+const parseJsonFeed = (feed: JsonFeed, sourceId: string): ParsedFeed => {
+  const title = stringOf(feed.title) || 'Untitled Feed';
+  const siteUrl = stringOf(feed.home_page_url) || null;
+  const feedAuthor = jsonFeedAuthor(feed);
+
+  const articles = elementsOf(feed.items)
+    .map(item => {
+      const imageAttachment = asArray<JsonFeedAttachment>(item.attachments).find(a =>
+        stringOf(a?.mime_type).startsWith('image/')
+      );
+
+      return buildArticle({
+        sourceId,
+        sourceName: title,
+        title: stringOf(item.title),
+        url: resolveUrl(stringOf(item.url) || stringOf(item.external_url), siteUrl),
+        author: jsonFeedAuthor(item) || feedAuthor,
+        summaryHtml: stringOf(item.summary),
+        contentHtml: stringOf(item.content_html) || stringOf(item.content_text),
+        image: stringOf(item.image) || stringOf(item.banner_image) || stringOf(imageAttachment?.url) || null,
+        date: stringOf(item.date_published) || stringOf(item.date_modified),
+      });
+    })
+    .filter(article => article.url);
+
+  return { format: 'json', title, siteUrl, articles };
+};
+
+/**
+ * ========== PUBLIC API ==========
+ */
+
+/**
+ * Parse an RSS 2.0 / RSS 1.0, Atom or JSON Feed document into articles.
+ * `sourceId` is stored on each article's `source.id`.
+ */
+export const parseFeed = (body: string, sourceId: string): ParsedFeed => {
+  const trimmed = body.trim();
+
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error('Invalid JSON feed.');
+    }
+    if (!isElement(json) || !stringOf(json.version).includes('jsonfeed.org')) {
+      throw new Error('Not a JSON Feed document.');
+    }
+    return parseJsonFeed(json as JsonFeed, sourceId);
+  }
+
+  let doc: XmlElement;
+  try {
+    doc = xmlParser.parse(trimmed);
+  } catch (error) {
+    throw new Error('Invalid feed XML.');
+  }
+
+  const rss = doc.rss;
+  if (isElement(rss) && rss.channel) {
+    const channel = asArray(rss.channel)[0];
+    if (isElement(channel)) {
+      return parseRss(channel, asArray(channel.item as RssItem[]), sourceId);
+    }
+  }
+  const rdf = doc['rdf:RDF'];
+  if (isElement(rdf)) {
+    // RSS 1.0 keeps items next to the channel instead of inside it
+    const channel = isElement(rdf.channel) ? rdf.channel : {};
+    return parseRss(channel, asArray(rdf.item as RssItem[]), sourceId);
+  }
+  if (isElement(doc.feed)) {
+    return parseAtom(doc.feed, sourceId);
+  }
+
+  throw new Error('Unsupported feed format. Expected RSS, Atom or JSON Feed.');
+};
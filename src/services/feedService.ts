@@ -0,0 +1,277 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios from 'axios';
+import { ArticlePage } from '../types';
+import { cacheStorage } from './cacheStorage';
+import { parseFeed, ParsedFeed, FeedFormat } from './feedParser';
+
+const FEEDS_STORAGE_KEY = '@feed_subscriptions';
+
+export interface FeedSubscription {
+  id: string;
+  url: string;
+  title: string;
+  siteUrl: string | null;
+  format: FeedFormat;
+  group?: string; // Folder the feed was filed under (e.g. from an OPML outline)
+  createdAt: number;
+  lastFetchedAt: number | null;
+}
+
+export interface FeedImportEntry {
+  url: string;
+  title: string;
+  format?: FeedFormat;
+  group?: string;
+}
+
+export interface FeedImportResult {
+  added: FeedSubscription[];
+  duplicates: FeedImportEntry[];
+  invalid: FeedImportEntry[]; // Blank or malformed URLs, skipped
+}
+
+const feedClient = axios.create({
+  timeout: 15000,
+  responseType: 'text',
+  transformResponse: (data) => data, // Keep the raw body; parseFeed decides the format
+  headers: {
+    Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/json, application/xml, text/xml;q=0.9, */*;q=0.8',
+  },
+});
+
+class FeedService {
+  /**
+   * ========== SUBSCRIPTIONS ==========
+   */
+
+  // Get all feed subscriptions
+  async getSubscriptions(): Promise<FeedSubscription[]> {
+    try {
+      const data = await AsyncStorage.getItem(FEEDS_STORAGE_KEY);
+      if (data) {
+        return JSON.parse(data);
+      }
+      return [];
+    } catch (error) {
+      console.error('Error getting feed subscriptions:', error);
+      return [];
+    }
+  }
+
+  // Get a single subscription
+  async getSubscription(feedId: string): Promise<FeedSubscription | null> {
+    const subscriptions = await this.getSubscriptions();
+    return subscriptions.find(s => s.id === feedId) || null;
+  }
+
+  // Subscribe to a feed URL (fetches it once to validate and read its title)
+  async addSubscription(url: string): Promise<FeedSubscription> {
+    try {
+      const feedUrl = this.normalizeFeedUrl(url);
+      const subscriptions = await this.getSubscriptions();
+
+      if (subscriptions.some(s => this.isSameFeedUrl(s.url, feedUrl))) {
+        throw new Error('You are already subscribed to this feed');
+      }
+
+      const id = Date.now().toString();
+      const parsed = await this.downloadFeed(feedUrl, id);
+
+      const subscription: FeedSubscription = {
+        id,
+        url: feedUrl,
+        title: parsed.title,
+        siteUrl: parsed.siteUrl,
+        format: parsed.format,
+        createdAt: Date.now(),
+        lastFetchedAt: Date.now(),
+      };
+
+      subscriptions.push(subscription);
+      await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(subscriptions));
+      await this.cacheFeed(subscription, parsed);
+
+      return subscription;
+    } catch (error) {
+      console.error('Error adding feed subscription:', error);
+      throw error;
+    }
+  }
+
+  // Subscribe to many feeds at once without fetching them; duplicates are skipped
+  async importSubscriptions(entries: FeedImportEntry[]): Promise<FeedImportResult> {
+    try {
+      const subscriptions = await this.getSubscriptions();
+      const result: FeedImportResult = { added: [], duplicates: [], invalid: [] };
+      const baseId = Date.now();
+
+      entries.forEach((entry, index) => {
+        // One bad outline shouldn't stop the rest of the file from importing
+        const url = entry.url.trim();
+        if (!url || /\s/.test(url)) {
+          result.invalid.push(entry);
+          return;
+        }
+
+        const feedUrl = this.normalizeFeedUrl(url);
+        if (subscriptions.some(s => this.isSameFeedUrl(s.url, feedUrl))) {
+          result.duplicates.push(entry);
+          return;
+        }
+
+        const subscription: FeedSubscription = {
+          id: `${baseId + index}`,
+          url: feedUrl,
+          title: entry.title.trim() || feedUrl,
+          siteUrl: null,
+          format: entry.format || 'rss',
+          group: entry.group?.trim() || undefined,
+          createdAt: Date.now(),
+          lastFetchedAt: null,
+        };
+        subscriptions.push(subscription);
+        result.added.push(subscription);
+      });
+
+      if (result.added.length > 0) {
+        await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(subscriptions));
+      }
+      return result;
+    } catch (error) {
+      console.error('Error importing feed subscriptions:', error);
+      throw error;
+    }
+  }
+
+  // Update a subscription (e.g. rename)
+  async updateSubscription(feedId: string, updates: Partial<FeedSubscription>): Promise<void> {
+    try {
+      const subscriptions = await this.getSubscriptions();
+      const index = subscriptions.findIndex(s => s.id === feedId);
+
+      if (index === -1) {
+        throw new Error('Feed not found');
+      }
+
+      subscriptions[index] = { ...subscriptions[index], ...updates, id: feedId };
+      await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(subscriptions));
+    } catch (error) {
+      console.error('Error updating feed subscription:', error);
+      throw error;
+    }
+  }
+
+  // Unsubscribe from a feed
+  async removeSubscription(feedId: string): Promise<void> {
+    try {
+      const subscriptions = await this.getSubscriptions();
+      const filtered = subscriptions.filter(s => s.id !== feedId);
+      await AsyncStorage.setItem(FEEDS_STORAGE_KEY, JSON.stringify(filtered));
+      await cacheStorage.clearCache(this.getCacheKey(feedId));
+    } catch (error) {
+      console.error('Error removing feed subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ========== ARTICLES ==========
+   */
+
+  // Get the articles of a subscribed feed, using the cache when possible
+  async getFeedArticles(feedId: string, useCache: boolean = true): Promise<ArticlePage> {
+    const subscription = await this.getSubscription(feedId);
+    if (!subscription) {
+      throw new Error('Feed not found');
+    }
+
+    const cacheKey = this.getCacheKey(feedId);
+
+    if (useCache) {
+      const cachedData = await cacheStorage.getCachedArticles(cacheKey);
+      if (cachedData) {
+        console.log('Using cached data for feed:', subscription.title);
+        return cachedData;
+      }
+    }
+
+    try {
+      const parsed = await this.downloadFeed(subscription.url, subscription.id);
+      await this.updateSubscription(feedId, {
+        title: subscription.title || parsed.title,
+        siteUrl: parsed.siteUrl,
+        format: parsed.format,
+        lastFetchedAt: Date.now(),
+      });
+      return await this.cacheFeed(subscription, parsed);
+    } catch (error) {
+      // If network fails, try to return cached data
+      const cachedData = await cacheStorage.getCachedArticles(cacheKey);
+      if (cachedData) {
+        console.log('Network failed, using stale cache for feed:', subscription.title);
+        return cachedData;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ========== HELPERS ==========
+   */
+
+  private getCacheKey(feedId: string): string {
+    return cacheStorage.generateCacheKey('feed', feedId);
+  }
+
+  private normalizeFeedUrl(url: string): string {
+    const trimmed = url.trim();
+    if (!trimmed) {
+      throw new Error('Please enter a feed URL');
+    }
+    return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  }
+
+  // Feed URLs that only differ by scheme, letter case or a trailing slash are the same feed
+  private isSameFeedUrl(a: string, b: string): boolean {
+    const key = (url: string) =>
+      url.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase();
+    return key(a) === key(b);
+  }
+
+  private async downloadFeed(url: string, feedId: string): Promise<ParsedFeed> {
+    let body: string;
+    try {
+      const response = await feedClient.get<string>(url);
+      body = response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(`Failed to load feed (HTTP ${error.response.status})`);
+      }
+      throw new Error('Failed to load feed. Please check your connection.');
+    }
+
+    return parseFeed(body, `feed:${feedId}`);
+  }
+
+  private async cacheFeed(subscription: FeedSubscription, parsed: ParsedFeed): Promise<ArticlePage> {
+    const page: ArticlePage = {
+      articles: parsed.articles.map(article => ({
+        ...article,
+        source: { ...article.source, name: subscription.title || article.source.name },
+      })),
+      totalResults: parsed.articles.length,
+      page: 1,
+      hasMore: false,
+    };
+
+    const cacheKey = this.getCacheKey(subscription.id);
+    await cacheStorage.cacheArticles(cacheKey, page, {
+      key: cacheKey,
+      feedId: subscription.id,
+    });
+
+    return page;
+  }
+}
+
+export const feedService = new FeedService();
@@ -0,0 +1,142 @@
+import { Article } from '../types';
+
+// Straight news, or commentary that argues a view
+export type ArticleTone = 'reporting' | 'opinion';
+
+// How an article is written, as opposed to what it says
+export interface ArticleAnalysis {
+  sentiment: number; // -1 (very negative) to 1 (very positive)
+  tone: ArticleTone;
+  loadedTerms: string[]; // Emotive or slanted words the article uses in its own voice
+  estimated: boolean; // Found by the local heuristic, not the model
+}
+
+// One source's articles taken together
+export interface SourceFraming {
+  source: string;
+  articles: number;
+  averageSentiment: number;
+  opinionShare: number; // 0-1
+  loadedTermsPerArticle: number;
+  topLoadedTerms: string[]; // Most used first
+}
+
+export const MAX_LOADED_TERMS = 8;
+
+// Scores closer to 0 than this read as neutral
+const NEUTRAL_SENTIMENT = 0.2;
+
+export type SentimentLabel = 'Positive' | 'Neutral' | 'Negative';
+
+export const getSentimentLabel = (sentiment: number): SentimentLabel =>
+  sentiment >= NEUTRAL_SENTIMENT ? 'Positive' : sentiment <= -NEUTRAL_SENTIMENT ? 'Negative' : 'Neutral';
+
+// "+0.40", "-0.15"
+export const formatSentiment = (sentiment: number): string =>
+  `${sentiment > 0 ? '+' : ''}${sentiment.toFixed(2)}`;
+
+// An analysis from a model answer, or null when it lacks the sentiment or tone
+export const cleanAnalysis = (value: any): ArticleAnalysis | null => {
+  const sentiment = Number(value?.sentiment);
+  const tone = String(value?.tone || '').trim().toLowerCase();
+  if (!Number.isFinite(sentiment) || (tone !== 'reporting' && tone !== 'opinion')) return null;
+
+  const terms: string[] = Array.isArray(value.loadedTerms) ? value.loadedTerms.map(String) : [];
+  return {
+    sentiment: Math.max(-1, Math.min(1, sentiment)),
+    tone,
+    loadedTerms: [...new Set(
+      terms
+        .map(term => term.replace(/["“”*]/g, '').trim().toLowerCase())
+        .filter(term => term && term !== 'none')
+    )].slice(0, MAX_LOADED_TERMS),
+    estimated: false,
+  };
+};
+
+/**
+ * ========== LOCAL ANALYSIS ==========
+ * Word lists rather than a model, so the scores are rough. Quotes are left out: they are
+ * what the people in the story said, not how the article is written.
+ */
+
+const POSITIVE_WORDS = new Set([
+  'gain', 'gains', 'growth', 'grow', 'grew', 'improve', 'improved', 'improvement', 'success',
+  'successful', 'win', 'wins', 'won', 'victory', 'record', 'boost', 'boosted', 'recover',
+  'recovery', 'rise', 'rises', 'rose', 'surge', 'surged', 'strong', 'stronger', 'benefit',
+  'benefits', 'breakthrough', 'hope', 'hopeful', 'optimism', 'optimistic', 'praise', 'praised',
+  'celebrate', 'celebrated', 'agreement', 'deal', 'peace', 'safe', 'safer', 'support', 'welcome',
+  'welcomed', 'progress', 'achieve', 'achieved', 'award', 'rescued', 'healthy', 'cure', 'thrive',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'loss', 'losses', 'lose', 'lost', 'decline', 'declined', 'fall', 'fell', 'drop', 'dropped',
+  'crash', 'crisis', 'fail', 'failed', 'failure', 'war', 'attack', 'attacks', 'killed', 'dead',
+  'death', 'deaths', 'die', 'died', 'injured', 'violence', 'fear', 'fears', 'threat', 'threats',
+  'warn', 'warned', 'warning', 'risk', 'risks', 'collapse', 'collapsed', 'scandal', 'fraud',
+  'corruption', 'accused', 'arrested', 'charged', 'lawsuit', 'protest', 'protests', 'conflict',
+  'damage', 'disaster', 'shortage', 'recession', 'inflation', 'layoffs', 'cut', 'cuts', 'weak',
+  'worse', 'worst', 'concern', 'concerns', 'criticism', 'criticized', 'ban', 'banned', 'outbreak',
+]);
+
+// Emotive verbs and labels that take a side, where a neutral word would do
+const LOADED_WORDS = new Set([
+  'slammed', 'slams', 'blasted', 'blasts', 'lashed', 'ripped', 'torched', 'destroyed', 'eviscerated',
+  'shocking', 'outrageous', 'outrage', 'disgraceful', 'shameful', 'horrific', 'devastating',
+  'catastrophic', 'chaos', 'chaotic', 'disastrous', 'radical', 'extremist', 'extremists', 'regime',
+  'thug', 'thugs', 'mob', 'elites', 'elite', 'woke', 'propaganda', 'scheme', 'cronies', 'puppet',
+  'so-called', 'draconian', 'reckless', 'embattled', 'beleaguered', 'controversial', 'notorious',
+  'infamous', 'heroic', 'brave', 'stunning', 'stunned', 'bombshell', 'explosive', 'meltdown',
+  'fiasco', 'debacle', 'crusade', 'witch-hunt', 'swarm', 'slashed', 'gutted', 'caved', 'admitted',
+  'claimed', 'insisted', 'desperate', 'brazen',
+]);
+
+// Writing in the first person, telling readers what should happen, or vouching for a view
+const OPINION_PATTERNS = [
+  /\b(?:i|i'm|i've|my|me|we should|let us|let's)\b/gi,
+  /\b(?:should|must|ought to|needs? to|it is time|it's time)\b/gi,
+  /\b(?:clearly|obviously|surely|frankly|undoubtedly|of course|in my view|i believe|i think)\b/gi,
+];
+
+// Opinion pieces are often labelled in the URL or headline
+const OPINION_LABEL = /\b(?:opinion|op-ed|oped|editorial|commentary|column|viewpoint|perspective)\b/i;
+
+// Opinion markers per 100 words above which the article reads as opinion
+const OPINION_DENSITY = 1.5;
+
+const withoutQuotes = (text: string): string =>
+  text.replace(/"[^"]*"|“[^”]*”|‘[^’]{12,}’/g, ' ');
+
+const getAnalysisText = (article: Article): string =>
+  [article.title, article.description, article.content]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\[\+\d+ chars\]/g, '')
+    .replace(/<[^>]*>/g, ' ');
+
+export const analyzeArticle = (article: Article): ArticleAnalysis => {
+  const text = withoutQuotes(getAnalysisText(article));
+  const words = text.toLowerCase().match(/[\p{L}'’-]+/gu) || [];
+
+  const positive = words.filter(word => POSITIVE_WORDS.has(word)).length;
+  const negative = words.filter(word => NEGATIVE_WORDS.has(word)).length;
+  // A couple of words either way don't make an article positive or negative
+  const sentiment = (positive - negative) / Math.max(4, positive + negative);
+
+  const markers = OPINION_PATTERNS.reduce((count, pattern) => count + (text.match(pattern) || []).length, 0);
+  const labelled = OPINION_LABEL.test(article.url) || OPINION_LABEL.test(article.title || '');
+  const opinion = labelled || (words.length > 0 && (markers / words.length) * 100 >= OPINION_DENSITY);
+
+  const counts = new Map<string, number>();
+  words.filter(word => LOADED_WORDS.has(word)).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+  return {
+    sentiment: Math.round(sentiment * 100) / 100,
+    tone: opinion ? 'opinion' : 'reporting',
+    loadedTerms: [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([word]) => word)
+      .slice(0, MAX_LOADED_TERMS),
+    estimated: true,
+  };
+};
@@ -0,0 +1,239 @@
+import { Highlight, TextQuote, HIGHLIGHT_COLORS } from './notesService';
+
+/**
+ * JavaScript injected into the article WebView so the user can highlight text
+ * in the page. Highlights are anchored by text quote (the exact text plus a
+ * little context on each side), which survives layout changes and most edits
+ * to the page; positions or DOM paths would not.
+ */
+
+// Messages the page sends to the app through onMessage
+export type HighlightMessage =
+  | { type: 'highlighterReady' }
+  | { type: 'selection'; quote: TextQuote | null } // null when the selection is cleared
+  | { type: 'highlightPressed'; id: string };
+
+const MESSAGE_TYPES = ['highlighterReady', 'selection', 'highlightPressed'];
+
+// Characters of context stored on each side of a highlight
+const CONTEXT_LENGTH = 32;
+
+// Read a WebView message; returns null for messages that are not ours
+export const parseHighlightMessage = (data: string): HighlightMessage | null => {
+  try {
+    const message = JSON.parse(data);
+    return message && MESSAGE_TYPES.includes(message.type) ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+// Highlights use the light variant of their color in the page so text stays readable
+const getPageColor = (color: string): string =>
+  HIGHLIGHT_COLORS.find(option => option.value === color)?.light || color;
+
+// Runs once the page has loaded (WebView `injectedJavaScript`)
+export const HIGHLIGHT_SCRIPT = `
+(function () {
+  if (window.__newsHighlighter) return;
+  var CONTEXT = ${CONTEXT_LENGTH};
+
+  function post(message) {
+    if (window.ReactNativeWebView) window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function collapse(text) {
+    return text.replace(/\\s+/g, ' ');
+  }
+
+  // The page text with whitespace collapsed, and the text node and offset each character came from
+  function buildIndex() {
+    var walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, null);
+    var chars = [];
+    var nodes = [];
+    var offsets = [];
+    var lastWasSpace = true;
+    var node;
+    while ((node = walker.nextNode())) {
+      var value = node.nodeValue;
+      for (var i = 0; i < value.length; i++) {
+        var ch = value.charAt(i);
+        if (/\\s/.test(ch)) {
+          if (lastWasSpace) continue;
+          ch = ' ';
+          lastWasSpace = true;
+        } else {
+          lastWasSpace = false;
+        }
+        chars.push(ch);
+        nodes.push(node);
+        offsets.push(i);
+      }
+    }
+    return { text: chars.join(''), nodes: nodes, offsets: offsets };
+  }
+
+  // Position in the collapsed text of a DOM boundary point
+  function indexOfPoint(container, offset) {
+    var range = document.createRange();
+    range.setStart(document.body, 0);
+    range.setEnd(container, offset);
+    return collapse(range.toString()).replace(/^ /, '').length;
+  }
+
+  function commonSuffixLength(a, b) {
+    var n = 0;
+    while (n < a.length && n < b.length && a.charAt(a.length - 1 - n) === b.charAt(b.length - 1 - n)) n++;
+    return n;
+  }
+
+  function commonPrefixLength(a, b) {
+    var n = 0;
+    while (n < a.length && n < b.length && a.charAt(n) === b.charAt(n)) n++;
+    return n;
+  }
+
+  // Best match of a quote: every occurrence of the exact text, ranked by how well its context agrees
+  function findQuote(index, quote) {
+    var exact = collapse(quote.exact).trim();
+    if (!exact) return null;
+    var prefix = collapse(quote.prefix || '');
+    var suffix = collapse(quote.suffix || '');
+    var best = null;
+    var bestScore = -1;
+    var start = index.text.indexOf(exact);
+    while (start !== -1) {
+      var end = start + exact.length;
+      var score =
+        commonSuffixLength(index.text.slice(Math.max(0, start - prefix.length), start), prefix) +
+        commonPrefixLength(index.text.slice(end, end + suffix.length), suffix);
+      if (score > bestScore) {
+        best = { start: start, end: end };
+        bestScore = score;
+      }
+      start = index.text.indexOf(exact, start + 1);
+    }
+    return best;
+  }
+
+  function wrapText(node, from, to, highlight) {
+    var target = node;
+    if (to < target.nodeValue.length) target.splitText(to);
+    if (from > 0) target = target.splitText(from);
+    var mark = document.createElement('mark');
+    mark.setAttribute('data-highlight-id', highlight.id);
+    mark.style.backgroundColor = highlight.color;
+    mark.style.color = 'inherit';
+    mark.style.borderRadius = '2px';
+    target.parentNode.insertBefore(mark, target);
+    mark.appendChild(target);
+  }
+
+  function wrapRange(index, match, highlight) {
+    // Group the matched characters by text node, then wrap from the last node back
+    var pieces = [];
+    for (var i = match.start; i < match.end; i++) {
+      var last = pieces[pieces.length - 1];
+      if (last && last.node === index.nodes[i]) {
+        last.to = index.offsets[i] + 1;
+        last.text += index.text.charAt(i);
+      } else {
+        pieces.push({ node: index.nodes[i], from: index.offsets[i], to: index.offsets[i] + 1, text: index.text.charAt(i) });
+      }
+    }
+    for (var j = pieces.length - 1; j >= 0; j--) {
+      if (pieces[j].text.trim()) wrapText(pieces[j].node, pieces[j].from, pieces[j].to, highlight);
+    }
+  }
+
+  function remove(id) {
+    var marks = document.querySelectorAll('mark[data-highlight-id="' + id + '"]');
+    for (var i = 0; i < marks.length; i++) {
+      var mark = marks[i];
+      var parent = mark.parentNode;
+      while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+      parent.removeChild(mark);
+      parent.normalize();
+    }
+  }
+
+  // Highlights whose text is no longer in the page are skipped
+  function apply(highlights) {
+    for (var i = 0; i < highlights.length; i++) {
+      var highlight = highlights[i];
+      remove(highlight.id);
+      // Wrapping splits text nodes, so index the page again for every highlight
+      var index = buildIndex();
+      var match = findQuote(index, highlight);
+      if (match) wrapRange(index, match, highlight);
+    }
+  }
+
+  function currentQuote() {
+    var selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+    var range = selection.getRangeAt(0);
+    var index = buildIndex();
+    var start = indexOfPoint(range.startContainer, range.startOffset);
+    var end = indexOfPoint(range.endContainer, range.endOffset);
+    while (start < end && index.text.charAt(start) === ' ') start++;
+    while (end > start && index.text.charAt(end - 1) === ' ') end--;
+    if (start >= end) return null;
+    return {
+      exact: index.text.slice(start, end),
+      prefix: index.text.slice(Math.max(0, start - CONTEXT), start),
+      suffix: index.text.slice(end, end + CONTEXT)
+    };
+  }
+
+  var selectionTimer = null;
+  document.addEventListener('selectionchange', function () {
+    clearTimeout(selectionTimer);
+    selectionTimer = setTimeout(function () {
+      post({ type: 'selection', quote: currentQuote() });
+    }, 300);
+  });
+
+  document.addEventListener('click', function (event) {
+    var target = event.target;
+    var mark = target && target.closest ? target.closest('mark[data-highlight-id]') : null;
+    if (mark) {
+      event.preventDefault();
+      event.stopPropagation();
+      post({ type: 'highlightPressed', id: mark.getAttribute('data-highlight-id') });
+    }
+  }, true);
+
+  window.__newsHighlighter = {
+    apply: apply,
+    remove: remove,
+    clearSelection: function () {
+      var selection = window.getSelection();
+      if (selection) selection.removeAllRanges();
+    }
+  };
+  post({ type: 'highlighterReady' });
+})();
+true;
+`;
+
+/**
+ * ========== COMMANDS (WebView injectJavaScript) ==========
+ */
+
+// Mark the given highlights in the page
+export const applyHighlightsScript = (highlights: Highlight[]): string => {
+  const anchors = highlights.map(highlight => ({
+    id: highlight.id,
+    exact: highlight.text,
+    prefix: highlight.prefix || '',
+    suffix: highlight.suffix || '',
+    color: getPageColor(highlight.color),
+  }));
+  return `window.__newsHighlighter && window.__newsHighlighter.apply(${JSON.stringify(anchors)}); true;`;
+};
+
+export const removeHighlightScript = (highlightId: string): string =>
+  `window.__newsHighlighter && window.__newsHighlighter.remove(${JSON.stringify(highlightId)}); true;`;
+
+export const CLEAR_SELECTION_SCRIPT = 'window.__newsHighlighter && window.__newsHighlighter.clearSelection(); true;';
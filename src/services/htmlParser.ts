@@ -0,0 +1,285 @@
+/**
+ * Small, forgiving HTML parser. It builds a plain node tree from real-world
+ * pages (unclosed paragraphs, stray end tags, inline scripts) without a DOM,
+ * which React Native does not have.
+ */
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string; // Lowercase tag name
+  attributes: { [name: string]: string };
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string; // Entities already decoded
+  parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// Elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript', 'template', 'svg']);
+
+const BLOCK_ELEMENTS = [
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+];
+
+// Open elements that end implicitly when one of these tags starts
+const IMPLICIT_END: { [tag: string]: string[] } = {
+  p: BLOCK_ELEMENTS,
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th', 'tr'],
+  th: ['td', 'th', 'tr'],
+  option: ['option', 'optgroup'],
+  thead: ['tbody', 'tfoot'],
+  tbody: ['tbody', 'tfoot'],
+};
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', deg: '°', times: '×', euro: '€', pound: '£',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ATTRIBUTE_PATTERN = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+const parseAttributes = (source: string): { [name: string]: string } => {
+  const attributes: { [name: string]: string } = {};
+  let match: RegExpExecArray | null;
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+};
+
+// Index of the `>` that ends a tag starting at `start`, skipping quoted attribute values
+const findTagEnd = (html: string, start: number): number => {
+  let quote: string | null = null;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+export const createElement = (
+  tag: string,
+  attributes: { [name: string]: string } = {},
+  parent: HtmlElement | null = null
+): HtmlElement => ({ type: 'element', tag, attributes, children: [], parent });
+
+/**
+ * Parse a document into a tree. The returned root is a synthetic `#document` element.
+ */
+export const parseHtml = (html: string): HtmlElement => {
+  const root = createElement('#document');
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    const parent = current();
+    const last = parent.children[parent.children.length - 1];
+    if (last && last.type === 'text') {
+      last.text += text;
+    } else {
+      parent.children.push({ type: 'text', text, parent });
+    }
+  };
+
+  const closeElement = (tag: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+    // Stray end tag: ignore it
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const tagStart = html.indexOf('<', position);
+    if (tagStart === -1) {
+      appendText(decodeEntities(html.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(position, tagStart)));
+
+    // Comments, doctype and processing instructions
+    if (html.startsWith('<!--', tagStart)) {
+      const end = html.indexOf('-->', tagStart + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[tagStart + 1] === '!' || html[tagStart + 1] === '?') {
+      const end = html.indexOf('>', tagStart);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const isEndTag = html[tagStart + 1] === '/';
+    const nameMatch = /^[a-zA-Z][a-zA-Z0-9:-]*/.exec(html.slice(tagStart + (isEndTag ? 2 : 1), tagStart + 64));
+    if (!nameMatch) {
+      // A lone "<" in text
+      appendText('<');
+      position = tagStart + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(html, tagStart);
+    if (tagEnd === -1) {
+      break;
+    }
+    const tag = nameMatch[0].toLowerCase();
+    position = tagEnd + 1;
+
+    if (isEndTag) {
+      closeElement(tag);
+      continue;
+    }
+
+    // Close elements this tag implicitly ends (e.g. an open <p> when a <div> starts)
+    while (stack.length > 1) {
+      const endsOn = IMPLICIT_END[current().tag];
+      if (endsOn && endsOn.includes(tag)) {
+        stack.pop();
+      } else {
+        break;
+      }
+    }
+
+    const attributeSource = html.slice(tagStart + 1 + nameMatch[0].length, tagEnd);
+    const element = createElement(tag, parseAttributes(attributeSource), current());
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const closing = html.toLowerCase().indexOf(`</${tag}`, position);
+      const end = closing === -1 ? html.length : closing;
+      const text = html.slice(position, end);
+      if (text) {
+        element.children.push({ type: 'text', text: tag === 'title' ? decodeEntities(text) : text, parent: element });
+      }
+      const closeEnd = closing === -1 ? -1 : html.indexOf('>', closing);
+      position = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_ELEMENTS.has(tag) && !attributeSource.trim().endsWith('/')) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+};
+
+/**
+ * ========== TREE HELPERS ==========
+ */
+
+export const isElement = (node: HtmlNode): node is HtmlElement => node.type === 'element';
+
+// Every element below `node`, in document order
+export const getElements = (node: HtmlElement, tags?: string[]): HtmlElement[] => {
+  const result: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    element.children.forEach(child => {
+      if (isElement(child)) {
+        if (!tags || tags.includes(child.tag)) {
+          result.push(child);
+        }
+        visit(child);
+      }
+    });
+  };
+  visit(node);
+  return result;
+};
+
+export const findElement = (node: HtmlElement, tag: string): HtmlElement | null =>
+  getElements(node, [tag])[0] || null;
+
+// Text content with whitespace collapsed
+export const getText = (node: HtmlNode): string => {
+  const parts: string[] = [];
+  const visit = (current: HtmlNode) => {
+    if (current.type === 'text') {
+      parts.push(current.text);
+    } else if (!RAW_TEXT_ELEMENTS.has(current.tag) || current.tag === 'title') {
+      current.children.forEach(visit);
+    }
+  };
+  visit(node);
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+};
+
+export const removeNode = (node: HtmlNode): void => {
+  if (node.parent) {
+    node.parent.children = node.parent.children.filter(child => child !== node);
+    node.parent = null;
+  }
+};
+
+// Replace an element by its children
+export const unwrapElement = (element: HtmlElement): void => {
+  const parent = element.parent;
+  if (!parent) return;
+  const index = parent.children.indexOf(element);
+  element.children.forEach(child => {
+    child.parent = parent;
+  });
+  parent.children.splice(index, 1, ...element.children);
+  element.children = [];
+  element.parent = null;
+};
+
+export const serializeHtml = (node: HtmlNode): string => {
+  if (node.type === 'text') {
+    return escapeHtml(node.text);
+  }
+  const content = node.children.map(serializeHtml).join('');
+  if (node.tag === '#document') {
+    return content;
+  }
+  const attributes = Object.keys(node.attributes)
+    .map(name => ` ${name}="${escapeHtml(node.attributes[name])}"`)
+    .join('');
+  if (VOID_ELEMENTS.has(node.tag)) {
+    return `<${node.tag}${attributes}>`;
+  }
+  return `<${node.tag}${attributes}>${content}</${node.tag}>`;
+};
@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MIGRATIONS } from './migrations';
+
+const SCHEMA_VERSIONS_KEY = '@schema_versions';
+
+export interface SchemaVersions {
+  [storeKey: string]: number;
+}
+
+/**
+ * Storage handed to a migration. Reads see the migration's own pending writes;
+ * nothing is persisted until the whole migration has succeeded.
+ */
+export interface MigrationContext {
+  get: <T = any>(key: string) => Promise<T | null>;
+  set: (key: string, value: any) => void;
+  remove: (key: string) => void;
+}
+
+export interface Migration {
+  store: string; // Storage key whose schema version this migration advances
+  version: number; // Schema version of `store` after this migration
+  description: string;
+  // Only moves data to another storage backend without changing its shape;
+  // skipped (but still counted) when migrating backup archives
+  storageOnly?: boolean;
+  // Must be idempotent: running it on already-migrated data changes nothing
+  migrate: (context: MigrationContext) => Promise<void>;
+}
+
+export interface MigrationReport {
+  applied: Migration[];
+  failed: { migration: Migration; error: string } | null;
+}
+
+const REMOVED = Symbol('removed');
+
+/**
+ * Collects the writes of one migration so they can be applied in one go,
+ * or dropped if the migration throws.
+ */
+class StagedStorage implements MigrationContext {
+  readonly changes = new Map<string, any>();
+
+  constructor(private read: (key: string) => Promise<any>) {}
+
+  get = async <T = any>(key: string): Promise<T | null> => {
+    if (this.changes.has(key)) {
+      const value = this.changes.get(key);
+      return value === REMOVED ? null : value;
+    }
+    return this.read(key);
+  };
+
+  set = (key: string, value: any) => {
+    this.changes.set(key, value === null || value === undefined ? REMOVED : value);
+  };
+
+  remove = (key: string) => {
+    this.changes.set(key, REMOVED);
+  };
+}
+
+const readStoredValue = async (key: string): Promise<any> => {
+  const raw = await AsyncStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${key} does not contain valid JSON`);
+  }
+};
+
+class MigrationService {
+  // Get the schema version recorded for every store on this device
+  async getSchemaVersions(): Promise<SchemaVersions> {
+    try {
+      const data = await AsyncStorage.getItem(SCHEMA_VERSIONS_KEY);
+      if (data) {
+        return JSON.parse(data);
+      }
+      return {};
+    } catch (error) {
+      console.error('Error getting schema versions:', error);
+      return {};
+    }
+  }
+
+  // Schema version each store has once every migration has run
+  getLatestVersions(): SchemaVersions {
+    const versions: SchemaVersions = {};
+    MIGRATIONS.forEach(migration => {
+      versions[migration.store] = Math.max(versions[migration.store] || 0, migration.version);
+    });
+    return versions;
+  }
+
+  /**
+   * Run every pending migration in order. Each migration is applied atomically:
+   * if it throws, or writing its result fails, the stores it touched are put
+   * back as they were and no later migration runs.
+   */
+  async runMigrations(): Promise<MigrationReport> {
+    const versions = await this.getSchemaVersions();
+    const report: MigrationReport = { applied: [], failed: null };
+
+    for (const migration of MIGRATIONS) {
+      if ((versions[migration.store] || 0) >= migration.version) {
+        continue;
+      }
+
+      try {
+        const staged = new StagedStorage(readStoredValue);
+        await migration.migrate(staged);
+
+        const nextVersions = { ...versions, [migration.store]: migration.version };
+        await this.commit(staged.changes, nextVersions);
+
+        versions[migration.store] = migration.version;
+        report.applied.push(migration);
+      } catch (error: any) {
+        console.error(`Migration failed (${migration.store} v${migration.version}):`, error);
+        report.failed = { migration, error: error?.message || String(error) };
+        break;
+      }
+    }
+
+    if (report.applied.length > 0) {
+      console.log(`Applied ${report.applied.length} storage migration(s)`);
+    }
+    return report;
+  }
+
+  /**
+   * Bring data from another device (e.g. a backup archive) up to the current
+   * schema in memory. `data` maps storage keys to parsed values.
+   */
+  async migrateData(
+    data: { [key: string]: any },
+    versions: SchemaVersions
+  ): Promise<{ [key: string]: any }> {
+    const latest = this.getLatestVersions();
+    Object.keys(versions).forEach(store => {
+      if (versions[store] > (latest[store] || 0)) {
+        throw new Error('This data was written by a newer version of the app.');
+      }
+    });
+
+    const result = { ...data };
+    const current = { ...versions };
+
+    for (const migration of MIGRATIONS) {
+      if ((current[migration.store] || 0) >= migration.version) {
+        continue;
+      }
+      if (migration.storageOnly) {
+        current[migration.store] = migration.version;
+        continue;
+      }
+
+      const staged = new StagedStorage(async (key) => result[key] ?? null);
+      await migration.migrate(staged);
+
+      staged.changes.forEach((value, key) => {
+        if (value === REMOVED) {
+          delete result[key];
+        } else {
+          result[key] = value;
+        }
+      });
+      current[migration.store] = migration.version;
+    }
+
+    return result;
+  }
+
+  /**
+   * ========== HELPERS ==========
+   */
+
+  // Write a migration's changes together with the new versions; restore the old values on failure
+  private async commit(changes: Map<string, any>, versions: SchemaVersions): Promise<void> {
+    const keys = [...Array.from(changes.keys()), SCHEMA_VERSIONS_KEY];
+    const snapshot = await AsyncStorage.multiGet(keys);
+
+    const toSet: [string, string][] = [[SCHEMA_VERSIONS_KEY, JSON.stringify(versions)]];
+    const toRemove: string[] = [];
+    changes.forEach((value, key) => {
+      if (value === REMOVED) {
+        toRemove.push(key);
+      } else {
+        toSet.push([key, JSON.stringify(value)]);
+      }
+    });
+
+    try {
+      if (toRemove.length > 0) {
+        await AsyncStorage.multiRemove(toRemove);
+      }
+      await AsyncStorage.multiSet(toSet);
+    } catch (error) {
+      const previous = snapshot.filter(([, value]) => value !== null) as [string, string][];
+      const missing = snapshot.filter(([, value]) => value === null).map(([key]) => key);
+      if (previous.length > 0) {
+        await AsyncStorage.multiSet(previous);
+      }
+      if (missing.length > 0) {
+        await AsyncStorage.multiRemove(missing);
+      }
+      throw error;
+    }
+  }
+}
+
+export const migrationService = new MigrationService();
@@ -0,0 +1,361 @@
+import { Migration, MigrationContext } from './migrationService';
+import { tagsService, Collection, ArticleTag, LegacyCollection, LegacyArticleTag } from './tagsService';
+import { notesService } from './notesService';
+import { readingHistoryService } from './readingHistoryService';
+import { bookmarkStorage } from './bookmarkStorage';
+import { searchService } from './searchService';
+import { DEFAULT_SUMMARY_OPTIONS } from './summaryProviders';
+import { getArticleId } from './articleUrl';
+
+/**
+ * Ordered list of storage migrations. Append new entries at the end and never
+ * edit one that has shipped: devices record the last version they applied
+ * per store and only run what comes after it.
+ */
+
+// Rewrite every item of a list store; items the callback returns null for are dropped
+const mapList = async (
+  context: MigrationContext,
+  key: string,
+  update: (item: any) => any | null
+): Promise<void> => {
+  const items = await context.get<any[]>(key);
+  if (items === null) return;
+
+  const list = Array.isArray(items) ? items : [];
+  context.set(
+    key,
+    list
+      .filter(item => item && typeof item === 'object')
+      .map(update)
+      .filter(item => item !== null)
+  );
+};
+
+// Copy a list store into the database, then drop the AsyncStorage copy.
+// The database write replaces the whole table, so a retried run gives the same result.
+const moveToDatabase = (key: string, write: (items: any[]) => Promise<void>) =>
+  async (context: MigrationContext): Promise<void> => {
+    const items = await context.get<any[]>(key);
+    if (items === null) return;
+
+    await write(Array.isArray(items) ? items : []);
+    context.remove(key);
+  };
+
+const isString = (value: any): value is string => typeof value === 'string' && value.length > 0;
+const asNumber = (value: any, fallback: number): number =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+// Collections listed article URLs before articles had IDs
+const withArticleIds = (collection: Collection | LegacyCollection): Collection => {
+  if (!('articleUrls' in collection) || !Array.isArray(collection.articleUrls)) return collection as Collection;
+  const { articleUrls, ...rest } = collection;
+  return { ...rest, articleIds: Array.from(new Set(articleUrls.filter(isString).map(getArticleId))) };
+};
+
+// Tag assignments were keyed by article URL; URLs that now share an ID are merged
+const withArticleIdTags = (articleTags: (ArticleTag | LegacyArticleTag)[]): ArticleTag[] => {
+  const tagsByArticle = new Map<string, Set<string>>();
+  articleTags.forEach(articleTag => {
+    const url = 'articleId' in articleTag ? articleTag.articleId : articleTag.articleUrl;
+    if (!isString(url) || !Array.isArray(articleTag.tagIds)) return;
+
+    const articleId = getArticleId(url);
+    if (!tagsByArticle.has(articleId)) {
+      tagsByArticle.set(articleId, new Set());
+    }
+    articleTag.tagIds.forEach((tagId: string) => tagsByArticle.get(articleId)!.add(tagId));
+  });
+  return Array.from(tagsByArticle, ([articleId, tagIds]) => ({ articleId, tagIds: Array.from(tagIds) }));
+};
+
+export const MIGRATIONS: Migration[] = [
+  // ========== v1: fill in fields that older releases did not always write ==========
+  {
+    store: '@news_reader_bookmarks',
+    version: 1,
+    description: 'Drop bookmarks without a URL and default missing article fields',
+    migrate: (context) =>
+      mapList(context, '@news_reader_bookmarks', (article) =>
+        isString(article.url)
+          ? {
+              ...article,
+              source: article.source || { id: null, name: 'Unknown' },
+              title: article.title || article.url,
+              publishedAt: article.publishedAt || new Date(0).toISOString(),
+            }
+          : null
+      ),
+  },
+  {
+    store: '@collections',
+    version: 1,
+    description: 'Default missing collection fields',
+    migrate: (context) =>
+      mapList(context, '@collections', (collection) =>
+        isString(collection.id)
+          ? {
+              ...collection,
+              description: collection.description || '',
+              articleUrls: Array.isArray(collection.articleUrls) ? collection.articleUrls : [],
+              isSmartCollection: !!collection.isSmartCollection,
+              createdAt: asNumber(collection.createdAt, 0),
+              updatedAt: asNumber(collection.updatedAt, asNumber(collection.createdAt, 0)),
+            }
+          : null
+      ),
+  },
+  {
+    store: '@tags',
+    version: 1,
+    description: 'Drop tags without an id or name',
+    migrate: (context) =>
+      mapList(context, '@tags', (tag) =>
+        isString(tag.id) && isString(tag.name)
+          ? { ...tag, createdAt: asNumber(tag.createdAt, 0) }
+          : null
+      ),
+  },
+  {
+    store: '@article_tags',
+    version: 1,
+    description: 'Drop empty tag assignments',
+    migrate: (context) =>
+      mapList(context, '@article_tags', (articleTag) =>
+        isString(articleTag.articleUrl) && Array.isArray(articleTag.tagIds) && articleTag.tagIds.length > 0
+          ? articleTag
+          : null
+      ),
+  },
+  {
+    store: '@notes',
+    version: 1,
+    description: 'Default missing note fields',
+    migrate: (context) =>
+      mapList(context, '@notes', (note) =>
+        isString(note.id)
+          ? {
+              ...note,
+              articleTitle: note.articleTitle || '',
+              content: note.content || '',
+              createdAt: asNumber(note.createdAt, 0),
+              updatedAt: asNumber(note.updatedAt, asNumber(note.createdAt, 0)),
+            }
+          : null
+      ),
+  },
+  {
+    store: '@highlights',
+    version: 1,
+    description: 'Drop highlights without text',
+    migrate: (context) =>
+      mapList(context, '@highlights', (highlight) =>
+        isString(highlight.id) && isString(highlight.text)
+          ? { ...highlight, articleTitle: highlight.articleTitle || '', createdAt: asNumber(highlight.createdAt, 0) }
+          : null
+      ),
+  },
+  {
+    store: '@reading_history',
+    version: 1,
+    description: 'Default missing reading history fields',
+    migrate: (context) =>
+      mapList(context, '@reading_history', (item) =>
+        item.article && isString(item.article.url)
+          ? {
+              ...item,
+              readAt: asNumber(item.readAt, 0),
+              readingTime: asNumber(item.readingTime, 0),
+              category: item.category || 'general',
+              source: item.source || item.article.source?.name || 'Unknown',
+            }
+          : null
+      ),
+  },
+  {
+    store: '@summaries',
+    version: 1,
+    description: 'Default missing summary fields',
+    migrate: (context) =>
+      mapList(context, '@summaries', (summary) =>
+        isString(summary.articleUrl) && typeof summary.summary === 'string'
+          ? {
+              ...summary,
+              keyPoints: Array.isArray(summary.keyPoints) ? summary.keyPoints : [],
+              readingTime: asNumber(summary.readingTime, 0),
+              generatedAt: asNumber(summary.generatedAt, 0),
+              model: summary.model || '',
+            }
+          : null
+      ),
+  },
+
+  // ========== v2: move relational data into SQLite ==========
+  {
+    store: '@tags',
+    version: 2,
+    storageOnly: true,
+    description: 'Move tags into the database',
+    migrate: moveToDatabase('@tags', (items) => tagsService.replaceAllTags(items)),
+  },
+  {
+    store: '@article_tags',
+    version: 2,
+    storageOnly: true,
+    description: 'Move tag assignments into the database',
+    migrate: moveToDatabase('@article_tags', (items) => tagsService.replaceAllArticleTags(items)),
+  },
+  {
+    store: '@collections',
+    version: 2,
+    storageOnly: true,
+    description: 'Move collections into the database',
+    migrate: moveToDatabase('@collections', (items) => tagsService.replaceAllCollections(items)),
+  },
+  {
+    store: '@notes',
+    version: 2,
+    storageOnly: true,
+    description: 'Move notes into the database',
+    migrate: moveToDatabase('@notes', (items) => notesService.replaceAllNotes(items)),
+  },
+  {
+    store: '@highlights',
+    version: 2,
+    storageOnly: true,
+    description: 'Move highlights into the database',
+    migrate: moveToDatabase('@highlights', (items) => notesService.replaceAllHighlights(items)),
+  },
+  {
+    store: '@reading_history',
+    version: 2,
+    storageOnly: true,
+    description: 'Move reading history into the database',
+    migrate: moveToDatabase('@reading_history', (items) => readingHistoryService.replaceHistory(items)),
+  },
+  {
+    store: '@news_reader_bookmarks',
+    version: 2,
+    storageOnly: true,
+    description: 'Move bookmarks into the database',
+    migrate: moveToDatabase('@news_reader_bookmarks', (items) => bookmarkStorage.replaceAllBookmarks(items)),
+  },
+
+  // ========== v3: refer to articles by ID (see getArticleId) instead of URL ==========
+  {
+    store: '@collections',
+    version: 3,
+    description: 'List collection articles by ID',
+    migrate: (context) => mapList(context, '@collections', withArticleIds),
+  },
+  {
+    store: '@article_tags',
+    version: 3,
+    description: 'Key tag assignments by article ID',
+    migrate: async (context) => {
+      const items = await context.get<any[]>('@article_tags');
+      if (items === null) return;
+      context.set('@article_tags', withArticleIdTags(Array.isArray(items) ? items : []));
+    },
+  },
+  {
+    store: '@notes',
+    version: 3,
+    description: 'Add the article ID to notes',
+    migrate: (context) =>
+      mapList(context, '@notes', (note) =>
+        isString(note.articleUrl) ? { ...note, articleId: getArticleId(note.articleUrl) } : null
+      ),
+  },
+  {
+    store: '@highlights',
+    version: 3,
+    description: 'Add the article ID to highlights',
+    migrate: (context) =>
+      mapList(context, '@highlights', (highlight) =>
+        isString(highlight.articleUrl) ? { ...highlight, articleId: getArticleId(highlight.articleUrl) } : null
+      ),
+  },
+  {
+    store: '@summaries',
+    version: 2,
+    storageOnly: true,
+    description: 'Add summaries to the search index',
+    migrate: async (context) => {
+      const items = await context.get<any[]>('@summaries');
+      await searchService.indexSummaries(Array.isArray(items) ? items : []);
+    },
+  },
+
+  // ========== v4: summary styles, lengths and languages ==========
+  {
+    store: '@summaries',
+    version: 3,
+    description: 'Record the options each summary was written with',
+    migrate: (context) =>
+      mapList(context, '@summaries', (summary) => ({
+        ...summary,
+        options: summary.options || {
+          ...DEFAULT_SUMMARY_OPTIONS,
+          maxKeyPoints: Array.isArray(summary.keyPoints) && summary.keyPoints.length > 0
+            ? summary.keyPoints.length
+            : DEFAULT_SUMMARY_OPTIONS.maxKeyPoints,
+        },
+      })),
+  },
+
+  // ========== v5: summary cache by content hash ==========
+  {
+    store: '@summaries',
+    version: 4,
+    description: 'Add content hashes and last use times to summaries',
+    migrate: (context) =>
+      mapList(context, '@summaries', (summary) => ({
+        ...summary,
+        // The text older summaries were written from is unknown, so they are never stale
+        contentHash: isString(summary.contentHash) ? summary.contentHash : '',
+        lastUsedAt: asNumber(summary.lastUsedAt, asNumber(summary.generatedAt, 0)),
+      })),
+  },
+
+  // ========== v6: named entities ==========
+  {
+    store: '@summaries',
+    version: 5,
+    description: 'Add people, organizations and places to summaries',
+    migrate: (context) =>
+      mapList(context, '@summaries', (summary) => ({
+        ...summary,
+        // Found again from the article text when it is next opened
+        entities: Array.isArray(summary.entities) ? summary.entities : [],
+      })),
+  },
+
+  // ========== v7: sentiment & framing ==========
+  {
+    store: '@summaries',
+    version: 6,
+    description: 'Add sources and sentiment, tone and framing analysis to summaries',
+    migrate: (context) =>
+      mapList(context, '@summaries', (summary) => ({
+        ...summary,
+        sourceName: isString(summary.sourceName) ? summary.sourceName : '',
+        // Analysed when the summary is next regenerated
+        analysis: summary.analysis && typeof summary.analysis === 'object' ? summary.analysis : null,
+      })),
+  },
+
+  // ========== v8: on-device summarizer ==========
+  {
+    store: '@summary_settings',
+    version: 1,
+    description: 'Replace the description-based provider with the on-device summarizer',
+    migrate: async (context) => {
+      const settings = await context.get<any>('@summary_settings');
+      if (settings && typeof settings === 'object' && settings.provider === 'fallback') {
+        context.set('@summary_settings', { ...settings, provider: 'local' });
+      }
+    },
+  },
+];
@@ -1,17 +1,33 @@
-import axios from 'axios';
-import { NewsApiResponse, Category } from '../types';
-import { NEWS_API_CONFIG } from '../constants/config';
+import { ArticlePage, Category, NewsProvider } from '../types';
 import { cacheStorage } from './cacheStorage';
+import { newsProviders, DEFAULT_PROVIDER_ID } from './newsProviders';
 
-const newsApiClient = axios.create({
-  baseURL: NEWS_API_CONFIG.baseUrl,
-  timeout: 10000,
-  headers: {
-    'X-Api-Key': NEWS_API_CONFIG.apiKey,
-  },
+let activeProvider: NewsProvider = newsProviders.get(DEFAULT_PROVIDER_ID)!;
+
+const emptyPage = (page: number): ArticlePage => ({
+  articles: [],
+  totalResults: 0,
+  page,
+  hasMore: false,
 });
 
 export const newsApi = {
+  /**
+   * Get the provider articles are currently fetched from
+   */
+  getProvider: (): NewsProvider => activeProvider,
+
+  /**
+   * Switch the active provider by id
+   */
+  setProvider: (providerId: string): void => {
+    const provider = newsProviders.get(providerId);
+    if (!provider) {
+      throw new Error(`Unknown news provider: ${providerId}`);
+    }
+    activeProvider = provider;
+  },
+
   /**
    * Fetch top headlines by category
    */
@@ -19,8 +35,17 @@ export const newsApi = {
     category: Category = 'general',
     page: number = 1,
     useCache: boolean = true
-  ): Promise<NewsApiResponse> => {
-    const cacheKey = cacheStorage.generateCacheKey('category', `${category}_page${page}`);
+  ): Promise<ArticlePage> => {
+    const provider = activeProvider;
+
+    if (!provider.capabilities.categories.includes(category)) {
+      throw new Error(`${provider.name} does not provide ${category} headlines.`);
+    }
+    if (page > 1 && !provider.capabilities.pagination) {
+      return emptyPage(page);
+    }
+
+    const cacheKey = cacheStorage.generateCacheKey('category', `${provider.id}_${category}_page${page}`);
 
     // Only use cache for page 1 to ensure fresh data on pagination
     if (useCache && page === 1) {
@@ -32,40 +57,30 @@ export const newsApi = {
     }
 
     try {
-      const response = await newsApiClient.get<NewsApiResponse>('/top-headlines', {
-        params: {
-          country: NEWS_API_CONFIG.country,
-          category: category,
-          pageSize: NEWS_API_CONFIG.pageSize,
-          page: page,
-        },
-      });
+      const result = await provider.getTopHeadlines(category, page);
 
       // Cache the response (only page 1 for simplicity)
       if (page === 1) {
-      await cacheStorage.cacheArticles(cacheKey, response.data, {
-        key: cacheKey,
-        category: category,
-      });
+        await cacheStorage.cacheArticles(cacheKey, result, {
+          key: cacheKey,
+          category: category,
+        });
       }
 
-      return response.data;
+      return result;
     } catch (error) {
       // If network fails, try to return cached data even if expired (only for page 1)
       if (page === 1) {
-      const cachedData = await cacheStorage.getCachedArticles(cacheKey);
-      if (cachedData) {
-        console.log('Network failed, using stale cache for category:', category);
-        return cachedData;
+        const cachedData = await cacheStorage.getCachedArticles(cacheKey);
+        if (cachedData) {
+          console.log('Network failed, using stale cache for category:', category);
+          return cachedData;
         }
       }
 
-      if (axios.isAxiosError(error)) {
-        throw new Error(
-          error.response?.data?.message || 'Failed to fetch news. Please check your connection.'
-        );
-      }
-      throw new Error('An unexpected error occurred while fetching news.');
+      throw error instanceof Error
+        ? error
+        : new Error('An unexpected error occurred while fetching news.');
     }
   },
 
@@ -76,8 +91,17 @@ export const newsApi = {
     query: string,
     page: number = 1,
     useCache: boolean = true
-  ): Promise<NewsApiResponse> => {
-    const cacheKey = cacheStorage.generateCacheKey('search', `${query}_page${page}`);
+  ): Promise<ArticlePage> => {
+    const provider = activeProvider;
+
+    if (!provider.capabilities.search) {
+      throw new Error(`${provider.name} does not support search.`);
+    }
+    if (page > 1 && !provider.capabilities.pagination) {
+      return emptyPage(page);
+    }
+
+    const cacheKey = cacheStorage.generateCacheKey('search', `${provider.id}_${query}_page${page}`);
 
     // Only use cache for page 1 to ensure fresh data on pagination
     if (useCache && page === 1) {
@@ -89,41 +113,30 @@ export const newsApi = {
     }
 
     try {
-      const response = await newsApiClient.get<NewsApiResponse>('/everything', {
-        params: {
-          q: query,
-          pageSize: NEWS_API_CONFIG.pageSize,
-          sortBy: 'publishedAt',
-          page: page,
-        },
-      });
+      const result = await provider.searchNews(query, page);
 
       // Cache the response (only page 1 for simplicity)
       if (page === 1) {
-      await cacheStorage.cacheArticles(cacheKey, response.data, {
-        key: cacheKey,
-        query: query,
-      });
+        await cacheStorage.cacheArticles(cacheKey, result, {
+          key: cacheKey,
+          query: query,
+        });
       }
 
-      return response.data;
+      return result;
     } catch (error) {
       // If network fails, try to return cached data even if expired (only for page 1)
       if (page === 1) {
-      const cachedData = await cacheStorage.getCachedArticles(cacheKey);
-      if (cachedData) {
-        console.log('Network failed, using stale cache for search:', query);
-        return cachedData;
+        const cachedData = await cacheStorage.getCachedArticles(cacheKey);
+        if (cachedData) {
+          console.log('Network failed, using stale cache for search:', query);
+          return cachedData;
         }
       }
 
-      if (axios.isAxiosError(error)) {
-        throw new Error(
-          error.response?.data?.message || 'Failed to search news. Please check your connection.'
-        );
-      }
-      throw new Error('An unexpected error occurred while searching.');
+      throw error instanceof Error
+        ? error
+        : new Error('An unexpected error occurred while searching.');
     }
   },
 };
-
@@ -0,0 +1,33 @@
+import { NewsProvider } from '../../types';
+import { newsApiProvider } from './newsApiProvider';
+
+export const DEFAULT_PROVIDER_ID = newsApiProvider.id;
+
+const registry = new Map<string, NewsProvider>([
+  [newsApiProvider.id, newsApiProvider],
+]);
+
+export const newsProviders = {
+  /**
+   * Register a provider (replaces any provider with the same id)
+   */
+  register: (provider: NewsProvider): void => {
+    registry.set(provider.id, provider);
+  },
+
+  /**
+   * Get a provider by id
+   */
+  get: (id: string): NewsProvider | null => {
+    return registry.get(id) || null;
+  },
+
+  /**
+   * Get all registered providers
+   */
+  getAll: (): NewsProvider[] => {
+    return Array.from(registry.values());
+  },
+};
+
+export { newsApiProvider };
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { ArticlePage, NewsApiResponse, NewsProvider } from '../../types';
+import { NEWS_API_CONFIG } from '../../constants/config';
+import { CATEGORIES } from '../../constants/categories';
+
+const newsApiClient = axios.create({
+  baseURL: NEWS_API_CONFIG.baseUrl,
+  timeout: 10000,
+  headers: {
+    'X-Api-Key': NEWS_API_CONFIG.apiKey,
+  },
+});
+
+/**
+ * Map a NewsAPI payload into a provider-neutral page of articles
+ */
+const toArticlePage = (data: NewsApiResponse, page: number): ArticlePage => {
+  const totalPages = Math.ceil(data.totalResults / NEWS_API_CONFIG.pageSize);
+  return {
+    articles: data.articles,
+    totalResults: data.totalResults,
+    page,
+    hasMore: page < totalPages && data.articles.length > 0,
+  };
+};
+
+/**
+ * NewsAPI.org provider (https://newsapi.org)
+ */
+export const newsApiProvider: NewsProvider = {
+  id: 'newsapi',
+  name: 'NewsAPI',
+  capabilities: {
+    categories: CATEGORIES.map(c => c.id),
+    search: true,
+    pagination: true,
+    pageSize: NEWS_API_CONFIG.pageSize,
+  },
+
+  getTopHeadlines: async (category, page) => {
+    try {
+      const response = await newsApiClient.get<NewsApiResponse>('/top-headlines', {
+        params: {
+          country: NEWS_API_CONFIG.country,
+          category: category,
+          pageSize: NEWS_API_CONFIG.pageSize,
+          page: page,
+        },
+      });
+      return toArticlePage(response.data, page);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to fetch news. Please check your connection.'
+        );
+      }
+      throw new Error('An unexpected error occurred while fetching news.');
+    }
+  },
+
+  searchNews: async (query, page) => {
+    try {
+      const response = await newsApiClient.get<NewsApiResponse>('/everything', {
+        params: {
+          q: query,
+          pageSize: NEWS_API_CONFIG.pageSize,
+          sortBy: 'publishedAt',
+          page: page,
+        },
+      });
+      return toArticlePage(response.data, page);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to search news. Please check your connection.'
+        );
+      }
+      throw new Error('An unexpected error occurred while searching.');
+    }
+  },
+};
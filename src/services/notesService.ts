@@ -1,13 +1,14 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Article } from '../types';
+import { SQLiteDatabase } from 'expo-sqlite';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-
-const NOTES_STORAGE_KEY = '@notes';
-const HIGHLIGHTS_STORAGE_KEY = '@highlights';
+import { getDatabase, runInTransaction } from './database';
+import { articleStore } from './articleStore';
+import { getArticleId } from './articleUrl';
 
 export interface Note {
   id: string;
+  articleId: string; // See getArticleId
   articleUrl: string;
   articleTitle: string;
   content: string;
@@ -17,14 +18,24 @@ export interface Note {
 
 export interface Highlight {
   id: string;
+  articleId: string; // See getArticleId
   articleUrl: string;
   articleTitle: string;
   text: string;
   color: string;
   note?: string;
+  prefix?: string; // Page text just before `text`, to find it again (see TextQuote)
+  suffix?: string; // Page text just after `text`
   createdAt: number;
 }
 
+// Where a highlight sits in the page: the exact text plus a little context on each side
+export interface TextQuote {
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
 // Highlight colors
 export const HIGHLIGHT_COLORS = [
   { name: 'Yellow', value: '#FFF176', light: '#FFF9C4' },
@@ -35,6 +46,67 @@ export const HIGHLIGHT_COLORS = [
   { name: 'Purple', value: '#BA68C8', light: '#E1BEE7' },
 ];
 
+interface NoteRow {
+  id: string;
+  article_id: string;
+  article_url: string;
+  article_title: string;
+  content: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface HighlightRow {
+  id: string;
+  article_id: string;
+  article_url: string;
+  article_title: string;
+  text: string;
+  color: string;
+  note: string | null;
+  prefix: string | null;
+  suffix: string | null;
+  created_at: number;
+}
+
+// Notes and highlights take the URL and title from the stored article
+const NOTE_SELECT = `
+  SELECT notes.*, articles.url AS article_url, articles.title AS article_title
+  FROM notes
+  JOIN articles ON articles.id = notes.article_id`;
+
+const HIGHLIGHT_SELECT = `
+  SELECT highlights.*, articles.url AS article_url, articles.title AS article_title
+  FROM highlights
+  JOIN articles ON articles.id = highlights.article_id`;
+
+const rowToNote = (row: NoteRow): Note => ({
+  id: row.id,
+  articleId: row.article_id,
+  articleUrl: row.article_url,
+  articleTitle: row.article_title,
+  content: row.content,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const rowToHighlight = (row: HighlightRow): Highlight => ({
+  id: row.id,
+  articleId: row.article_id,
+  articleUrl: row.article_url,
+  articleTitle: row.article_title,
+  text: row.text,
+  color: row.color,
+  note: row.note ?? undefined,
+  prefix: row.prefix ?? undefined,
+  suffix: row.suffix ?? undefined,
+  createdAt: row.created_at,
+});
+
+// LIKE pattern matching `query` anywhere, with wildcards in the query taken literally
+const likePattern = (query: string): string =>
+  `%${query.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+
 class NotesService {
   /**
    * ========== NOTES MANAGEMENT ==========
@@ -43,11 +115,9 @@ class NotesService {
   // Get all notes
   async getNotes(): Promise<Note[]> {
     try {
-      const data = await AsyncStorage.getItem(NOTES_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<NoteRow>(`${NOTE_SELECT} ORDER BY notes.created_at DESC, notes.rowid DESC`);
+      return rows.map(rowToNote);
     } catch (error) {
       console.error('Error getting notes:', error);
       return [];
@@ -57,8 +127,12 @@ class NotesService {
   // Get notes for specific article
   async getNotesForArticle(articleUrl: string): Promise<Note[]> {
     try {
-      const allNotes = await this.getNotes();
-      return allNotes.filter(note => note.articleUrl === articleUrl);
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<NoteRow>(
+        `${NOTE_SELECT} WHERE notes.article_id = ? ORDER BY notes.created_at DESC, notes.rowid DESC`,
+        getArticleId(articleUrl)
+      );
+      return rows.map(rowToNote);
     } catch (error) {
       console.error('Error getting notes for article:', error);
       return [];
@@ -72,10 +146,9 @@ class NotesService {
     content: string
   ): Promise<Note> {
     try {
-      const notes = await this.getNotes();
-      
       const newNote: Note = {
         id: Date.now().toString(),
+        articleId: getArticleId(articleUrl),
         articleUrl,
         articleTitle,
         content: content.trim(),
@@ -83,8 +156,13 @@ class NotesService {
         updatedAt: Date.now(),
       };
 
-      notes.unshift(newNote);
-      await AsyncStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+      await runInTransaction(async (db) => {
+        await articleStore.ensureArticle(articleUrl, articleTitle, db);
+        await db.runAsync(
+          'INSERT INTO notes (id, article_id, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+          newNote.id, newNote.articleId, newNote.content, newNote.createdAt, newNote.updatedAt
+        );
+      });
       return newNote;
     } catch (error) {
       console.error('Error creating note:', error);
@@ -95,17 +173,15 @@ class NotesService {
   // Update a note
   async updateNote(noteId: string, content: string): Promise<void> {
     try {
-      const notes = await this.getNotes();
-      const index = notes.findIndex(n => n.id === noteId);
-      
-      if (index === -1) {
+      const db = await getDatabase();
+      const result = await db.runAsync(
+        'UPDATE notes SET content = ?, updated_at = ? WHERE id = ?',
+        content.trim(), Date.now(), noteId
+      );
+
+      if (result.changes === 0) {
         throw new Error('Note not found');
       }
-
-      notes[index].content = content.trim();
-      notes[index].updatedAt = Date.now();
-      
-      await AsyncStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
     } catch (error) {
       console.error('Error updating note:', error);
       throw error;
@@ -115,9 +191,10 @@ class NotesService {
   // Delete a note
   async deleteNote(noteId: string): Promise<void> {
     try {
-      const notes = await this.getNotes();
-      const filtered = notes.filter(n => n.id !== noteId);
-      await AsyncStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(filtered));
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM notes WHERE id = ?', noteId);
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error deleting note:', error);
       throw error;
@@ -127,13 +204,15 @@ class NotesService {
   // Search notes
   async searchNotes(query: string): Promise<Note[]> {
     try {
-      const allNotes = await this.getNotes();
-      const lowerQuery = query.toLowerCase();
-      
-      return allNotes.filter(note =>
-        note.content.toLowerCase().includes(lowerQuery) ||
-        note.articleTitle.toLowerCase().includes(lowerQuery)
+      const db = await getDatabase();
+      const pattern = likePattern(query);
+      const rows = await db.getAllAsync<NoteRow>(
+        `${NOTE_SELECT}
+         WHERE LOWER(notes.content) LIKE ? ESCAPE '\\' OR LOWER(articles.title) LIKE ? ESCAPE '\\'
+         ORDER BY notes.created_at DESC, notes.rowid DESC`,
+        pattern, pattern
       );
+      return rows.map(rowToNote);
     } catch (error) {
       console.error('Error searching notes:', error);
       return [];
@@ -147,11 +226,9 @@ class NotesService {
   // Get all highlights
   async getHighlights(): Promise<Highlight[]> {
     try {
-      const data = await AsyncStorage.getItem(HIGHLIGHTS_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<HighlightRow>(`${HIGHLIGHT_SELECT} ORDER BY highlights.created_at DESC, highlights.rowid DESC`);
+      return rows.map(rowToHighlight);
     } catch (error) {
       console.error('Error getting highlights:', error);
       return [];
@@ -161,37 +238,56 @@ class NotesService {
   // Get highlights for specific article
   async getHighlightsForArticle(articleUrl: string): Promise<Highlight[]> {
     try {
-      const allHighlights = await this.getHighlights();
-      return allHighlights.filter(h => h.articleUrl === articleUrl);
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<HighlightRow>(
+        `${HIGHLIGHT_SELECT} WHERE highlights.article_id = ? ORDER BY highlights.created_at DESC, highlights.rowid DESC`,
+        getArticleId(articleUrl)
+      );
+      return rows.map(rowToHighlight);
     } catch (error) {
       console.error('Error getting highlights for article:', error);
       return [];
     }
   }
 
-  // Create a new highlight
+  // Create a new highlight; `context` is the page text around it (see TextQuote)
   async createHighlight(
     articleUrl: string,
     articleTitle: string,
     text: string,
     color: string = HIGHLIGHT_COLORS[0].value,
-    note?: string
+    note?: string,
+    context?: { prefix: string; suffix: string }
   ): Promise<Highlight> {
     try {
-      const highlights = await this.getHighlights();
-      
       const newHighlight: Highlight = {
         id: Date.now().toString(),
+        articleId: getArticleId(articleUrl),
         articleUrl,
         articleTitle,
         text: text.trim(),
         color,
-        note: note?.trim(),
+        note: note?.trim() || undefined,
+        prefix: context?.prefix,
+        suffix: context?.suffix,
         createdAt: Date.now(),
       };
 
-      highlights.unshift(newHighlight);
-      await AsyncStorage.setItem(HIGHLIGHTS_STORAGE_KEY, JSON.stringify(highlights));
+      await runInTransaction(async (db) => {
+        await articleStore.ensureArticle(articleUrl, articleTitle, db);
+        await db.runAsync(
+          `INSERT INTO highlights (id, article_id, text, color, note, prefix, suffix, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          newHighlight.id,
+          newHighlight.articleId,
+          newHighlight.text,
+          newHighlight.color,
+          newHighlight.note ?? null,
+          newHighlight.prefix ?? null,
+          newHighlight.suffix ?? null,
+          newHighlight.createdAt
+        );
+      });
       return newHighlight;
     } catch (error) {
       console.error('Error creating highlight:', error);
@@ -205,18 +301,22 @@ class NotesService {
     updates: { text?: string; color?: string; note?: string }
   ): Promise<void> {
     try {
-      const highlights = await this.getHighlights();
-      const index = highlights.findIndex(h => h.id === highlightId);
-      
-      if (index === -1) {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<HighlightRow>(`${HIGHLIGHT_SELECT} WHERE highlights.id = ?`, highlightId);
+
+      if (!row) {
         throw new Error('Highlight not found');
       }
 
-      if (updates.text) highlights[index].text = updates.text.trim();
-      if (updates.color) highlights[index].color = updates.color;
-      if (updates.note !== undefined) highlights[index].note = updates.note?.trim();
-      
-      await AsyncStorage.setItem(HIGHLIGHTS_STORAGE_KEY, JSON.stringify(highlights));
+      const highlight = rowToHighlight(row);
+      if (updates.text) highlight.text = updates.text.trim();
+      if (updates.color) highlight.color = updates.color;
+      if (updates.note !== undefined) highlight.note = updates.note?.trim();
+
+      await db.runAsync(
+        'UPDATE highlights SET text = ?, color = ?, note = ? WHERE id = ?',
+        highlight.text, highlight.color, highlight.note ?? null, highlightId
+      );
     } catch (error) {
       console.error('Error updating highlight:', error);
       throw error;
@@ -226,9 +326,10 @@ class NotesService {
   // Delete a highlight
   async deleteHighlight(highlightId: string): Promise<void> {
     try {
-      const highlights = await this.getHighlights();
-      const filtered = highlights.filter(h => h.id !== highlightId);
-      await AsyncStorage.setItem(HIGHLIGHTS_STORAGE_KEY, JSON.stringify(filtered));
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM highlights WHERE id = ?', highlightId);
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error deleting highlight:', error);
       throw error;
@@ -238,14 +339,16 @@ class NotesService {
   // Search highlights
   async searchHighlights(query: string): Promise<Highlight[]> {
     try {
-      const allHighlights = await this.getHighlights();
-      const lowerQuery = query.toLowerCase();
-      
-      return allHighlights.filter(highlight =>
-        highlight.text.toLowerCase().includes(lowerQuery) ||
-        highlight.note?.toLowerCase().includes(lowerQuery) ||
-        highlight.articleTitle.toLowerCase().includes(lowerQuery)
+      const db = await getDatabase();
+      const pattern = likePattern(query);
+      const rows = await db.getAllAsync<HighlightRow>(
+        `${HIGHLIGHT_SELECT}
+         WHERE LOWER(highlights.text) LIKE ? ESCAPE '\\' OR LOWER(highlights.note) LIKE ? ESCAPE '\\'
+           OR LOWER(articles.title) LIKE ? ESCAPE '\\'
+         ORDER BY highlights.created_at DESC, highlights.rowid DESC`,
+        pattern, pattern, pattern
       );
+      return rows.map(rowToHighlight);
     } catch (error) {
       console.error('Error searching highlights:', error);
       return [];
@@ -433,17 +536,25 @@ class NotesService {
     articlesWithHighlights: number;
   }> {
     try {
-      const notes = await this.getNotes();
-      const highlights = await this.getHighlights();
-
-      const uniqueArticlesWithNotes = new Set(notes.map(n => n.articleUrl));
-      const uniqueArticlesWithHighlights = new Set(highlights.map(h => h.articleUrl));
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{
+        totalNotes: number;
+        totalHighlights: number;
+        articlesWithNotes: number;
+        articlesWithHighlights: number;
+      }>(
+        `SELECT
+           (SELECT COUNT(*) FROM notes) AS totalNotes,
+           (SELECT COUNT(*) FROM highlights) AS totalHighlights,
+           (SELECT COUNT(DISTINCT article_id) FROM notes) AS articlesWithNotes,
+           (SELECT COUNT(DISTINCT article_id) FROM highlights) AS articlesWithHighlights`
+      );
 
       return {
-        totalNotes: notes.length,
-        totalHighlights: highlights.length,
-        articlesWithNotes: uniqueArticlesWithNotes.size,
-        articlesWithHighlights: uniqueArticlesWithHighlights.size,
+        totalNotes: row?.totalNotes || 0,
+        totalHighlights: row?.totalHighlights || 0,
+        articlesWithNotes: row?.articlesWithNotes || 0,
+        articlesWithHighlights: row?.articlesWithHighlights || 0,
       };
     } catch (error) {
       console.error('Error getting statistics:', error);
@@ -459,7 +570,10 @@ class NotesService {
   // Clear all notes
   async clearAllNotes(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(NOTES_STORAGE_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM notes');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing notes:', error);
       throw error;
@@ -469,7 +583,10 @@ class NotesService {
   // Clear all highlights
   async clearAllHighlights(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(HIGHLIGHTS_STORAGE_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM highlights');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing highlights:', error);
       throw error;
@@ -478,9 +595,60 @@ class NotesService {
 
   // Get combined count for article
   async getArticleAnnotationCount(articleUrl: string): Promise<number> {
-    const notes = await this.getNotesForArticle(articleUrl);
-    const highlights = await this.getHighlightsForArticle(articleUrl);
-    return notes.length + highlights.length;
+    try {
+      const db = await getDatabase();
+      const articleId = getArticleId(articleUrl);
+      const row = await db.getFirstAsync<{ count: number }>(
+        `SELECT
+           (SELECT COUNT(*) FROM notes WHERE article_id = ?) +
+           (SELECT COUNT(*) FROM highlights WHERE article_id = ?) AS count`,
+        articleId, articleId
+      );
+      return row?.count || 0;
+    } catch (error) {
+      console.error('Error getting annotation count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * ========== BULK REPLACE (storage migrations & backup restore) ==========
+   */
+
+  // Replace every note; articles not stored yet are created from the note's URL and title
+  async replaceAllNotes(notes: Note[], transaction?: SQLiteDatabase): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM notes');
+      for (const note of notes) {
+        const articleId = await articleStore.ensureArticle(note.articleUrl, note.articleTitle, db);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO notes (id, article_id, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+          note.id, articleId, note.content, note.createdAt, note.updatedAt
+        );
+      }
+    }, transaction);
+  }
+
+  // Replace every highlight; articles not stored yet are created from the highlight's URL and title
+  async replaceAllHighlights(highlights: Highlight[], transaction?: SQLiteDatabase): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM highlights');
+      for (const highlight of highlights) {
+        const articleId = await articleStore.ensureArticle(highlight.articleUrl, highlight.articleTitle, db);
+        await db.runAsync(
+          `INSERT OR REPLACE INTO highlights (id, article_id, text, color, note, prefix, suffix, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          highlight.id,
+          articleId,
+          highlight.text,
+          highlight.color,
+          highlight.note ?? null,
+          highlight.prefix ?? null,
+          highlight.suffix ?? null,
+          highlight.createdAt
+        );
+      }
+    }, transaction);
   }
 }
 
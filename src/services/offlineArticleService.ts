@@ -0,0 +1,312 @@
+import * as FileSystem from 'expo-file-system';
+import axios from 'axios';
+import { Article } from '../types';
+import { Theme } from '../constants/theme';
+import { getDatabase, runInTransaction } from './database';
+import { articleStore } from './articleStore';
+import { getArticleId } from './articleUrl';
+import { extractArticle, ExtractedArticle } from './readability';
+import { escapeHtml } from './htmlParser';
+
+export interface OfflineArticle {
+  articleId: string;
+  url: string;
+  title: string;
+  byline: string | null;
+  excerpt: string | null;
+  directory: string; // Absolute file:// URI of the folder holding the page and its images
+  size: number; // Bytes on disk
+  imageCount: number;
+  savedAt: number;
+}
+
+interface OfflineArticleRow {
+  article_id: string;
+  url: string;
+  directory: string;
+  title: string;
+  byline: string | null;
+  excerpt: string | null;
+  size: number;
+  image_count: number;
+  saved_at: number;
+}
+
+// Saved pages live in <documents>/offline/<folder>/ as article.html plus img-N files.
+// Only the folder name is stored: the documents path can change between app updates.
+const OFFLINE_DIRECTORY = 'offline/';
+const CONTENT_FILE = 'article.html';
+const MAX_IMAGES = 30;
+
+const pageClient = axios.create({
+  timeout: 20000,
+  responseType: 'text',
+  transformResponse: (data) => data,
+  headers: {
+    Accept: 'text/html, application/xhtml+xml;q=0.9, */*;q=0.8',
+  },
+});
+
+const getRootDirectory = (): string => `${FileSystem.documentDirectory}${OFFLINE_DIRECTORY}`;
+
+const rowToOfflineArticle = (row: OfflineArticleRow): OfflineArticle => ({
+  articleId: row.article_id,
+  url: row.url,
+  title: row.title,
+  byline: row.byline,
+  excerpt: row.excerpt,
+  directory: `${getRootDirectory()}${row.directory}/`,
+  size: row.size,
+  imageCount: row.image_count,
+  savedAt: row.saved_at,
+});
+
+const OFFLINE_SELECT = `
+  SELECT offline_articles.*, articles.url FROM offline_articles
+  JOIN articles ON articles.id = offline_articles.article_id`;
+
+// File extension for a downloaded image, from its URL
+const getImageExtension = (url: string): string => {
+  const match = /\.(jpe?g|png|gif|webp|avif|svg)(?:[?#]|$)/i.exec(url);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+const getFileSize = async (uri: string): Promise<number> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists && !info.isDirectory ? info.size : 0;
+};
+
+class OfflineArticleService {
+  /**
+   * ========== SAVING ==========
+   */
+
+  // Download a page and extract its readable content; null when none is found
+  async fetchArticle(url: string): Promise<ExtractedArticle | null> {
+    const response = await pageClient.get<string>(url);
+    return extractArticle(response.data, url);
+  }
+
+  /**
+   * Download an article, keep only its readable content and store it with its
+   * images so it can be read without a connection. Saving again refreshes the copy.
+   */
+  async saveForOffline(article: Article): Promise<OfflineArticle> {
+    const extracted = await this.fetchArticle(article.url);
+    if (!extracted) {
+      throw new Error('Could not find the article text on this page');
+    }
+
+    const folder = Date.now().toString();
+    const directory = `${getRootDirectory()}${folder}/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    try {
+      // Point image tags at local copies; images that fail to download keep their web address
+      let content = extracted.content;
+      let size = 0;
+      let imageCount = 0;
+      for (const imageUrl of extracted.images.slice(0, MAX_IMAGES)) {
+        if (!/^https?:/i.test(imageUrl)) continue;
+        const fileName = `img-${imageCount + 1}.${getImageExtension(imageUrl)}`;
+        try {
+          const result = await FileSystem.downloadAsync(imageUrl, directory + fileName);
+          if (result.status < 200 || result.status >= 300) {
+            await FileSystem.deleteAsync(result.uri, { idempotent: true });
+            continue;
+          }
+          size += await getFileSize(result.uri);
+          imageCount++;
+          content = content.split(`src="${escapeHtml(imageUrl)}"`).join(`src="${fileName}"`);
+        } catch (error) {
+          console.error('Error downloading image:', error);
+        }
+      }
+
+      await FileSystem.writeAsStringAsync(directory + CONTENT_FILE, content, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      size += await getFileSize(directory + CONTENT_FILE);
+
+      const previous = await this.getOfflineArticle(article.url);
+      const articleId = getArticleId(article.url);
+      const savedAt = Date.now();
+      await runInTransaction(async (db) => {
+        await articleStore.saveArticle(article, db);
+        await db.runAsync(
+          `INSERT OR REPLACE INTO offline_articles
+             (article_id, directory, title, byline, excerpt, size, image_count, saved_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          articleId,
+          folder,
+          extracted.title || article.title,
+          extracted.byline ?? article.author ?? null,
+          extracted.excerpt ?? article.description ?? null,
+          size,
+          imageCount,
+          savedAt
+        );
+      });
+
+      if (previous) {
+        await FileSystem.deleteAsync(previous.directory, { idempotent: true });
+      }
+
+      return {
+        articleId,
+        url: article.url,
+        title: extracted.title || article.title,
+        byline: extracted.byline ?? article.author ?? null,
+        excerpt: extracted.excerpt ?? article.description ?? null,
+        directory,
+        size,
+        imageCount,
+        savedAt,
+      };
+    } catch (error) {
+      await FileSystem.deleteAsync(directory, { idempotent: true });
+      throw error;
+    }
+  }
+
+  /**
+   * ========== READING ==========
+   */
+
+  // Get the saved copy of an article, if any
+  async getOfflineArticle(url: string): Promise<OfflineArticle | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<OfflineArticleRow>(
+        `${OFFLINE_SELECT} WHERE offline_articles.article_id = ?`,
+        getArticleId(url)
+      );
+      return row ? rowToOfflineArticle(row) : null;
+    } catch (error) {
+      console.error('Error getting offline article:', error);
+      return null;
+    }
+  }
+
+  // Check if an article is saved for offline reading
+  async isSavedOffline(url: string): Promise<boolean> {
+    return (await this.getOfflineArticle(url)) !== null;
+  }
+
+  // Get every saved article, newest first
+  async getOfflineArticles(): Promise<OfflineArticle[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<OfflineArticleRow>(
+        `${OFFLINE_SELECT} ORDER BY offline_articles.saved_at DESC`
+      );
+      return rows.map(rowToOfflineArticle);
+    } catch (error) {
+      console.error('Error getting offline articles:', error);
+      return [];
+    }
+  }
+
+  // Read the stored article body (clean HTML; image sources are relative to the article folder)
+  async readContent(offlineArticle: OfflineArticle): Promise<string | null> {
+    try {
+      return await FileSystem.readAsStringAsync(offlineArticle.directory + CONTENT_FILE, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+    } catch (error) {
+      console.error('Error reading offline article:', error);
+      return null;
+    }
+  }
+
+  // Full reader page for a WebView, styled with the app theme
+  buildReaderPage(offlineArticle: OfflineArticle, content: string, theme: Theme): string {
+    const byline = offlineArticle.byline
+      ? `<p class="byline">${escapeHtml(offlineArticle.byline)}</p>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  body { margin: 0; padding: 20px 18px 48px; background: ${theme.background}; color: ${theme.text};
+    font: 18px/1.6 -apple-system, Roboto, "Helvetica Neue", sans-serif; word-wrap: break-word; }
+  h1 { font-size: 26px; line-height: 1.25; margin: 0 0 8px; }
+  h2, h3, h4 { line-height: 1.3; }
+  .byline { color: ${theme.textSecondary}; font-size: 14px; margin: 0 0 24px; }
+  a { color: ${theme.primary}; }
+  img { max-width: 100%; height: auto; border-radius: 8px; }
+  figure { margin: 20px 0; }
+  figcaption { color: ${theme.textSecondary}; font-size: 14px; margin-top: 6px; }
+  blockquote { margin: 16px 0; padding-left: 14px; border-left: 3px solid ${theme.border}; color: ${theme.textSecondary}; }
+  pre, code { background: ${theme.surface}; border-radius: 4px; font-size: 15px; }
+  pre { padding: 12px; overflow-x: auto; }
+  table { border-collapse: collapse; max-width: 100%; }
+  td, th { border: 1px solid ${theme.border}; padding: 6px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(offlineArticle.title)}</h1>
+${byline}
+${content}
+</body>
+</html>`;
+  }
+
+  /**
+   * ========== REMOVING ==========
+   */
+
+  // Delete the saved copy of an article
+  async removeOfflineArticle(url: string): Promise<void> {
+    const offlineArticle = await this.getOfflineArticle(url);
+    if (!offlineArticle) return;
+
+    try {
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM offline_articles WHERE article_id = ?', offlineArticle.articleId);
+        await articleStore.removeUnreferenced(db);
+      });
+      await FileSystem.deleteAsync(offlineArticle.directory, { idempotent: true });
+    } catch (error) {
+      console.error('Error removing offline article:', error);
+      throw new Error('Failed to remove offline article');
+    }
+  }
+
+  // Delete every saved copy, including files left over from interrupted saves
+  async clearAll(): Promise<void> {
+    try {
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM offline_articles');
+        await articleStore.removeUnreferenced(db);
+      });
+      await FileSystem.deleteAsync(getRootDirectory(), { idempotent: true });
+    } catch (error) {
+      console.error('Error clearing offline articles:', error);
+      throw new Error('Failed to clear offline articles');
+    }
+  }
+
+  /**
+   * ========== STORAGE ==========
+   */
+
+  // Number of saved articles and the space they use
+  async getStorageUsage(): Promise<{ count: number; totalSize: number }> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ count: number; total_size: number | null }>(
+        'SELECT COUNT(*) AS count, SUM(size) AS total_size FROM offline_articles'
+      );
+      return { count: row?.count || 0, totalSize: row?.total_size || 0 };
+    } catch (error) {
+      console.error('Error getting offline storage usage:', error);
+      return { count: 0, totalSize: 0 };
+    }
+  }
+}
+
+export const offlineArticleService = new OfflineArticleService();
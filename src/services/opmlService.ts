@@ -0,0 +1,200 @@
+import { XMLParser } from 'fast-xml-parser';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import { feedService, FeedImportEntry, FeedImportResult, FeedSubscription } from './feedService';
+import { FeedFormat } from './feedParser';
+
+const opmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  processEntities: true,
+  htmlEntities: true,
+  isArray: (name) => name === 'outline',
+});
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const formatFromOutlineType = (type: string | undefined): FeedFormat | undefined => {
+  const value = (type || '').toLowerCase();
+  if (value === 'atom') return 'atom';
+  if (value === 'json' || value === 'jsonfeed') return 'json';
+  if (value === 'rss') return 'rss';
+  return undefined;
+};
+
+export const opmlService = {
+  /**
+   * Parse an OPML document into feed entries. Folder outlines become groups;
+   * nested folders are joined with " / ".
+   */
+  parseOpml: (opml: string): FeedImportEntry[] => {
+    let doc: any;
+    try {
+      doc = opmlParser.parse(opml.trim());
+    } catch (error) {
+      throw new Error('Invalid OPML file.');
+    }
+
+    const body = doc?.opml?.body;
+    if (!body) {
+      throw new Error('Not an OPML document.');
+    }
+
+    const entries: FeedImportEntry[] = [];
+    const seenUrls = new Set<string>();
+
+    const walk = (outlines: any[], groupPath: string[]) => {
+      outlines.forEach(outline => {
+        const title = outline['@_title'] || outline['@_text'] || '';
+        // An outline with an xmlUrl is a feed, even when the URL is blank; importSubscriptions
+        // skips and counts those
+        const isFeed = outline['@_xmlUrl'] !== undefined;
+        const xmlUrl = isFeed ? String(outline['@_xmlUrl']).trim() : '';
+
+        if (isFeed) {
+          const key = xmlUrl.toLowerCase();
+          if (key && seenUrls.has(key)) return; // Duplicate inside the same file
+          seenUrls.add(key);
+
+          entries.push({
+            url: xmlUrl,
+            title: String(title),
+            format: formatFromOutlineType(outline['@_type']),
+            group: groupPath.length > 0 ? groupPath.join(' / ') : undefined,
+          });
+        }
+
+        if (outline.outline) {
+          walk(outline.outline, isFeed ? groupPath : [...groupPath, String(title)]);
+        }
+      });
+    };
+
+    walk(body.outline || [], []);
+    return entries;
+  },
+
+  /**
+   * Build an OPML 2.0 document from subscriptions. Groups become folder outlines.
+   */
+  buildOpml: (subscriptions: FeedSubscription[]): string => {
+    const feedOutline = (feed: FeedSubscription, indent: string) => {
+      const attrs = [
+        `type="${feed.format}"`,
+        `text="${escapeXml(feed.title)}"`,
+        `title="${escapeXml(feed.title)}"`,
+        `xmlUrl="${escapeXml(feed.url)}"`,
+      ];
+      if (feed.siteUrl) {
+        attrs.push(`htmlUrl="${escapeXml(feed.siteUrl)}"`);
+      }
+      return `${indent}<outline ${attrs.join(' ')}/>`;
+    };
+
+    const ungrouped = subscriptions.filter(s => !s.group);
+    const groups = new Map<string, FeedSubscription[]>();
+    subscriptions
+      .filter(s => s.group)
+      .forEach(s => {
+        if (!groups.has(s.group!)) {
+          groups.set(s.group!, []);
+        }
+        groups.get(s.group!)!.push(s);
+      });
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      '    <title>News Reader Subscriptions</title>',
+      `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+      '  </head>',
+      '  <body>',
+    ];
+
+    groups.forEach((feeds, group) => {
+      lines.push(`    <outline text="${escapeXml(group)}" title="${escapeXml(group)}">`);
+      feeds.forEach(feed => lines.push(feedOutline(feed, '      ')));
+      lines.push('    </outline>');
+    });
+    ungrouped.forEach(feed => lines.push(feedOutline(feed, '    ')));
+
+    lines.push('  </body>', '</opml>');
+    return lines.join('\n') + '\n';
+  },
+
+  /**
+   * Import subscriptions from OPML text (e.g. pasted by the user)
+   */
+  importFromText: async (opml: string): Promise<FeedImportResult> => {
+    const entries = opmlService.parseOpml(opml);
+    if (entries.length === 0) {
+      throw new Error('No feeds found in this OPML file.');
+    }
+    return feedService.importSubscriptions(entries);
+  },
+
+  /**
+   * Let the user pick an OPML file from the device and import it.
+   * Returns null when the picker was cancelled.
+   */
+  importFromFile: async (): Promise<FeedImportResult | null> => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/x-opml', 'text/xml', 'application/xml', '*/*'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets?.length) {
+        return null;
+      }
+
+      const opml = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      return await opmlService.importFromText(opml);
+    } catch (error) {
+      console.error('Error importing OPML file:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save all subscriptions as an OPML file and open the share sheet
+   */
+  shareAsOpml: async (): Promise<void> => {
+    try {
+      const subscriptions = await feedService.getSubscriptions();
+      if (subscriptions.length === 0) {
+        throw new Error('You have no feeds to export');
+      }
+
+      const fileUri = FileSystem.documentDirectory + `feeds-${Date.now()}.opml`;
+      await FileSystem.writeAsStringAsync(fileUri, opmlService.buildOpml(subscriptions), {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+
+      const canShare = await Sharing.isAvailableAsync();
+      if (canShare) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'text/x-opml',
+          dialogTitle: 'Export Feeds',
+          UTI: 'public.xml',
+        });
+      } else {
+        throw new Error('Sharing is not available on this device');
+      }
+    } catch (error) {
+      console.error('Error sharing OPML:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,442 @@
+import {
+  HtmlElement,
+  HtmlNode,
+  parseHtml,
+  getElements,
+  findElement,
+  getText,
+  removeNode,
+  unwrapElement,
+  serializeHtml,
+  isElement,
+  createElement,
+} from './htmlParser';
+
+/**
+ * Reader-mode extraction in the spirit of Mozilla's Readability: score the
+ * blocks of a page by how much prose they hold and keep the best one, plus
+ * nearby blocks that look like part of the same article.
+ */
+
+export interface ExtractedArticle {
+  title: string;
+  byline: string | null;
+  excerpt: string | null;
+  content: string; // Clean HTML of the article body
+  textLength: number;
+  images: string[]; // Absolute URLs of images in `content`, in order
+}
+
+// Never part of an article body
+const REMOVED_TAGS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object', 'embed',
+  'form', 'input', 'button', 'select', 'textarea', 'link', 'meta', 'nav', 'aside', 'footer',
+];
+
+// Tags kept in the cleaned output; others are replaced by their content
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code', 'ul', 'ol', 'li',
+  'dl', 'dt', 'dd', 'a', 'em', 'i', 'strong', 'b', 'u', 's', 'sub', 'sup', 'mark', 'small',
+  'figure', 'figcaption', 'img', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+  'div', 'section', 'article', 'span',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'colspan', 'rowspan']);
+
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|newsletter|subscribe|share|promo/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+// Elements whose text is scored
+const SCORED_TAGS = ['p', 'pre', 'td', 'blockquote', 'section', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * ========== URLS ==========
+ */
+
+// Resolve `href` against the page URL (React Native has no reliable URL class)
+export const resolveUrl = (href: string, baseUrl: string): string => {
+  const value = href.trim();
+  if (!value || /^(data|mailto|tel|javascript):/i.test(value)) {
+    return value;
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    return value;
+  }
+
+  const base = /^([a-z][a-z0-9+.-]*:)\/\/([^/?#]*)([^?#]*)/i.exec(baseUrl);
+  if (!base) {
+    return value;
+  }
+  const [, protocol, host, basePath] = base;
+
+  if (value.startsWith('//')) {
+    return `${protocol}${value}`;
+  }
+  if (value.startsWith('#') || value.startsWith('?')) {
+    return `${protocol}//${host}${basePath || '/'}${value}`;
+  }
+
+  const directory = value.startsWith('/') ? '' : basePath.slice(0, basePath.lastIndexOf('/') + 1) || '/';
+  const [path, suffix = ''] = /^([^?#]*)(.*)$/.exec(directory + value)!.slice(1);
+
+  const segments: string[] = [];
+  path.split('/').forEach((segment, index, all) => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && (segment !== '' || index === all.length - 1)) {
+      segments.push(segment);
+    }
+  });
+
+  return `${protocol}//${host}/${segments.join('/')}${suffix}`;
+};
+
+/**
+ * ========== METADATA ==========
+ */
+
+const getMetaContent = (document: HtmlElement, names: string[]): string | null => {
+  for (const meta of getElements(document, ['meta'])) {
+    const key = (meta.attributes.property || meta.attributes.name || '').toLowerCase();
+    if (names.includes(key) && meta.attributes.content?.trim()) {
+      return meta.attributes.content.trim();
+    }
+  }
+  return null;
+};
+
+const getTitle = (document: HtmlElement): string => {
+  const metaTitle = getMetaContent(document, ['og:title', 'twitter:title']);
+  if (metaTitle) return metaTitle;
+
+  const headings = getElements(document, ['h1']);
+  if (headings.length === 1) {
+    return getText(headings[0]);
+  }
+
+  // "Headline | Site name" → "Headline"
+  const title = findElement(document, 'title');
+  const text = title ? getText(title) : '';
+  const parts = text.split(/\s[|\-–—:»]\s/);
+  return parts.length > 1 && parts[0].split(' ').length >= 3 ? parts[0].trim() : text;
+};
+
+/**
+ * ========== SCORING ==========
+ */
+
+const classAndId = (element: HtmlElement): string =>
+  `${element.attributes.class || ''} ${element.attributes.id || ''}`;
+
+const getClassWeight = (element: HtmlElement): number => {
+  const names = classAndId(element);
+  let weight = 0;
+  if (NEGATIVE_CLASS.test(names)) weight -= 25;
+  if (POSITIVE_CLASS.test(names)) weight += 25;
+  return weight;
+};
+
+const getBaseScore = (element: HtmlElement): number => {
+  switch (element.tag) {
+    case 'article':
+    case 'main':
+      return 10;
+    case 'div':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      return -5;
+    default:
+      return 0;
+  }
+};
+
+// Share of an element's text that sits inside links (menus and link lists score high)
+const getLinkDensity = (element: HtmlElement): number => {
+  const textLength = getText(element).length;
+  if (textLength === 0) return 0;
+  const linkLength = getElements(element, ['a']).reduce((total, link) => total + getText(link).length, 0);
+  return linkLength / textLength;
+};
+
+const isUnlikelyCandidate = (element: HtmlElement): boolean => {
+  if (element.tag === 'body' || element.tag === 'a' || element.tag === 'article' || element.tag === 'main') {
+    return false;
+  }
+  const names = classAndId(element);
+  const role = element.attributes.role || '';
+  return (
+    (UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATES.test(names)) ||
+    ['menu', 'menubar', 'complementary', 'navigation', 'alert', 'alertdialog', 'dialog'].includes(role) ||
+    'hidden' in element.attributes ||
+    element.attributes['aria-hidden'] === 'true' ||
+    /display\s*:\s*none/i.test(element.attributes.style || '')
+  );
+};
+
+const removeUnlikely = (element: HtmlElement): void => {
+  [...element.children].forEach(child => {
+    if (!isElement(child)) return;
+    if (REMOVED_TAGS.includes(child.tag) || isUnlikelyCandidate(child)) {
+      removeNode(child);
+    } else {
+      removeUnlikely(child);
+    }
+  });
+};
+
+const findTopCandidate = (body: HtmlElement): { candidate: HtmlElement; scores: Map<HtmlElement, number> } => {
+  const scores = new Map<HtmlElement, number>();
+  const initialize = (element: HtmlElement) => {
+    if (!scores.has(element)) {
+      scores.set(element, getBaseScore(element) + getClassWeight(element));
+    }
+  };
+
+  getElements(body, SCORED_TAGS).forEach(paragraph => {
+    const text = getText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // One point per paragraph, one per comma, one per 100 characters (up to 3)
+    const score = 1 + text.split(/[,،、，]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+    // Parents get the full score, grandparents half, further ancestors less
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor !== body.parent && level < 5; level++) {
+      if (ancestor.tag === '#document') break;
+      initialize(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      ancestor = ancestor.parent;
+    }
+  });
+
+  let candidate: HtmlElement | null = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - getLinkDensity(element));
+    scores.set(element, adjusted);
+    if (!candidate || adjusted > bestScore) {
+      candidate = element;
+      bestScore = adjusted;
+    }
+  });
+
+  return { candidate: candidate || body, scores };
+};
+
+// The top candidate plus siblings that look like part of the same article
+const collectContent = (candidate: HtmlElement, scores: Map<HtmlElement, number>): HtmlElement => {
+  const container = createElement('div');
+  const parent = candidate.parent;
+  const topScore = scores.get(candidate) || 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  const candidateClass = candidate.attributes.class;
+
+  const siblings: HtmlNode[] = parent && parent.tag !== '#document' ? [...parent.children] : [candidate];
+  siblings.forEach(sibling => {
+    if (!isElement(sibling)) return;
+
+    let keep = sibling === candidate;
+    if (!keep) {
+      let bonus = 0;
+      if (candidateClass && sibling.attributes.class === candidateClass) {
+        bonus += topScore * 0.2;
+      }
+      if ((scores.get(sibling) || 0) + bonus >= threshold) {
+        keep = true;
+      } else if (sibling.tag === 'p') {
+        const text = getText(sibling);
+        const density = getLinkDensity(sibling);
+        keep = (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+      }
+    }
+
+    if (keep) {
+      removeNode(sibling);
+      sibling.parent = container;
+      container.children.push(sibling);
+    }
+  });
+
+  return container;
+};
+
+/**
+ * ========== CLEANING ==========
+ */
+
+// Remove lists, tables and boxes that look like navigation or ads rather than content
+const removeConditionally = (content: HtmlElement): void => {
+  getElements(content, ['div', 'section', 'ul', 'ol', 'table', 'figure'])
+    .reverse()
+    .forEach(element => {
+      if (!element.parent) return;
+      if (getClassWeight(element) < 0) {
+        removeNode(element);
+        return;
+      }
+
+      const text = getText(element);
+      const commas = text.split(',').length - 1;
+      if (commas >= 10) return;
+
+      const paragraphs = getElements(element, ['p']).length;
+      const images = getElements(element, ['img']).length;
+      const listItems = getElements(element, ['li']).length - 100;
+      const inputs = getElements(element, ['input']).length;
+      const linkDensity = getLinkDensity(element);
+      const isList = element.tag === 'ul' || element.tag === 'ol';
+
+      const suspicious =
+        (images > 1 && paragraphs / images < 0.5 && element.tag !== 'figure') ||
+        (!isList && listItems > paragraphs) ||
+        inputs > Math.floor(paragraphs / 3) ||
+        (text.length < 25 && images === 0) ||
+        (getClassWeight(element) < 25 && linkDensity > 0.2) ||
+        linkDensity > 0.5;
+
+      if (suspicious) {
+        removeNode(element);
+      }
+    });
+};
+
+// Pick the real image source from lazy-loading attributes
+const getImageSource = (image: HtmlElement): string | null => {
+  const candidates = [
+    image.attributes['data-src'],
+    image.attributes['data-lazy-src'],
+    image.attributes['data-original'],
+    image.attributes.src,
+  ];
+  for (const candidate of candidates) {
+    if (candidate && !candidate.startsWith('data:')) {
+      return candidate;
+    }
+  }
+
+  const srcset = image.attributes['data-srcset'] || image.attributes.srcset;
+  if (srcset) {
+    // Largest entry of "url 320w, url 640w"
+    const entries = srcset.split(',').map(entry => entry.trim().split(/\s+/));
+    const best = entries.reduce((current, entry) =>
+      parseFloat(entry[1] || '0') > parseFloat(current[1] || '0') ? entry : current
+    );
+    return best[0] || null;
+  }
+  return null;
+};
+
+const cleanElement = (element: HtmlElement, baseUrl: string, images: string[]): void => {
+  [...element.children].forEach(child => {
+    if (!isElement(child)) return;
+
+    if (child.tag === 'img') {
+      const source = getImageSource(child);
+      if (!source) {
+        removeNode(child);
+        return;
+      }
+      const src = resolveUrl(source, baseUrl);
+      child.attributes = { src, alt: child.attributes.alt || '' };
+      images.push(src);
+      return;
+    }
+
+    cleanElement(child, baseUrl, images);
+
+    if (!ALLOWED_TAGS.has(child.tag)) {
+      unwrapElement(child);
+      return;
+    }
+
+    const attributes: { [name: string]: string } = {};
+    Object.keys(child.attributes).forEach(name => {
+      if (ALLOWED_ATTRIBUTES.has(name)) {
+        attributes[name] = name === 'href' ? resolveUrl(child.attributes[name], baseUrl) : child.attributes[name];
+      }
+    });
+    child.attributes = attributes;
+
+    // Drop empty wrappers left behind by the removals above
+    const keepsWhenEmpty = ['br', 'hr', 'td', 'th'].includes(child.tag);
+    if (!keepsWhenEmpty && getText(child).length === 0 && getElements(child, ['img']).length === 0) {
+      removeNode(child);
+    }
+  });
+};
+
+// Remove a leading heading that repeats the title shown above the article
+const removeTitleHeading = (content: HtmlElement, title: string): void => {
+  const normalized = title.toLowerCase().trim();
+  getElements(content, ['h1', 'h2']).slice(0, 1).forEach(heading => {
+    if (getText(heading).toLowerCase() === normalized) {
+      removeNode(heading);
+    }
+  });
+  // Other top-level headings become h2 so the page has one title
+  getElements(content, ['h1']).forEach(heading => {
+    heading.tag = 'h2';
+  });
+};
+
+/**
+ * Extract the readable part of a page. Returns null when no article-like content is found.
+ */
+export const extractArticle = (html: string, url: string): ExtractedArticle | null => {
+  const document = parseHtml(html);
+  const title = getTitle(document);
+  const byline = getMetaContent(document, ['author', 'article:author', 'byl', 'parsely-author']);
+  const excerpt = getMetaContent(document, ['og:description', 'description', 'twitter:description']);
+
+  const base = findElement(document, 'base');
+  const baseUrl = base?.attributes.href ? resolveUrl(base.attributes.href, url) : url;
+
+  const body = findElement(document, 'body') || document;
+  removeUnlikely(body);
+
+  const { candidate, scores } = findTopCandidate(body);
+  const content = collectContent(candidate, scores);
+
+  removeTitleHeading(content, title);
+  removeConditionally(content);
+  const images: string[] = [];
+  cleanElement(content, baseUrl, images);
+
+  const textLength = getText(content).length;
+  if (textLength < MIN_PARAGRAPH_LENGTH * 4) {
+    return null;
+  }
+
+  return {
+    title,
+    byline,
+    excerpt,
+    content: serializeHtml(content),
+    textLength,
+    images: Array.from(new Set(images)),
+  };
+};
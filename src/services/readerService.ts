@@ -0,0 +1,399 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Article } from '../types';
+import { offlineArticleService } from './offlineArticleService';
+import { HtmlElement, HtmlNode, parseHtml, getText, isElement } from './htmlParser';
+import { resolveUrl } from './readability';
+
+const PREFERENCES_STORAGE_KEY = '@reader_preferences';
+const MODES_STORAGE_KEY = '@reader_modes';
+
+export type ViewMode = 'reader' | 'web';
+
+export type ReaderFontFamily = 'sans' | 'serif' | 'mono';
+
+export interface ReaderPreferences {
+  fontFamily: ReaderFontFamily;
+  fontSize: number; // Body text size in points
+  lineHeight: number; // Multiple of fontSize
+  margin: number; // Horizontal page margin in points
+  justify: boolean;
+}
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  fontFamily: 'serif',
+  fontSize: 18,
+  lineHeight: 1.6,
+  margin: 20,
+  justify: false,
+};
+
+// Allowed range and step of each adjustable preference
+export const READER_LIMITS = {
+  fontSize: { min: 14, max: 28, step: 1 },
+  lineHeight: { min: 1.2, max: 2.2, step: 0.1 },
+  margin: { min: 8, max: 40, step: 4 },
+};
+
+export interface ReaderSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export type ReaderBlock =
+  | { type: 'heading'; level: number; spans: ReaderSpan[] }
+  | { type: 'paragraph'; spans: ReaderSpan[] }
+  | { type: 'quote'; spans: ReaderSpan[] }
+  | { type: 'listItem'; ordered: boolean; index: number; depth: number; spans: ReaderSpan[] }
+  | { type: 'code'; text: string }
+  | { type: 'image'; uri: string; alt: string; caption: string | null };
+
+export interface ReaderContent {
+  url: string;
+  title: string;
+  byline: string | null;
+  blocks: ReaderBlock[];
+  fromOfflineCopy: boolean;
+}
+
+// Extracted articles kept in memory, so switching modes doesn't download the page again
+const MAX_CACHED_CONTENT = 10;
+
+// Text of a reader block; images have none
+export const getBlockText = (block: ReaderBlock): string => {
+  if ('spans' in block) return block.spans.map(span => span.text).join('').trim();
+  return block.type === 'code' ? block.text.trim() : '';
+};
+
+/**
+ * ========== HTML → BLOCKS ==========
+ */
+
+interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+interface BlockContext {
+  quote: boolean;
+}
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const PARAGRAPH_TAGS = ['p', 'dt', 'dd', 'figcaption', 'caption', 'td', 'th'];
+const CONTAINER_TAGS = [
+  'div', 'section', 'article', 'main', 'figure', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'dl', 'blockquote', 'ul', 'ol', 'li',
+];
+
+// Text of an element with its whitespace kept (for preformatted blocks)
+const getRawText = (node: HtmlNode): string =>
+  node.type === 'text' ? node.text : node.children.map(getRawText).join('');
+
+// Stands in for <br> until whitespace has been collapsed
+const LINE_BREAK = '\u2028';
+
+// Merge neighbouring spans with the same style and collapse whitespace
+const normalizeSpans = (spans: ReaderSpan[]): ReaderSpan[] => {
+  const merged: ReaderSpan[] = [];
+  spans.forEach(span => {
+    const text = span.text.replace(/[ \t\r\n\f]+/g, ' ');
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      last.bold === span.bold && last.italic === span.italic &&
+      last.code === span.code && last.href === span.href
+    ) {
+      last.text += text;
+    } else {
+      merged.push({ ...span, text });
+    }
+  });
+
+  // Spaces around line breaks and at the edges are not shown
+  merged.forEach((span, index) => {
+    span.text = span.text.replace(/ ?\u2028 ?/g, '\n');
+    if (index === 0) span.text = span.text.trimStart();
+    if (index === merged.length - 1) span.text = span.text.trimEnd();
+  });
+  return merged.filter(span => span.text.length > 0);
+};
+
+/**
+ * Turn cleaned article HTML (see extractArticle) into blocks the reader view
+ * renders natively. Relative image sources are resolved against `baseUrl`.
+ */
+export const htmlToBlocks = (html: string, baseUrl: string): ReaderBlock[] => {
+  const blocks: ReaderBlock[] = [];
+  let pending: ReaderSpan[] = [];
+  let pendingContext: BlockContext = { quote: false };
+
+  const flush = () => {
+    const spans = normalizeSpans(pending);
+    pending = [];
+    if (spans.length === 0) return;
+    blocks.push(pendingContext.quote ? { type: 'quote', spans } : { type: 'paragraph', spans });
+  };
+
+  const collectInline = (node: HtmlNode, style: InlineStyle, spans: ReaderSpan[], onImage: (image: HtmlElement) => void) => {
+    if (node.type === 'text') {
+      spans.push({ ...style, text: node.text });
+      return;
+    }
+    switch (node.tag) {
+      case 'br':
+        spans.push({ ...style, text: LINE_BREAK });
+        return;
+      case 'img':
+        onImage(node);
+        return;
+      case 'strong':
+      case 'b':
+        style = { ...style, bold: true };
+        break;
+      case 'em':
+      case 'i':
+        style = { ...style, italic: true };
+        break;
+      case 'code':
+        style = { ...style, code: true };
+        break;
+      case 'a':
+        if (node.attributes.href && /^https?:/i.test(node.attributes.href)) {
+          style = { ...style, href: node.attributes.href };
+        }
+        break;
+    }
+    node.children.forEach(child => collectInline(child, style, spans, onImage));
+  };
+
+  const addImage = (image: HtmlElement, caption: string | null = null) => {
+    const src = image.attributes.src;
+    if (!src) return;
+    blocks.push({ type: 'image', uri: resolveUrl(src, baseUrl), alt: image.attributes.alt || '', caption });
+  };
+
+  // A block whose inline content becomes one text block; images inside it are split out
+  const addTextBlock = (element: HtmlElement, build: (spans: ReaderSpan[]) => ReaderBlock) => {
+    let spans: ReaderSpan[] = [];
+    const finish = () => {
+      const normalized = normalizeSpans(spans);
+      if (normalized.length > 0) blocks.push(build(normalized));
+      spans = [];
+    };
+    element.children.forEach(child => collectInline(child, {}, spans, image => {
+      finish();
+      addImage(image);
+    }));
+    finish();
+  };
+
+  const visit = (element: HtmlElement, context: BlockContext) => {
+    element.children.forEach(child => {
+      if (!isElement(child) || !(
+        HEADING_TAGS.includes(child.tag) || PARAGRAPH_TAGS.includes(child.tag) ||
+        CONTAINER_TAGS.includes(child.tag) || child.tag === 'pre' || child.tag === 'hr'
+      )) {
+        // Inline content between blocks forms its own paragraph
+        if (pending.length === 0) pendingContext = context;
+        collectInline(child, {}, pending, image => {
+          flush();
+          addImage(image);
+        });
+        return;
+      }
+
+      flush();
+      if (HEADING_TAGS.includes(child.tag)) {
+        const level = Math.max(2, parseInt(child.tag[1], 10));
+        addTextBlock(child, spans => ({ type: 'heading', level, spans }));
+      } else if (PARAGRAPH_TAGS.includes(child.tag)) {
+        addTextBlock(child, spans => (context.quote ? { type: 'quote', spans } : { type: 'paragraph', spans }));
+      } else if (child.tag === 'pre') {
+        const text = getRawText(child).replace(/^\n+|\s+$/g, '');
+        if (text) blocks.push({ type: 'code', text });
+      } else if (child.tag === 'figure') {
+        const caption = child.children.find(node => isElement(node) && node.tag === 'figcaption');
+        const images: HtmlElement[] = [];
+        const findImages = (node: HtmlElement) => node.children.forEach(inner => {
+          if (!isElement(inner) || inner.tag === 'figcaption') return;
+          if (inner.tag === 'img') images.push(inner);
+          else findImages(inner);
+        });
+        findImages(child);
+        if (images.length === 0) {
+          visit(child, context);
+        } else {
+          images.forEach((image, index) =>
+            addImage(image, index === images.length - 1 && caption ? getText(caption) || null : null)
+          );
+        }
+      } else if (child.tag === 'blockquote') {
+        visit(child, { ...context, quote: true });
+      } else if (child.tag === 'ul' || child.tag === 'ol') {
+        addList(child, 0);
+      } else if (child.tag !== 'hr') {
+        visit(child, context);
+      }
+      flush();
+    });
+  };
+
+  // Each item's own text is one block; nested lists follow it, one level deeper
+  const addList = (list: HtmlElement, depth: number) => {
+    const ordered = list.tag === 'ol';
+    let index = 0;
+    list.children.forEach(item => {
+      if (!isElement(item) || item.tag !== 'li') return;
+      index++;
+
+      const spans: ReaderSpan[] = [];
+      const nested: HtmlElement[] = [];
+      item.children.forEach(child => {
+        if (isElement(child) && (child.tag === 'ul' || child.tag === 'ol')) {
+          nested.push(child);
+        } else {
+          collectInline(child, {}, spans, addImage);
+          if (isElement(child) && (child.tag === 'p' || child.tag === 'div')) {
+            spans.push({ text: ' ' });
+          }
+        }
+      });
+
+      const normalized = normalizeSpans(spans);
+      if (normalized.length > 0) {
+        blocks.push({ type: 'listItem', ordered, index, depth, spans: normalized });
+      }
+      nested.forEach(inner => addList(inner, depth + 1));
+    });
+  };
+
+  visit(parseHtml(html), { quote: false });
+  flush();
+  return blocks;
+};
+
+// Host of a URL without "www.", used to remember the view mode per site
+const getDomain = (url: string): string => {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^:/?#]+)/i.exec(url.trim());
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : '';
+};
+
+class ReaderService {
+  private contentCache = new Map<string, ReaderContent>();
+
+  /**
+   * ========== PREFERENCES ==========
+   */
+
+  async getPreferences(): Promise<ReaderPreferences> {
+    try {
+      const data = await AsyncStorage.getItem(PREFERENCES_STORAGE_KEY);
+      if (data) {
+        return { ...DEFAULT_READER_PREFERENCES, ...JSON.parse(data) };
+      }
+      return DEFAULT_READER_PREFERENCES;
+    } catch (error) {
+      console.error('Error getting reader preferences:', error);
+      return DEFAULT_READER_PREFERENCES;
+    }
+  }
+
+  async updatePreferences(preferences: Partial<ReaderPreferences>): Promise<ReaderPreferences> {
+    const newPreferences = { ...(await this.getPreferences()), ...preferences };
+    try {
+      await AsyncStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(newPreferences));
+    } catch (error) {
+      console.error('Error updating reader preferences:', error);
+    }
+    return newPreferences;
+  }
+
+  /**
+   * ========== VIEW MODE PER SITE ==========
+   */
+
+  // Last mode used for the article's site; publisher pages by default
+  async getViewMode(url: string): Promise<ViewMode> {
+    try {
+      const data = await AsyncStorage.getItem(MODES_STORAGE_KEY);
+      const modes: { [domain: string]: ViewMode } = data ? JSON.parse(data) : {};
+      return modes[getDomain(url)] === 'reader' ? 'reader' : 'web';
+    } catch (error) {
+      console.error('Error getting reader mode:', error);
+      return 'web';
+    }
+  }
+
+  async setViewMode(url: string, mode: ViewMode): Promise<void> {
+    const domain = getDomain(url);
+    if (!domain) return;
+    try {
+      const data = await AsyncStorage.getItem(MODES_STORAGE_KEY);
+      const modes: { [domain: string]: ViewMode } = data ? JSON.parse(data) : {};
+      modes[domain] = mode;
+      await AsyncStorage.setItem(MODES_STORAGE_KEY, JSON.stringify(modes));
+    } catch (error) {
+      console.error('Error saving reader mode:', error);
+    }
+  }
+
+  /**
+   * ========== CONTENT ==========
+   */
+
+  /**
+   * Readable content of an article: the offline copy when there is one,
+   * otherwise the downloaded page. Returns null when extraction fails.
+   */
+  async getContent(article: Article): Promise<ReaderContent | null> {
+    const local = await this.getLocalContent(article);
+    if (local) return local;
+
+    try {
+      const extracted = await offlineArticleService.fetchArticle(article.url);
+      if (!extracted) return null;
+
+      const content: ReaderContent = {
+        url: article.url,
+        title: extracted.title || article.title,
+        byline: extracted.byline ?? article.author ?? null,
+        blocks: htmlToBlocks(extracted.content, article.url),
+        fromOfflineCopy: false,
+      };
+      if (content.blocks.length === 0) return null;
+
+      this.contentCache.set(article.url, content);
+      if (this.contentCache.size > MAX_CACHED_CONTENT) {
+        this.contentCache.delete(this.contentCache.keys().next().value!);
+      }
+      return content;
+    } catch (error) {
+      console.error('Error loading reader content:', error);
+      return null;
+    }
+  }
+
+  // Content already on the device: the offline copy, or a page extracted earlier. Never downloads.
+  async getLocalContent(article: Article): Promise<ReaderContent | null> {
+    const offlineArticle = await offlineArticleService.getOfflineArticle(article.url);
+    if (offlineArticle) {
+      const html = await offlineArticleService.readContent(offlineArticle);
+      if (html !== null) {
+        return {
+          url: article.url,
+          title: offlineArticle.title,
+          byline: offlineArticle.byline,
+          blocks: htmlToBlocks(html, offlineArticle.directory),
+          fromOfflineCopy: true,
+        };
+      }
+    }
+
+    return this.contentCache.get(article.url) || null;
+  }
+}
+
+export const readerService = new ReaderService();
@@ -1,26 +1,51 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SQLiteDatabase } from 'expo-sqlite';
 import { Article } from '../types';
+import { getDatabase, runInTransaction } from './database';
+import { articleStore, ArticleRow, rowToArticle } from './articleStore';
+import { getArticleId } from './articleUrl';
 
-const HISTORY_STORAGE_KEY = '@reading_history';
 const MAX_HISTORY_ITEMS = 100; // Keep last 100 articles
 
+// How far down an article (0-1) the reader has to get for it to count as finished
+export const FINISHED_DEPTH = 0.9;
+// Articles left before this depth were only skimmed
+export const SKIMMED_DEPTH = 0.25;
+
+export type ReadStatus = 'finished' | 'inProgress' | 'skimmed';
+
+// How time with an article was spent: reading it on screen or listening to it read aloud
+export type ActivityType = 'reading' | 'listening';
+
+// Where the reader is in an article and the furthest they got, both 0-1
+export interface ReadingProgress {
+  position: number;
+  maxDepth: number;
+}
+
 export interface ReadingHistoryItem {
   article: Article;
   readAt: number; // timestamp
   readingTime: number; // seconds spent reading
+  listeningTime: number; // seconds spent listening (text-to-speech)
   category: string;
   source: string;
+  scrollPosition: number; // 0-1, where the reader left off
+  maxScrollDepth: number; // 0-1, furthest point reached
 }
 
 export interface ReadingStats {
   totalArticlesRead: number;
   totalReadingTime: number; // in minutes
   averageReadingTime: number; // in minutes
+  totalListeningTime: number; // in minutes
   currentStreak: number; // days
   longestStreak: number; // days
   articlesReadToday: number;
   articlesReadThisWeek: number;
   articlesReadThisMonth: number;
+  articlesFinished: number;
+  articlesSkimmed: number;
+  averageScrollDepth: number; // 0-1
   favoriteCategory: string;
   favoriteSource: string;
   categoriesBreakdown: { [key: string]: number };
@@ -29,43 +54,85 @@ export interface ReadingStats {
   readingByHour: { [key: number]: number }; // 0-23 hours
 }
 
+interface HistoryRow extends ArticleRow {
+  read_at: number;
+  reading_time: number;
+  listening_time: number;
+  category: string;
+  source: string;
+  scroll_position: number;
+  max_scroll_depth: number;
+}
+
+const HISTORY_SELECT = `
+  SELECT articles.*, history.read_at, history.reading_time, history.listening_time, history.category, history.source,
+    history.scroll_position, history.max_scroll_depth
+  FROM history
+  JOIN articles ON articles.id = history.article_id`;
+
+const rowToHistoryItem = (row: HistoryRow): ReadingHistoryItem => ({
+  article: rowToArticle(row),
+  readAt: row.read_at,
+  readingTime: row.reading_time,
+  listeningTime: row.listening_time,
+  category: row.category,
+  source: row.source,
+  scrollPosition: row.scroll_position,
+  maxScrollDepth: row.max_scroll_depth,
+});
+
+const clampProgress = (value: number): number => Math.min(1, Math.max(0, value || 0));
+
+// Finished, partly read or only skimmed, from the furthest point the reader reached
+export const getReadStatus = (item: Pick<ReadingHistoryItem, 'maxScrollDepth'>): ReadStatus => {
+  if (item.maxScrollDepth >= FINISHED_DEPTH) return 'finished';
+  if (item.maxScrollDepth >= SKIMMED_DEPTH) return 'inProgress';
+  return 'skimmed';
+};
+
 class ReadingHistoryService {
   /**
-   * Add an article to reading history
+   * Add a session to history; time is the session's active time in seconds, counted as
+   * reading or listening depending on the activity
    */
   async addToHistory(
     article: Article,
-    readingTime: number = 0,
-    category: string = 'general'
+    time: number = 0,
+    category: string = 'general',
+    progress?: ReadingProgress,
+    activity: ActivityType = 'reading'
   ): Promise<void> {
     try {
-      const history = await this.getHistory();
-      
-      // Check if article already exists (by URL)
-      const existingIndex = history.findIndex(item => item.article.url === article.url);
-      
-      const historyItem: ReadingHistoryItem = {
-        article,
-        readAt: Date.now(),
-        readingTime,
-        category,
-        source: article.source?.name || 'Unknown',
-      };
-
-      if (existingIndex !== -1) {
-        // Update existing entry (move to top)
-        history.splice(existingIndex, 1);
-      }
-
-      // Add to beginning
-      history.unshift(historyItem);
-
-      // Keep only MAX_HISTORY_ITEMS
-      if (history.length > MAX_HISTORY_ITEMS) {
-        history.splice(MAX_HISTORY_ITEMS);
-      }
-
-      await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+      await runInTransaction(async (db) => {
+        // Times add up and the furthest point reached is kept across sessions
+        const previous = await db.getFirstAsync<HistoryRow>(
+          `${HISTORY_SELECT} WHERE history.article_id = ?`,
+          getArticleId(article.url)
+        );
+        const historyItem: ReadingHistoryItem = {
+          article,
+          readAt: Date.now(),
+          readingTime: (previous?.reading_time || 0) + (activity === 'reading' ? time : 0),
+          listeningTime: (previous?.listening_time || 0) + (activity === 'listening' ? time : 0),
+          // Listening doesn't know the feed category, so keep the one the article was read under
+          category: activity === 'listening' && previous ? previous.category : category,
+          source: article.source?.name || 'Unknown',
+          scrollPosition: progress ? clampProgress(progress.position) : previous?.scroll_position || 0,
+          maxScrollDepth: Math.max(previous?.max_scroll_depth || 0, clampProgress(progress?.maxDepth ?? 0)),
+        };
+
+        // Re-reading an article replaces its entry (moves it to the top)
+        await this.insertHistoryItem(db, historyItem);
+
+        // Keep only MAX_HISTORY_ITEMS
+        await db.runAsync(
+          `DELETE FROM history WHERE article_id NOT IN (
+             SELECT article_id FROM history ORDER BY read_at DESC LIMIT ?
+           )`,
+          MAX_HISTORY_ITEMS
+        );
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error adding to history:', error);
     }
@@ -76,11 +143,9 @@ class ReadingHistoryService {
    */
   async getHistory(): Promise<ReadingHistoryItem[]> {
     try {
-      const data = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<HistoryRow>(`${HISTORY_SELECT} ORDER BY history.read_at DESC`);
+      return rows.map(rowToHistoryItem);
     } catch (error) {
       console.error('Error getting history:', error);
       return [];
@@ -91,8 +156,17 @@ class ReadingHistoryService {
    * Get recent history (last N items)
    */
   async getRecentHistory(limit: number = 10): Promise<ReadingHistoryItem[]> {
-    const history = await this.getHistory();
-    return history.slice(0, limit);
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<HistoryRow>(
+        `${HISTORY_SELECT} ORDER BY history.read_at DESC LIMIT ?`,
+        limit
+      );
+      return rows.map(rowToHistoryItem);
+    } catch (error) {
+      console.error('Error getting recent history:', error);
+      return [];
+    }
   }
 
   /**
@@ -100,7 +174,10 @@ class ReadingHistoryService {
    */
   async clearHistory(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(HISTORY_STORAGE_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM history');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing history:', error);
     }
@@ -111,9 +188,10 @@ class ReadingHistoryService {
    */
   async removeFromHistory(articleUrl: string): Promise<void> {
     try {
-      const history = await this.getHistory();
-      const filtered = history.filter(item => item.article.url !== articleUrl);
-      await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(filtered));
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM history WHERE article_id = ?', getArticleId(articleUrl));
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error removing from history:', error);
     }
@@ -138,6 +216,7 @@ class ReadingHistoryService {
     const totalArticlesRead = history.length;
     const totalReadingTime = history.reduce((sum, item) => sum + item.readingTime, 0) / 60; // Convert to minutes
     const averageReadingTime = totalReadingTime / totalArticlesRead;
+    const totalListeningTime = history.reduce((sum, item) => sum + item.listeningTime, 0) / 60;
 
     // Time-based stats
     const articlesReadToday = history.filter(
@@ -152,6 +231,12 @@ class ReadingHistoryService {
       item => now - item.readAt < oneMonthMs
     ).length;
 
+    // Scroll depth stats
+    const articlesFinished = history.filter(item => getReadStatus(item) === 'finished').length;
+    const articlesSkimmed = history.filter(item => getReadStatus(item) === 'skimmed').length;
+    const averageScrollDepth =
+      history.reduce((sum, item) => sum + item.maxScrollDepth, 0) / totalArticlesRead;
+
     // Calculate streaks
     const streaks = this.calculateStreaks(history);
 
@@ -186,11 +271,15 @@ class ReadingHistoryService {
       totalArticlesRead,
       totalReadingTime,
       averageReadingTime,
+      totalListeningTime,
       currentStreak: streaks.current,
       longestStreak: streaks.longest,
       articlesReadToday,
       articlesReadThisWeek,
       articlesReadThisMonth,
+      articlesFinished,
+      articlesSkimmed,
+      averageScrollDepth,
       favoriteCategory,
       favoriteSource,
       categoriesBreakdown,
@@ -323,11 +412,15 @@ class ReadingHistoryService {
       totalArticlesRead: 0,
       totalReadingTime: 0,
       averageReadingTime: 0,
+      totalListeningTime: 0,
       currentStreak: 0,
       longestStreak: 0,
       articlesReadToday: 0,
       articlesReadThisWeek: 0,
       articlesReadThisMonth: 0,
+      articlesFinished: 0,
+      articlesSkimmed: 0,
+      averageScrollDepth: 0,
       favoriteCategory: 'None',
       favoriteSource: 'None',
       categoriesBreakdown: {},
@@ -341,17 +434,76 @@ class ReadingHistoryService {
    * Check if article has been read
    */
   async hasBeenRead(articleUrl: string): Promise<boolean> {
-    const history = await this.getHistory();
-    return history.some(item => item.article.url === articleUrl);
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync('SELECT 1 FROM history WHERE article_id = ?', getArticleId(articleUrl));
+      return row !== null;
+    } catch (error) {
+      console.error('Error checking history:', error);
+      return false;
+    }
   }
 
   /**
    * Get reading time for specific article
    */
   async getReadingTime(articleUrl: string): Promise<number> {
-    const history = await this.getHistory();
-    const item = history.find(item => item.article.url === articleUrl);
-    return item?.readingTime || 0;
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ reading_time: number }>(
+        'SELECT reading_time FROM history WHERE article_id = ?',
+        getArticleId(articleUrl)
+      );
+      return row?.reading_time || 0;
+    } catch (error) {
+      console.error('Error getting reading time:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get where to resume an article (0-1), or null unless it was left partly read
+   */
+  async getResumePosition(articleUrl: string): Promise<number | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ scroll_position: number; max_scroll_depth: number }>(
+        'SELECT scroll_position, max_scroll_depth FROM history WHERE article_id = ?',
+        getArticleId(articleUrl)
+      );
+      if (!row || row.scroll_position <= 0) return null;
+      return getReadStatus({ maxScrollDepth: row.max_scroll_depth }) === 'finished' ? null : row.scroll_position;
+    } catch (error) {
+      console.error('Error getting resume position:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the whole history (storage migrations & backup restore)
+   */
+  async replaceHistory(history: ReadingHistoryItem[], transaction?: SQLiteDatabase): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM history');
+      for (const item of history) {
+        await this.insertHistoryItem(db, item);
+      }
+    }, transaction);
+  }
+
+  /**
+   * Store an entry and its article, replacing any earlier entry for the same URL
+   */
+  private async insertHistoryItem(db: SQLiteDatabase, item: ReadingHistoryItem): Promise<void> {
+    const articleId = await articleStore.saveArticle(item.article, db);
+    await db.runAsync(
+      `INSERT OR REPLACE INTO history
+         (article_id, read_at, reading_time, listening_time, category, source, scroll_position, max_scroll_depth)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      articleId, item.readAt, item.readingTime, item.listeningTime || 0, item.category, item.source,
+      // Entries from older backups have no progress
+      item.scrollPosition || 0, item.maxScrollDepth || 0
+    );
   }
 }
 
@@ -0,0 +1,62 @@
+/**
+ * Measures time actually spent reading one article. Time stops counting while the session is
+ * paused (app in the background, screen locked, another screen on top) and once the reader has
+ * been idle for IDLE_TIMEOUT, until the next sign of activity such as a scroll.
+ */
+
+// No activity for this long means the reader has put the phone down
+export const IDLE_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+export class ReadingSession {
+  private accumulated = 0; // ms counted in closed segments
+  private segmentStart: number | null = null; // null while paused
+  private lastActivity = 0;
+
+  constructor(now: number = Date.now()) {
+    this.resume(now);
+  }
+
+  /**
+   * Stop counting (app backgrounded, screen left)
+   */
+  pause(now: number = Date.now()): void {
+    if (this.segmentStart === null) return;
+    this.accumulated += this.countedSince(this.segmentStart, now);
+    this.segmentStart = null;
+  }
+
+  /**
+   * Start counting again; coming back counts as activity
+   */
+  resume(now: number = Date.now()): void {
+    if (this.segmentStart !== null) return;
+    this.segmentStart = now;
+    this.lastActivity = now;
+  }
+
+  /**
+   * Note that the reader is still there (scrolling, selecting text, switching views)
+   */
+  recordActivity(now: number = Date.now()): void {
+    if (this.segmentStart === null) return;
+    // Returning from idle starts a new segment, leaving the idle gap uncounted
+    if (now - this.lastActivity > IDLE_TIMEOUT) {
+      this.accumulated += this.countedSince(this.segmentStart, now);
+      this.segmentStart = now;
+    }
+    this.lastActivity = now;
+  }
+
+  /**
+   * Whole seconds of active reading so far
+   */
+  getActiveSeconds(now: number = Date.now()): number {
+    const current = this.segmentStart === null ? 0 : this.countedSince(this.segmentStart, now);
+    return Math.floor((this.accumulated + current) / 1000);
+  }
+
+  // Time in the open segment, up to IDLE_TIMEOUT after the last activity
+  private countedSince(start: number, now: number): number {
+    return Math.max(0, Math.min(now, this.lastActivity + IDLE_TIMEOUT) - start);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * JavaScript injected into the article WebView to report how far down the page the user has
+ * scrolled, and to put them back where they left off. Positions are fractions of the page
+ * (0-1) so they still roughly apply when the page is reopened on another screen size.
+ */
+
+// Messages the page sends to the app through onMessage
+export type ScrollMessage =
+  | { type: 'scrollTrackerReady'; depth: number } // depth visible before any scrolling
+  | { type: 'scroll'; position: number; depth: number };
+
+const MESSAGE_TYPES = ['scrollTrackerReady', 'scroll'];
+
+// Minimum time between scroll reports, in ms
+const REPORT_INTERVAL = 250;
+
+// Read a WebView message; returns null for messages that are not ours
+export const parseScrollMessage = (data: string): ScrollMessage | null => {
+  try {
+    const message = JSON.parse(data);
+    return message && MESSAGE_TYPES.includes(message.type) ? message : null;
+  } catch {
+    return null;
+  }
+};
+
+// Runs once the page has loaded (WebView `injectedJavaScript`)
+export const SCROLL_SCRIPT = `
+(function () {
+  if (window.__newsScrollTracker) return;
+
+  function post(message) {
+    if (window.ReactNativeWebView) window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function pageHeight() {
+    return Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0);
+  }
+
+  // position: top of the viewport within the scrollable range; depth: bottom of the viewport within the page
+  function measure() {
+    var height = pageHeight();
+    var viewport = window.innerHeight;
+    var top = window.scrollY || document.documentElement.scrollTop || 0;
+    var range = height - viewport;
+    return {
+      position: range > 0 ? Math.min(1, top / range) : 0,
+      depth: height > 0 ? Math.min(1, (top + viewport) / height) : 1
+    };
+  }
+
+  var reportTimer = null;
+  window.addEventListener('scroll', function () {
+    if (reportTimer) return;
+    reportTimer = setTimeout(function () {
+      reportTimer = null;
+      var progress = measure();
+      post({ type: 'scroll', position: progress.position, depth: progress.depth });
+    }, ${REPORT_INTERVAL});
+  }, { passive: true });
+
+  window.__newsScrollTracker = {
+    scrollTo: function (position) {
+      var range = pageHeight() - window.innerHeight;
+      if (range > 0) window.scrollTo(0, Math.round(range * position));
+    }
+  };
+  post({ type: 'scrollTrackerReady', depth: measure().depth });
+})();
+true;
+`;
+
+// Scroll the page to a position (0-1)
+export const scrollToScript = (position: number): string =>
+  `window.__newsScrollTracker && window.__newsScrollTracker.scrollTo(${Number(position) || 0}); true;`;
@@ -0,0 +1,184 @@
+import { getDatabase, runInTransaction } from './database';
+import { getArticleId } from './articleUrl';
+import type { ArticleSummary } from './summaryService';
+
+export type SearchResultKind = 'article' | 'note' | 'highlight' | 'summary';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string; // Article ID, note ID, highlight ID or (for summaries) article ID
+  articleId: string;
+  articleUrl: string;
+  title: string; // Article title
+  body: string; // Full indexed text: description, note, highlight or summary
+  snippet: string; // Part of the text around the match; matches are wrapped in MATCH_START/MATCH_END
+}
+
+export interface ParsedQuery {
+  terms: string[]; // Words (prefix-matched) and "quoted phrases"
+  tags: string[]; // tag:name
+  sources: string[]; // source:name
+}
+
+// Markers around matched words in SearchResult.snippet
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+
+const MAX_RESULTS = 50;
+
+interface SearchRow {
+  kind: SearchResultKind;
+  ref_id: string;
+  article_id: string;
+  article_url: string | null;
+  title: string;
+  body: string;
+  snippet: string;
+}
+
+// Column weights for bm25(): title, body, tags
+const RANK = 'bm25(search_index, 10.0, 4.0, 6.0)';
+
+const hasWordCharacters = (text: string): boolean => /[0-9A-Za-z\u00C0-\uFFFF]/.test(text);
+
+// FTS5 string literal; double quotes inside it are doubled
+const quote = (text: string): string => `"${text.replace(/"/g, '""')}"`;
+
+const rowToResult = (row: SearchRow): SearchResult => ({
+  kind: row.kind,
+  id: row.ref_id,
+  articleId: row.article_id,
+  articleUrl: row.article_url || row.article_id, // Article IDs are URLs too
+  title: row.title,
+  body: row.body,
+  snippet: row.snippet,
+});
+
+class SearchService {
+  /**
+   * ========== SEARCH ==========
+   */
+
+  /**
+   * Split a query into search terms and filters. Supports `tag:name`,
+   * `source:name` (either can be quoted, e.g. `tag:"climate change"`) and
+   * "quoted phrases"; any other word matches words starting with it.
+   */
+  parseQuery(query: string): ParsedQuery {
+    const parsed: ParsedQuery = { terms: [], tags: [], sources: [] };
+    const tokens = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokens.exec(query)) !== null) {
+      const filter = (match[1] || match[3] || '').toLowerCase();
+      const filterValue = (match[2] ?? match[4] ?? '').trim();
+
+      if (filter === 'tag' && filterValue) {
+        parsed.tags.push(filterValue);
+      } else if (filter === 'source' && filterValue) {
+        parsed.sources.push(filterValue);
+      } else if (match[5] !== undefined) {
+        if (hasWordCharacters(match[5])) {
+          parsed.terms.push(quote(match[5].trim()));
+        }
+      } else if (hasWordCharacters(match[0])) {
+        parsed.terms.push(`${quote(match[0])}*`);
+      }
+    }
+
+    return parsed;
+  }
+
+  // Search everything stored on this device, best matches first
+  async search(query: string, limit: number = MAX_RESULTS): Promise<SearchResult[]> {
+    const { terms, tags, sources } = this.parseQuery(query);
+    if (terms.length === 0 && tags.length === 0 && sources.length === 0) {
+      return [];
+    }
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (terms.length > 0) {
+      conditions.push('search_index MATCH ?');
+      params.push(terms.join(' '));
+    }
+    tags.forEach(tag => {
+      conditions.push(
+        `search_docs.article_id IN (
+           SELECT article_tags.article_id FROM article_tags
+           JOIN tags ON tags.id = article_tags.tag_id
+           WHERE LOWER(tags.name) = LOWER(?)
+         )`
+      );
+      params.push(tag);
+    });
+    sources.forEach(source => {
+      conditions.push(`LOWER(articles.source_name) LIKE ? ESCAPE '\\'`);
+      params.push(`%${source.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`);
+    });
+
+    // Without search terms there is nothing to rank: show articles first, newest first
+    const snippet = terms.length > 0
+      ? `snippet(search_index, -1, '${MATCH_START}', '${MATCH_END}', '…', 16)`
+      : 'substr(search_index.body, 1, 160)';
+    const order = terms.length > 0
+      ? RANK
+      : "search_docs.kind = 'article' DESC, search_docs.id DESC";
+
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SearchRow>(
+        `SELECT search_docs.kind, search_docs.ref_id, search_docs.article_id, articles.url AS article_url,
+           search_index.title, search_index.body, ${snippet} AS snippet
+         FROM search_index
+         JOIN search_docs ON search_docs.id = search_index.rowid
+         LEFT JOIN articles ON articles.id = search_docs.article_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY ${order}
+         LIMIT ?`,
+        ...params, limit
+      );
+      return rows.map(rowToResult);
+    } catch (error) {
+      console.error('Error searching:', error);
+      return [];
+    }
+  }
+
+  /**
+   * ========== INDEXING ==========
+   */
+
+  // Replace the indexed summaries; articles, notes and highlights are indexed by the database itself
+  async indexSummaries(summaries: ArticleSummary[]): Promise<void> {
+    try {
+      await runInTransaction(async (db) => {
+        await db.runAsync(
+          "DELETE FROM search_index WHERE rowid IN (SELECT id FROM search_docs WHERE kind = 'summary')"
+        );
+        await db.runAsync("DELETE FROM search_docs WHERE kind = 'summary'");
+
+        for (const summary of summaries) {
+          const articleId = getArticleId(summary.articleUrl);
+          const result = await db.runAsync(
+            "INSERT OR IGNORE INTO search_docs (kind, ref_id, article_id) VALUES ('summary', ?, ?)",
+            articleId, articleId
+          );
+          if (result.changes === 0) continue; // Same article summarized under another URL
+
+          await db.runAsync(
+            "INSERT INTO search_index (rowid, title, body, tags) VALUES (?, ?, ?, '')",
+            result.lastInsertRowId,
+            summary.articleTitle,
+            [summary.summary, ...summary.keyPoints].join('\n')
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Error indexing summaries:', error);
+    }
+  }
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,358 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { Article } from '../types';
+import { readerService, ReaderBlock } from './readerService';
+import { summaryService } from './summaryService';
+import { readingHistoryService } from './readingHistoryService';
+
+const SETTINGS_STORAGE_KEY = '@speech_settings';
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export interface SpeechSettings {
+  rate: number; // 1 is normal speed
+}
+
+const DEFAULT_SETTINGS: SpeechSettings = {
+  rate: 1,
+};
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused';
+
+// One stretch of text read in a single utterance
+export interface SpeechSegment {
+  kind: 'title' | 'summary' | 'body';
+  text: string;
+  blockIndex?: number; // Reader view block the text comes from (body only)
+}
+
+export interface PlaybackStatus {
+  state: PlaybackState;
+  queue: Article[];
+  queueIndex: number;
+  segments: SpeechSegment[]; // Of the article being played
+  segmentIndex: number;
+  rate: number;
+}
+
+type PlaybackListener = (status: PlaybackStatus) => void;
+
+// Block types that are read aloud; code and images are skipped
+const SPOKEN_BLOCKS: ReaderBlock['type'][] = ['heading', 'paragraph', 'quote', 'listItem'];
+
+// Listening sessions shorter than this aren't recorded (same as reading)
+const MIN_LISTENING_TIME = 5; // seconds
+
+// Split text that is too long for one utterance at sentence ends
+const splitForSpeech = (text: string): string[] => {
+  const limit = Math.min(Speech.maxSpeechInputLength || 4000, 4000) - 100;
+  if (text.length <= limit) return [text];
+
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const sentence of text.match(/[^.!?]+[.!?]*\s*/g) || [text]) {
+    if (chunk && chunk.length + sentence.length > limit) {
+      chunks.push(chunk.trim());
+      chunk = '';
+    }
+    // A single sentence over the limit is cut where it has to be
+    for (let start = 0; start < sentence.length; start += limit) {
+      chunk += sentence.slice(start, start + limit);
+      if (chunk.length >= limit) {
+        chunks.push(chunk.trim());
+        chunk = '';
+      }
+    }
+  }
+  if (chunk.trim()) chunks.push(chunk.trim());
+  return chunks;
+};
+
+class SpeechService {
+  private queue: Article[] = [];
+  private queueIndex = 0;
+  private segments: SpeechSegment[] = [];
+  private segmentIndex = 0;
+  private state: PlaybackState = 'idle';
+  private rate = DEFAULT_SETTINGS.rate;
+  private listeners = new Set<PlaybackListener>();
+  private utteranceId = 0; // Callbacks from earlier utterances are ignored
+  private listenedMs = 0; // Listening time for the current article
+  private listeningSince: number | null = null;
+
+  constructor() {
+    this.getSettings().then(settings => {
+      this.rate = settings.rate;
+    });
+  }
+
+  /**
+   * ========== SETTINGS MANAGEMENT ==========
+   */
+
+  async getSettings(): Promise<SpeechSettings> {
+    try {
+      const data = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
+      return data ? { ...DEFAULT_SETTINGS, ...JSON.parse(data) } : DEFAULT_SETTINGS;
+    } catch (error) {
+      console.error('Error getting speech settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  async updateSettings(settings: Partial<SpeechSettings>): Promise<void> {
+    try {
+      const current = await this.getSettings();
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...current, ...settings }));
+    } catch (error) {
+      console.error('Error updating speech settings:', error);
+    }
+  }
+
+  /**
+   * ========== STATUS ==========
+   */
+
+  getStatus(): PlaybackStatus {
+    return {
+      state: this.state,
+      queue: this.queue,
+      queueIndex: this.queueIndex,
+      segments: this.segments,
+      segmentIndex: this.segmentIndex,
+      rate: this.rate,
+    };
+  }
+
+  // Current article, if anything is queued
+  getCurrentArticle(): Article | null {
+    return this.state === 'idle' ? null : this.queue[this.queueIndex] || null;
+  }
+
+  // Listen for playback changes; returns the unsubscribe function
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setState(state: PlaybackState): void {
+    this.state = state;
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * ========== QUEUE ==========
+   */
+
+  // Replace the queue and start playing (a single article is a queue of one)
+  async playQueue(articles: Article[], startIndex: number = 0): Promise<void> {
+    if (articles.length === 0) return;
+    await this.finishArticle();
+    this.queue = articles;
+    await this.loadArticle(Math.min(Math.max(0, startIndex), articles.length - 1));
+  }
+
+  // Add articles after the ones already queued, skipping duplicates
+  enqueue(articles: Article[]): void {
+    if (this.state === 'idle') {
+      this.playQueue(articles);
+      return;
+    }
+    const queued = new Set(this.queue.map(article => article.url));
+    this.queue = [...this.queue, ...articles.filter(article => !queued.has(article.url))];
+    this.notify();
+  }
+
+  async nextArticle(): Promise<void> {
+    if (this.queueIndex >= this.queue.length - 1) return;
+    await this.finishArticle();
+    await this.loadArticle(this.queueIndex + 1);
+  }
+
+  async previousArticle(): Promise<void> {
+    if (this.queueIndex === 0) return;
+    await this.finishArticle();
+    await this.loadArticle(this.queueIndex - 1);
+  }
+
+  /**
+   * ========== PLAYBACK ==========
+   */
+
+  pause(): void {
+    if (this.state !== 'playing') return;
+    // Not every platform can pause speech, so stop and restart the segment on resume
+    this.utteranceId++;
+    Speech.stop();
+    this.stopListeningClock();
+    this.setState('paused');
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.speakCurrent();
+  }
+
+  togglePlayback(): void {
+    if (this.state === 'playing') {
+      this.pause();
+    } else {
+      this.resume();
+    }
+  }
+
+  // Skip to the next or previous paragraph
+  skipSegment(direction: 1 | -1): void {
+    if (this.state === 'idle' || this.state === 'loading') return;
+    const index = this.segmentIndex + direction;
+    if (index < 0) return;
+    if (index >= this.segments.length) {
+      this.nextArticle();
+      return;
+    }
+    this.segmentIndex = index;
+    if (this.state === 'playing') {
+      this.speakCurrent();
+    } else {
+      this.notify();
+    }
+  }
+
+  async setRate(rate: number): Promise<void> {
+    this.rate = rate;
+    // Restart the current segment so the new speed applies right away
+    if (this.state === 'playing') {
+      this.speakCurrent();
+    } else {
+      this.notify();
+    }
+    await this.updateSettings({ rate });
+  }
+
+  // Stop playback and clear the queue
+  async stop(): Promise<void> {
+    await this.finishArticle();
+    this.utteranceId++;
+    Speech.stop();
+    this.queue = [];
+    this.queueIndex = 0;
+    this.segments = [];
+    this.segmentIndex = 0;
+    this.setState('idle');
+  }
+
+  /**
+   * ========== INTERNALS ==========
+   */
+
+  // Build the article's segments and start reading from the top
+  private async loadArticle(index: number): Promise<void> {
+    const id = ++this.utteranceId;
+    Speech.stop();
+    this.queueIndex = index;
+    this.segments = [];
+    this.segmentIndex = 0;
+    this.setState('loading');
+
+    const segments = await this.buildSegments(this.queue[index]);
+    // Another article may have been picked in the meantime
+    if (id !== this.utteranceId) return;
+
+    this.segments = segments;
+    this.speakCurrent();
+  }
+
+  // Title, then the saved summary if any, then the article text
+  private async buildSegments(article: Article): Promise<SpeechSegment[]> {
+    const segments: SpeechSegment[] = [{ kind: 'title', text: article.title }];
+
+    const summary = await summaryService.getSummary(article.url);
+    if (summary) {
+      segments.push({ kind: 'summary', text: `Summary. ${summary.summary}` });
+    }
+
+    const content = await readerService.getContent(article);
+    if (content) {
+      content.blocks.forEach((block, blockIndex) => {
+        if (!('spans' in block) || !SPOKEN_BLOCKS.includes(block.type)) return;
+        const text = block.spans.map(span => span.text).join('').trim();
+        splitForSpeech(text).forEach(part => {
+          if (part) segments.push({ kind: 'body', text: part, blockIndex });
+        });
+      });
+    } else {
+      // No readable page: fall back to what the feed provided
+      const text = article.content || article.description;
+      if (text) splitForSpeech(text).forEach(part => segments.push({ kind: 'body', text: part }));
+    }
+    return segments;
+  }
+
+  private speakCurrent(): void {
+    const segment = this.segments[this.segmentIndex];
+    if (!segment) {
+      this.handleArticleDone();
+      return;
+    }
+
+    const id = ++this.utteranceId;
+    Speech.stop();
+    Speech.speak(segment.text, {
+      rate: this.rate,
+      onDone: () => {
+        if (id !== this.utteranceId) return;
+        this.segmentIndex++;
+        this.speakCurrent();
+      },
+      onError: (error) => {
+        if (id !== this.utteranceId) return;
+        console.error('Error speaking article:', error);
+        this.stopListeningClock();
+        this.setState('paused');
+      },
+    });
+    this.startListeningClock();
+    this.setState('playing');
+  }
+
+  // Move on to the next queued article, or stop at the end of the queue
+  private async handleArticleDone(): Promise<void> {
+    if (this.queueIndex < this.queue.length - 1) {
+      await this.finishArticle();
+      await this.loadArticle(this.queueIndex + 1);
+    } else {
+      await this.stop();
+    }
+  }
+
+  private startListeningClock(): void {
+    if (this.listeningSince === null) this.listeningSince = Date.now();
+  }
+
+  private stopListeningClock(): void {
+    if (this.listeningSince === null) return;
+    this.listenedMs += Date.now() - this.listeningSince;
+    this.listeningSince = null;
+  }
+
+  // Record the listening time for the current article in reading history
+  private async finishArticle(): Promise<void> {
+    this.stopListeningClock();
+    const seconds = Math.floor(this.listenedMs / 1000);
+    const article = this.queue[this.queueIndex];
+    this.listenedMs = 0;
+
+    if (article && seconds >= MIN_LISTENING_TIME) {
+      await readingHistoryService.addToHistory(article, seconds, 'general', undefined, 'listening');
+    }
+  }
+}
+
+export const speechService = new SpeechService();
@@ -0,0 +1,812 @@
+import { Article } from '../types';
+import type { SummarySettings } from './summaryService';
+import { ArticleEntity, cleanEntities } from './entities';
+import { ArticleAnalysis, cleanAnalysis } from './framing';
+import { summarizeExtractive } from './extractiveSummarizer';
+import { readerService, getBlockText } from './readerService';
+
+/**
+ * Backends that can write an article summary; AI backends can also answer questions about an
+ * article and combine several articles into a briefing.
+ * OpenRouter and any server speaking the OpenAI chat completions API (Ollama, llama.cpp,
+ * LM Studio, vLLM...) share one implementation; the on-device provider picks the key
+ * sentences from the article itself (see extractiveSummarizer).
+ */
+
+export type SummaryProviderId = 'openrouter' | 'openaiCompatible' | 'local';
+
+// Model recorded for summaries written by the on-device provider
+export const LOCAL_MODEL = 'on-device';
+
+export type SummaryStyle = 'tldr' | 'bullets' | 'eli5' | 'executive' | 'timeline';
+export type SummaryLength = 'short' | 'medium' | 'long';
+
+// How a summary is written; saved with each summary so versions can be told apart
+export interface SummaryOptions {
+  style: SummaryStyle;
+  length: SummaryLength;
+  language: string; // 'auto' for the article's own language, otherwise a language name
+  maxKeyPoints: number;
+}
+
+export const SUMMARY_STYLES: { id: SummaryStyle; name: string; description: string }[] = [
+  { id: 'tldr', name: 'TL;DR', description: 'Neutral summary with key points' },
+  { id: 'bullets', name: 'Bullets', description: 'Key points only, with a one-line headline' },
+  { id: 'eli5', name: 'ELI5', description: 'Plain words, no jargon' },
+  { id: 'executive', name: 'Executive Brief', description: 'Bottom line first, then implications' },
+  { id: 'timeline', name: 'Timeline', description: 'Events in the order they happened' },
+];
+
+export const SUMMARY_LENGTHS: { id: SummaryLength; name: string }[] = [
+  { id: 'short', name: 'Short' },
+  { id: 'medium', name: 'Medium' },
+  { id: 'long', name: 'Long' },
+];
+
+export const SUMMARY_LANGUAGES = [
+  'auto', 'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese',
+  'Dutch', 'Arabic', 'Chinese', 'Japanese', 'Hindi',
+];
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  style: 'tldr',
+  length: 'medium',
+  language: 'auto',
+  maxKeyPoints: 5,
+};
+
+export const getLanguageName = (language: string): string =>
+  language === 'auto' ? "Article's language" : language;
+
+// Short label for a set of options, e.g. "ELI5 · Short · French"
+export const describeSummaryOptions = (options: SummaryOptions): string => [
+  SUMMARY_STYLES.find(style => style.id === options.style)?.name || options.style,
+  SUMMARY_LENGTHS.find(length => length.id === options.length)?.name || options.length,
+  ...(options.language === 'auto' ? [] : [options.language]),
+].join(' · ');
+
+export const sameSummaryOptions = (a: SummaryOptions, b: SummaryOptions): boolean =>
+  a.style === b.style && a.length === b.length && a.language === b.language && a.maxKeyPoints === b.maxKeyPoints;
+
+export interface SummaryRequest {
+  article: Article;
+  options: SummaryOptions;
+}
+
+// What has arrived so far while a summary streams in
+export interface PartialSummary {
+  summary: string;
+  keyPoints: string[];
+}
+
+// Tokens one request used, as reported by the server or estimated from the text
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // The server didn't report usage
+}
+
+export interface SummaryResult extends PartialSummary {
+  model: string; // Shown with the summary; 'fallback' when written on the device because AI failed
+  entities?: ArticleEntity[]; // People, organizations and places the model found
+  analysis?: ArticleAnalysis; // Sentiment, tone and loaded language, when the model gave them
+  usage?: TokenUsage; // Missing when no AI model was called
+}
+
+// A follow-up question about an article, answered from the article text alone
+export interface QuestionRequest {
+  articleTitle: string;
+  articleText: string;
+  history: ChatMessage[]; // Earlier questions and answers, oldest first
+  question: string;
+}
+
+export interface QuestionAnswer {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+// Several articles to be combined into one briefing; articles are cited by their position, from 1
+export interface BriefingRequest {
+  title: string;
+  articles: { title: string; source: string; text: string }[];
+}
+
+export interface BriefingFactDraft {
+  text: string;
+  sources: number[]; // Positions in BriefingRequest.articles, from 1
+}
+
+export interface BriefingDraft {
+  overview: string;
+  sections: { heading: string; facts: BriefingFactDraft[] }[];
+  model: string;
+  usage?: TokenUsage; // Missing when no AI model was called
+}
+
+export interface SummaryProvider {
+  id: SummaryProviderId;
+  name: string;
+  description: string;
+  // Whether the settings hold everything the provider needs (key, server address...)
+  isConfigured(settings: SummarySettings): boolean;
+  // Model the settings select, as recorded in SummaryResult.model
+  getModel(settings: SummarySettings): string;
+  summarize(request: SummaryRequest, settings: SummarySettings): Promise<SummaryResult>;
+  // Same as summarize, reporting the summary as it is written; rejects when aborted
+  summarizeStream?(
+    request: SummaryRequest,
+    settings: SummarySettings,
+    onUpdate: (partial: PartialSummary) => void,
+    signal: AbortSignal
+  ): Promise<SummaryResult>;
+  // Answer a question about an article, reporting the answer as it is written; rejects when aborted
+  answerQuestion?(
+    request: QuestionRequest,
+    settings: SummarySettings,
+    onText: (text: string) => void,
+    signal: AbortSignal
+  ): Promise<QuestionAnswer>;
+  // Combine several articles into one briefing with sections and cited facts
+  writeBriefing?(request: BriefingRequest, settings: SummarySettings): Promise<BriefingDraft>;
+  // Resolves when the backend answers; rejects with a message the user can act on
+  testConnection(settings: SummarySettings): Promise<void>;
+}
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+// Local models can be slow to load on first use
+const REQUEST_TIMEOUT = 60000;
+// A streamed answer keeps the connection open while it is written
+const STREAM_TIMEOUT = 3 * 60000;
+
+const SYSTEM_PROMPT =
+  'You are a helpful assistant that summarizes news articles concisely and extracts key points. Always answer in exactly the format requested.';
+
+const QUESTION_PROMPT =
+  'You answer questions about one news article, using only the article text you are given. ' +
+  'Quote names, figures and dates exactly as the article gives them. If the article does not ' +
+  'contain the answer, say so plainly instead of guessing. Keep answers short.';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Where and how to reach an OpenAI-compatible chat completions API
+export interface ChatEndpoint {
+  baseUrl: string; // Up to and including the version, e.g. http://192.168.1.20:11434/v1
+  apiKey: string;
+  model: string;
+  headers?: Record<string, string>;
+}
+
+// "http://host:11434/v1/" → "http://host:11434/v1"
+export const normalizeBaseUrl = (baseUrl: string): string => baseUrl.trim().replace(/\/+$/, '');
+
+/**
+ * ========== PROMPT & RESPONSE ==========
+ */
+
+// Title, description and content, with NewsAPI's "[+123 chars]" truncation markers removed
+export const getArticleText = (article: Article): string => {
+  let articleText = '';
+  if (article.title) articleText += `Title: ${article.title}\n\n`;
+  if (article.description) articleText += `${article.description}\n\n`;
+  if (article.content) {
+    articleText += article.content.replace(/\[\+\d+ chars\]/g, '');
+  }
+  return articleText;
+};
+
+// Summary sentences for each length
+const LENGTH_SENTENCES: Record<SummaryLength, string> = {
+  short: '1 sentence',
+  medium: '2-3 sentences',
+  long: '4-6 sentences',
+};
+
+// Room for the answer; long summaries in some languages need more
+const MAX_TOKENS: Record<SummaryLength, number> = {
+  short: 600,
+  medium: 700,
+  long: 1100,
+};
+
+// What goes in the SUMMARY line and the KEY POINTS for each style
+const STYLE_INSTRUCTIONS: Record<SummaryStyle, (options: SummaryOptions) => string> = {
+  tldr: ({ length, maxKeyPoints }) =>
+    `1. A concise, neutral TL;DR summary (${LENGTH_SENTENCES[length]})
+2. ${maxKeyPoints} key points as bullet points`,
+  bullets: ({ maxKeyPoints }) =>
+    `1. A one-line headline as the summary
+2. ${maxKeyPoints} key points as bullet points that together cover the whole article`,
+  eli5: ({ length, maxKeyPoints }) =>
+    `1. A summary a 10-year-old could follow, in plain words without jargon (${LENGTH_SENTENCES[length]})
+2. ${maxKeyPoints} key points as simple bullet points`,
+  executive: ({ length, maxKeyPoints }) =>
+    `1. An executive brief: the bottom line and why it matters, for a busy decision maker (${LENGTH_SENTENCES[length]})
+2. ${maxKeyPoints} key points covering implications, risks and what to watch`,
+  timeline: ({ length, maxKeyPoints }) =>
+    `1. A summary of where things stand now (${LENGTH_SENTENCES[length]})
+2. Up to ${maxKeyPoints} key points as a timeline of events in chronological order, each starting with its date or time when the article gives one`,
+};
+
+const ENTITY_INSTRUCTIONS = `3. The people, organizations and places the article is about, each named once as the article writes it, most important first`;
+
+const ANALYSIS_INSTRUCTIONS = `4. How the article is written: its overall sentiment from -1 (very negative) to 1 (very positive); whether it is reporting or opinion; and any loaded or emotive words it uses in its own voice (not in quotes), or none`;
+
+// Plain labelled lines rather than JSON, so the answer can be shown while it is being written
+const buildSummaryPrompt = (articleText: string, options: SummaryOptions): string => `Please analyze this news article and provide:
+
+${STYLE_INSTRUCTIONS[options.style](options)}
+${ENTITY_INSTRUCTIONS}
+${ANALYSIS_INSTRUCTIONS}
+
+Write the summary and key points ${
+  options.language === 'auto' ? 'in the same language as the article' : `in ${options.language}`
+}, but keep the labels, the entity types and the tone in English. Give loaded words as the article writes them.
+
+Article:
+${articleText}
+
+Please respond in exactly this format, with nothing before or after it:
+SUMMARY: Your summary here
+KEY POINTS:
+- Point 1
+- Point 2
+ENTITIES:
+- person: Full Name
+- organization: Name
+- place: Name
+SENTIMENT: -0.3
+TONE: reporting or opinion
+LOADED: word, word (or none)`;
+
+const buildBriefingPrompt = ({ title, articles }: BriefingRequest): string => `Write a news briefing titled "${title}" from these ${articles.length} articles.
+
+${articles.map((article, index) => `[${index + 1}] ${article.title} (${article.source})\n${article.text}`).join('\n\n')}
+
+Group the news into a few sections by topic. State each fact once: when several articles report the same thing, write it as one fact citing all of them. Cite articles by their number.
+
+Respond with JSON only, in exactly this shape:
+{"overview": "Two or three sentences on the main news", "sections": [{"heading": "Topic", "facts": [{"text": "One fact", "sources": [1, 3]}]}]}`;
+
+const BULLET = /^\s*(?:[-*•]|\d+[.)])\s+/;
+const ENTITIES_LABEL = /^\s*\**entities\**\s*:/i;
+// "SENTIMENT: -0.3", "TONE: reporting", "LOADED: slammed, radical"
+const analysisLine = (label: string) => new RegExp(`^\\s*\\**${label}\\**\\s*:\\s*(.*)$`, 'im');
+// "- person: Joe Biden"
+const ENTITY_LINE = /^\s*(?:[-*•]|\d+[.)])?\s*\**(person|organization|place)\**\s*:\s*(.+)$/i;
+
+// Some models answer in JSON whatever the prompt says, often inside a markdown code block
+const parseJsonSummary = (
+  content: string
+): (PartialSummary & { entities: ArticleEntity[]; analysis: ArticleAnalysis | null }) | null => {
+  try {
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[1] : content);
+    return {
+      summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+      keyPoints: Array.isArray(parsed.keyPoints) ? parsed.keyPoints.map(String) : [],
+      entities: Array.isArray(parsed.entities) ? cleanEntities(parsed.entities) : [],
+      analysis: cleanAnalysis(parsed),
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Keep only well-formed sections and facts from a briefing answer
+const parseBriefingResponse = (content: string): Omit<BriefingDraft, 'model' | 'usage'> => {
+  try {
+    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[1] : content.slice(content.indexOf('{')));
+    const sections = (Array.isArray(parsed.sections) ? parsed.sections : []).map((section: any) => ({
+      heading: String(section?.heading || '').trim(),
+      facts: (Array.isArray(section?.facts) ? section.facts : [])
+        .map((fact: any) => ({
+          text: String(fact?.text || '').trim(),
+          sources: (Array.isArray(fact?.sources) ? fact.sources : []).map(Number).filter(Number.isInteger),
+        }))
+        .filter((fact: BriefingFactDraft) => fact.text),
+    }));
+    return { overview: String(parsed.overview || '').trim(), sections };
+  } catch {
+    console.error('Failed to parse AI briefing:', content);
+    throw new Error('Failed to parse AI response. Please try again.');
+  }
+};
+
+/**
+ * Read a summary answer, complete or still being written. A partial answer gives whatever
+ * can be read so far; a JSON answer shows nothing until it is complete.
+ */
+export const parseSummaryText = (content: string, maxKeyPoints: number): PartialSummary => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('```')) {
+    const parsed = parseJsonSummary(trimmed);
+    return parsed
+      ? { summary: parsed.summary.trim(), keyPoints: parsed.keyPoints.slice(0, maxKeyPoints) }
+      : { summary: '', keyPoints: [] };
+  }
+
+  // Entity lines are bullets too, so the key points end where they start
+  const allLines = trimmed.split('\n');
+  const entitiesStart = allLines.findIndex(line => ENTITIES_LABEL.test(line));
+  const lines = entitiesStart >= 0 ? allLines.slice(0, entitiesStart) : allLines;
+  const pointsStart = lines.findIndex(line => /^\s*\**key points\**\s*:/i.test(line));
+  // Without the KEY POINTS label, the points start at the first bullet
+  const firstPoint = pointsStart >= 0 ? pointsStart + 1 : lines.findIndex(line => BULLET.test(line));
+  const summaryLines = lines.slice(0, pointsStart >= 0 ? pointsStart : firstPoint >= 0 ? firstPoint : lines.length);
+
+  const summary = summaryLines
+    .join(' ')
+    .replace(/^\s*\**(?:summary|tl;dr)\**\s*:\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const keyPoints = firstPoint >= 0
+    ? lines
+        .slice(firstPoint)
+        .filter(line => BULLET.test(line))
+        .map(line => line.replace(BULLET, '').trim())
+        .filter(Boolean)
+    : [];
+
+  return { summary, keyPoints: keyPoints.slice(0, maxKeyPoints) };
+};
+
+// The ENTITIES lines of a finished answer; models that leave them out give none
+export const parseSummaryEntities = (content: string): ArticleEntity[] => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('```')) {
+    return parseJsonSummary(trimmed)?.entities || [];
+  }
+
+  const lines = trimmed.split('\n');
+  const entitiesStart = lines.findIndex(line => ENTITIES_LABEL.test(line));
+  if (entitiesStart < 0) return [];
+  return cleanEntities(
+    lines
+      .slice(entitiesStart + 1)
+      .map(line => line.match(ENTITY_LINE))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({ type: match[1].toLowerCase(), name: match[2].replace(/\*+/g, '').trim() }))
+  );
+};
+
+// The SENTIMENT, TONE and LOADED lines of a finished answer; null if any are missing
+export const parseSummaryAnalysis = (content: string): ArticleAnalysis | null => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('```')) {
+    return parseJsonSummary(trimmed)?.analysis || null;
+  }
+
+  const [sentiment, tone, loaded] = ['sentiment', 'tone', 'loaded'].map(label =>
+    trimmed.match(analysisLine(label))?.[1].replace(/\*+/g, '').trim()
+  );
+  if (loaded === undefined) return null;
+  return cleanAnalysis({
+    sentiment: parseFloat(sentiment || ''),
+    tone,
+    loadedTerms: loaded.split(','),
+  });
+};
+
+// A finished answer must at least have the TL;DR
+const parseSummaryResponse = (content: string, maxKeyPoints: number): Omit<SummaryResult, 'model'> => {
+  const parsed = parseSummaryText(content, maxKeyPoints);
+  if (!parsed.summary) {
+    console.error('Failed to parse AI response:', content);
+    throw new Error('Failed to parse AI response. Please try again.');
+  }
+  return {
+    ...parsed,
+    entities: parseSummaryEntities(content),
+    analysis: parseSummaryAnalysis(content) || undefined,
+  };
+};
+
+/**
+ * ========== CHAT COMPLETIONS ==========
+ */
+
+interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  onUsage?: (usage: TokenUsage) => void; // Called when the server reports token usage
+}
+
+const readUsage = (usage: any): TokenUsage | null =>
+  usage && typeof usage.prompt_tokens === 'number'
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens || 0,
+        estimated: false,
+      }
+    : null;
+
+/**
+ * Error for a failed request. `retryable` marks failures worth trying again later: rate
+ * limits (429), server errors (5xx), timeouts and lost connections. `retryAfter` is the
+ * wait the server asked for (Retry-After header), in milliseconds.
+ */
+const requestError = (message: string, status?: number, retryAfter?: string | null): Error => {
+  let wait: number | undefined;
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    wait = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (!Number.isFinite(wait) || wait < 0) wait = undefined;
+  }
+  return Object.assign(new Error(message), {
+    status,
+    retryable: status === undefined || status === 429 || status >= 500,
+    retryAfter: wait,
+  });
+};
+
+// Roughly four characters a token, for servers that don't report usage
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateUsage = (messages: ChatMessage[], reply: string): TokenUsage => ({
+  promptTokens: estimateTokens(messages.map(message => message.content).join('\n')),
+  completionTokens: estimateTokens(reply),
+  estimated: true,
+});
+
+// Send a chat completion request and return the reply text
+export const requestChatCompletion = async (
+  endpoint: ChatEndpoint,
+  messages: ChatMessage[],
+  options: ChatCompletionOptions = {}
+): Promise<string> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(`${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {}),
+        ...endpoint.headers,
+      },
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages,
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxTokens ?? 500,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw requestError(
+        errorData.error?.message || `API request failed: ${response.status}`,
+        response.status,
+        response.headers.get('Retry-After')
+      );
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from AI model');
+    }
+    const usage = readUsage(data.usage);
+    if (usage) options.onUsage?.(usage);
+    return content;
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      throw requestError('The server took too long to respond.');
+    }
+    // fetch rejects with a TypeError when the server can't be reached
+    if (error instanceof TypeError) {
+      throw requestError('Could not reach the server.');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Stream a chat completion (server-sent events), calling onText with the reply so far
+ * after each chunk. Uses XMLHttpRequest because fetch in React Native can't read a
+ * response body while it downloads. Resolves with the whole reply, and rejects when the
+ * stream ends without [DONE].
+ */
+export const streamChatCompletion = (
+  endpoint: ChatEndpoint,
+  messages: ChatMessage[],
+  onText: (text: string) => void,
+  signal: AbortSignal,
+  options: ChatCompletionOptions = {}
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('Request cancelled'), { name: 'AbortError' });
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    let text = '';
+    let processed = 0; // Characters of the response already read
+    let done = false;
+
+    // Read the complete lines received since last time; once loaded, the last line too
+    const readEvents = (loaded = false) => {
+      const response = xhr.responseText || '';
+      const end = loaded ? response.length : response.lastIndexOf('\n') + 1;
+      if (end <= processed) return;
+      const lines = response.slice(processed, end).split('\n');
+      processed = end;
+
+      let changed = false;
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+          done = true;
+          break;
+        }
+        try {
+          const chunk = JSON.parse(data);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            changed = true;
+          }
+          // Sent in the last chunk, when the server supports stream_options
+          const usage = readUsage(chunk.usage);
+          if (usage) options.onUsage?.(usage);
+        } catch {
+          // Keep-alive comments and malformed chunks are skipped
+        }
+      }
+      if (changed) onText(text);
+    };
+
+    const handleAbort = () => xhr.abort();
+    signal.addEventListener('abort', handleAbort);
+    const cleanup = () => signal.removeEventListener('abort', handleAbort);
+
+    xhr.open('POST', `${normalizeBaseUrl(endpoint.baseUrl)}/chat/completions`);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    if (endpoint.apiKey) xhr.setRequestHeader('Authorization', `Bearer ${endpoint.apiKey}`);
+    Object.entries(endpoint.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = STREAM_TIMEOUT;
+
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) readEvents();
+    };
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        let message = `API request failed: ${xhr.status}`;
+        try {
+          message = JSON.parse(xhr.responseText).error?.message || message;
+        } catch {
+          // Not a JSON error body
+        }
+        reject(requestError(message, xhr.status, xhr.getResponseHeader('Retry-After')));
+        return;
+      }
+      readEvents(true);
+      // A stream that stops before [DONE] was cut off; its text is incomplete
+      if (!done) {
+        reject(new Error(text ? 'The response from the AI model was cut off' : 'No response from AI model'));
+        return;
+      }
+      resolve(text);
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(requestError('Could not reach the server.'));
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(requestError('The server took too long to respond.'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    xhr.send(JSON.stringify({
+      model: endpoint.model,
+      messages,
+      temperature: options.temperature ?? 0.3,
+      max_tokens: options.maxTokens ?? 500,
+      stream: true,
+      stream_options: { include_usage: true },
+    }));
+  });
+
+// Summarizer for any backend reachable through the chat completions API
+const createChatProvider = (
+  provider: Pick<SummaryProvider, 'id' | 'name' | 'description' | 'isConfigured'>,
+  getEndpoint: (settings: SummarySettings) => ChatEndpoint
+): SummaryProvider => ({
+  ...provider,
+
+  getModel(settings) {
+    return getEndpoint(settings).model;
+  },
+
+  async summarize({ article, options }, settings) {
+    const articleText = getArticleText(article);
+    if (articleText.length < 50) {
+      throw new Error('Article content is too short to summarize.');
+    }
+
+    const endpoint = getEndpoint(settings);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildSummaryPrompt(articleText, options) },
+    ];
+    let usage: TokenUsage | null = null;
+    const content = await requestChatCompletion(endpoint, messages, {
+      maxTokens: MAX_TOKENS[options.length],
+      onUsage: (reported) => { usage = reported; },
+    });
+    return {
+      ...parseSummaryResponse(content, options.maxKeyPoints),
+      model: endpoint.model,
+      usage: usage || estimateUsage(messages, content),
+    };
+  },
+
+  async summarizeStream({ article, options }, settings, onUpdate, signal) {
+    const articleText = getArticleText(article);
+    if (articleText.length < 50) {
+      throw new Error('Article content is too short to summarize.');
+    }
+
+    const endpoint = getEndpoint(settings);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildSummaryPrompt(articleText, options) },
+    ];
+    let usage: TokenUsage | null = null;
+    const content = await streamChatCompletion(
+      endpoint,
+      messages,
+      (text) => onUpdate(parseSummaryText(text, options.maxKeyPoints)),
+      signal,
+      {
+        maxTokens: MAX_TOKENS[options.length],
+        onUsage: (reported) => { usage = reported; },
+      }
+    );
+    return {
+      ...parseSummaryResponse(content, options.maxKeyPoints),
+      model: endpoint.model,
+      usage: usage || estimateUsage(messages, content),
+    };
+  },
+
+  async answerQuestion({ articleTitle, articleText, history, question }, settings, onText, signal) {
+    const endpoint = getEndpoint(settings);
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `${QUESTION_PROMPT}\n\nArticle: ${articleTitle}\n\n${articleText}`,
+      },
+      ...history,
+      { role: 'user', content: question },
+    ];
+    let usage: TokenUsage | null = null;
+    const text = await streamChatCompletion(endpoint, messages, onText, signal, {
+      maxTokens: 700,
+      onUsage: (reported) => { usage = reported; },
+    });
+    return { text, model: endpoint.model, usage: usage || estimateUsage(messages, text) };
+  },
+
+  async writeBriefing(request, settings) {
+    const endpoint = getEndpoint(settings);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildBriefingPrompt(request) },
+    ];
+    let usage: TokenUsage | null = null;
+    const content = await requestChatCompletion(endpoint, messages, {
+      maxTokens: 1500,
+      onUsage: (reported) => { usage = reported; },
+    });
+    return {
+      ...parseBriefingResponse(content),
+      model: endpoint.model,
+      usage: usage || estimateUsage(messages, content),
+    };
+  },
+
+  // A one-word reply checks the address, the key and the model in one go
+  async testConnection(settings) {
+    await requestChatCompletion(
+      getEndpoint(settings),
+      [{ role: 'user', content: 'Reply with the word OK.' }],
+      { temperature: 0, maxTokens: 5 }
+    );
+  },
+});
+
+/**
+ * ========== PROVIDERS ==========
+ */
+
+const openRouterProvider = createChatProvider(
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    description: 'Hosted models from OpenAI, Google, Anthropic and more (API key required)',
+    isConfigured: (settings) => !!settings.apiKey,
+  },
+  (settings) => ({
+    baseUrl: OPENROUTER_BASE_URL,
+    apiKey: settings.apiKey,
+    model: settings.model,
+    headers: {
+      'HTTP-Referer': 'https://hafida-belayd.me/',
+      'X-Title': 'News Reader App',
+    },
+  })
+);
+
+const openAICompatibleProvider = createChatProvider(
+  {
+    id: 'openaiCompatible',
+    name: 'OpenAI-Compatible Server',
+    description: 'Any server with an OpenAI-style API, e.g. Ollama or llama.cpp on your network',
+    isConfigured: (settings) => !!normalizeBaseUrl(settings.baseUrl) && !!settings.customModel.trim(),
+  },
+  (settings) => ({
+    baseUrl: settings.baseUrl,
+    apiKey: settings.customApiKey,
+    model: settings.customModel.trim(),
+  })
+);
+
+// On-device summary of the feed text; used when AI is unavailable or fails
+export const summarizeFallback = (
+  article: Article,
+  options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS
+): SummaryResult => ({ ...summarizeExtractive(article, options), model: 'fallback' });
+
+// Works offline and sends nothing anywhere; uses the full page when it is already on the device
+const localProvider: SummaryProvider = {
+  id: 'local',
+  name: 'On-Device',
+  description: 'Picks the key sentences on this device; private, no server or API key needed',
+  isConfigured: () => true,
+  getModel: () => LOCAL_MODEL,
+
+  async summarize({ article, options }) {
+    const content = await readerService.getLocalContent(article);
+    const body = content
+      ? content.blocks
+          .filter(block => block.type === 'paragraph' || block.type === 'listItem')
+          .map(getBlockText)
+          .join('\n')
+      : '';
+    return { ...summarizeExtractive(article, options, body), model: LOCAL_MODEL };
+  },
+
+  async testConnection() {
+    // Nothing to connect to
+  },
+};
+
+export const SUMMARY_PROVIDERS: SummaryProvider[] = [
+  openRouterProvider,
+  openAICompatibleProvider,
+  localProvider,
+];
+
+export const getSummaryProvider = (id: SummaryProviderId): SummaryProvider =>
+  SUMMARY_PROVIDERS.find(provider => provider.id === id) || openRouterProvider;
@@ -0,0 +1,276 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Article } from '../types';
+import { summaryService, isSummarizerActive } from './summaryService';
+import { SummaryOptions } from './summaryProviders';
+
+const JOBS_STORAGE_KEY = '@summary_jobs';
+
+// Attempts before a job is marked failed
+const MAX_ATTEMPTS = 5;
+// Wait before the first retry; it doubles with each attempt, up to MAX_RETRY_DELAY
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+// Finished jobs are kept a day so their status can be shown, up to MAX_JOBS in all
+const FINISHED_JOB_AGE = 24 * 60 * 60 * 1000;
+const MAX_JOBS = 200;
+
+export type SummaryJobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+// Writing one article's summary in the background
+export interface SummaryJob {
+  articleUrl: string;
+  article: Article;
+  options?: SummaryOptions; // The defaults from the settings when missing
+  status: SummaryJobStatus;
+  attempts: number;
+  error?: string; // Why the last attempt failed
+  nextAttemptAt: number; // Queued jobs wait until then (retry backoff)
+  createdAt: number;
+  updatedAt: number;
+}
+
+type JobsListener = (jobs: SummaryJob[]) => void;
+
+// Failures that may pass (rate limits, server errors, lost connections) are retried after a
+// growing wait, or the one the server asked for; others fail at once
+const getRetryDelay = (error: any, attempts: number): number | null => {
+  if (!error?.retryable || attempts >= MAX_ATTEMPTS) return null;
+  const backoff = Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+  return Math.max(backoff, error.retryAfter || 0);
+};
+
+/**
+ * Summaries written in the background, a few at a time. Jobs are stored, so the ones
+ * waiting when the app closes run after the next start. A rate limit (429) pauses the
+ * whole queue, not just the job that hit it.
+ */
+class SummaryQueueService {
+  private listeners = new Set<JobsListener>();
+  private running = new Set<string>(); // Article URLs being summarized now
+  private pausedUntil = 0; // Set by a rate limit
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  // Job updates run one after another, so concurrent jobs don't overwrite each other
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  /**
+   * ========== JOBS ==========
+   */
+
+  async getJobs(): Promise<SummaryJob[]> {
+    try {
+      const data = await AsyncStorage.getItem(JOBS_STORAGE_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting summary jobs:', error);
+      return [];
+    }
+  }
+
+  async getJob(articleUrl: string): Promise<SummaryJob | null> {
+    const jobs = await this.getJobs();
+    return jobs.find(job => job.articleUrl === articleUrl) || null;
+  }
+
+  // Listen for job changes; returns the unsubscribe function
+  subscribe(listener: JobsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Apply an update to the stored jobs; returning null leaves them unchanged
+  private updateJobs(update: (jobs: SummaryJob[]) => SummaryJob[] | null): Promise<SummaryJob[]> {
+    const write = this.pendingWrite.then(async () => {
+      const jobs = await this.getJobs();
+      const updated = update(jobs);
+      if (!updated) return jobs;
+      await AsyncStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(updated));
+      this.listeners.forEach(listener => listener(updated));
+      return updated;
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  private updateJob(articleUrl: string, changes: Partial<SummaryJob>): Promise<SummaryJob[]> {
+    return this.updateJobs(jobs => jobs.map(job =>
+      job.articleUrl === articleUrl ? { ...job, ...changes, updatedAt: Date.now() } : job
+    ));
+  }
+
+  /**
+   * ========== QUEUEING ==========
+   */
+
+  /**
+   * Queue summaries for the articles. An article already queued or running keeps its job;
+   * a failed or finished one is queued again.
+   */
+  async enqueue(articles: Article[], options?: SummaryOptions): Promise<void> {
+    if (articles.length === 0) return;
+
+    try {
+      const now = Date.now();
+      await this.updateJobs(jobs => {
+        const active = new Set(
+          jobs.filter(job => job.status === 'queued' || job.status === 'running').map(job => job.articleUrl)
+        );
+        // Pending jobs are never dropped, so only as many are added as there is room for
+        const room = Math.max(MAX_JOBS - active.size, 0);
+        const added: SummaryJob[] = articles
+          .filter(article => !active.has(article.url))
+          .slice(0, room)
+          .map(article => ({
+            articleUrl: article.url,
+            article,
+            options,
+            status: 'queued',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now,
+          }));
+        if (added.length === 0) return null;
+
+        const addedUrls = new Set(added.map(job => job.articleUrl));
+        const kept = jobs.filter(job =>
+          !addedUrls.has(job.articleUrl) &&
+          (job.status === 'queued' || job.status === 'running' || now - job.updatedAt < FINISHED_JOB_AGE)
+        );
+        // Oldest finished jobs make room first
+        let excess = kept.length + added.length - MAX_JOBS;
+        const trimmed = kept.filter(job => {
+          if (excess <= 0 || job.status === 'queued' || job.status === 'running') return true;
+          excess--;
+          return false;
+        });
+        return [...trimmed, ...added];
+      });
+      this.processQueue();
+    } catch (error) {
+      console.error('Error queueing summaries:', error);
+    }
+  }
+
+  // Queue the articles that need a summary, when auto-generation is on
+  async generateSummariesForArticles(articles: Article[]): Promise<void> {
+    const settings = await summaryService.getSettings();
+    if (!settings.autoGenerate || !isSummarizerActive(settings)) {
+      return;
+    }
+
+    const missing: Article[] = [];
+    for (const article of articles) {
+      if (await summaryService.needsSummary(article)) missing.push(article);
+    }
+    await this.enqueue(missing);
+  }
+
+  // Try a failed job again, from its first attempt
+  async retry(articleUrl: string): Promise<void> {
+    await this.updateJob(articleUrl, { status: 'queued', attempts: 0, error: undefined, nextAttemptAt: Date.now() });
+    this.processQueue();
+  }
+
+  // Drop a job that hasn't started, or forget a finished one
+  async removeJob(articleUrl: string): Promise<void> {
+    await this.updateJobs(jobs =>
+      jobs.filter(job => job.articleUrl !== articleUrl || job.status === 'running')
+    );
+  }
+
+  async clearFinished(): Promise<void> {
+    await this.updateJobs(jobs => jobs.filter(job => job.status === 'queued' || job.status === 'running'));
+  }
+
+  /**
+   * ========== PROCESSING ==========
+   */
+
+  // Resume the jobs left from the last session; those that were running start over
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    await this.updateJobs(jobs => jobs.some(job => job.status === 'running')
+      ? jobs.map(job => (job.status === 'running' ? { ...job, status: 'queued' } : job))
+      : null
+    );
+    this.processQueue();
+  }
+
+  // Start as many waiting jobs as the concurrency setting allows, and wake up for the next retry
+  private async processQueue(): Promise<void> {
+    if (!this.started) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const settings = await summaryService.getSettings();
+    const jobs = await this.getJobs();
+    const now = Date.now();
+    const waiting = jobs.filter(job => job.status === 'queued' && !this.running.has(job.articleUrl));
+
+    if (now >= this.pausedUntil) {
+      const slots = Math.max(1, settings.queueConcurrency) - this.running.size;
+      waiting
+        .filter(job => job.nextAttemptAt <= now)
+        .slice(0, Math.max(0, slots))
+        .forEach(job => this.runJob(job));
+    }
+
+    const nextAttempt = Math.min(
+      ...waiting.filter(job => !this.running.has(job.articleUrl)).map(job => Math.max(job.nextAttemptAt, this.pausedUntil))
+    );
+    if (Number.isFinite(nextAttempt) && nextAttempt > now) {
+      this.timer = setTimeout(() => this.processQueue(), nextAttempt - now);
+    }
+  }
+
+  private async runJob(queued: SummaryJob): Promise<void> {
+    this.running.add(queued.articleUrl);
+    let job: SummaryJob | undefined;
+    try {
+      // The stored job may have been removed or finished since the queue was read
+      await this.updateJobs(jobs => jobs.map(stored => {
+        if (stored.articleUrl !== queued.articleUrl || stored.status !== 'queued') return stored;
+        job = { ...stored, status: 'running', updatedAt: Date.now() };
+        return job;
+      }));
+      if (!job) return;
+
+      const summary = await summaryService.requestSummary(job.article, job.options);
+
+      // Over the monthly budget: the on-device fallback summary, unless there is a better one
+      if (summary.model === 'fallback' && !(await summaryService.getSummary(job.articleUrl))) {
+        await summaryService.saveSummary(summary);
+      }
+      await this.updateJob(job.articleUrl, { status: 'done', error: undefined });
+    } catch (error: any) {
+      if (!job) return;
+      const attempts = job.attempts + 1;
+      const delay = getRetryDelay(error, attempts);
+      const message = error?.message || 'Summary failed';
+
+      if (delay === null) {
+        await this.updateJob(job.articleUrl, { status: 'failed', attempts, error: message });
+      } else {
+        if (error.status === 429) this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        await this.updateJob(job.articleUrl, {
+          status: 'queued',
+          attempts,
+          error: message,
+          nextAttemptAt: Date.now() + delay,
+        });
+      }
+    } finally {
+      this.running.delete(queued.articleUrl);
+      this.processQueue();
+    }
+  }
+}
+
+export const summaryQueue = new SummaryQueueService();
@@ -1,39 +1,109 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Article } from '../types';
+import { searchService } from './searchService';
+import { getContentHash } from './contentHash';
+import { ArticleEntity, extractEntities } from './entities';
+import { ArticleAnalysis, SourceFraming, analyzeArticle } from './framing';
+import { aiUsageService, ModelPrice, estimateCost, getModelPrice } from './aiUsageService';
+import {
+  SummaryProviderId,
+  SummaryOptions,
+  SummaryStyle,
+  SummaryLength,
+  PartialSummary,
+  SummaryResult,
+  TokenUsage,
+  DEFAULT_SUMMARY_OPTIONS,
+  getSummaryProvider,
+  sameSummaryOptions,
+  summarizeFallback,
+  LOCAL_MODEL,
+} from './summaryProviders';
 
 const SUMMARIES_STORAGE_KEY = '@summaries';
 const SETTINGS_STORAGE_KEY = '@summary_settings';
 
-// OpenRouter API (free tier with various models)
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const MAX_SUMMARIES = 100;
+// Size of the stored list (JSON characters); least recently used summaries go first
+const MAX_SUMMARIES_SIZE = 512 * 1024;
+// Summaries of one article written with different options
+const MAX_VERSIONS_PER_ARTICLE = 5;
+// How long a summary of unchanged text is reused instead of written again
+const SUMMARY_CACHE_AGE = 7 * 24 * 60 * 60 * 1000;
+// lastUsedAt is rewritten at most this often, so reading a summary rarely writes
+const TOUCH_INTERVAL = 60 * 60 * 1000;
 
 export interface ArticleSummary {
   articleUrl: string;
   articleTitle: string;
+  sourceName: string; // '' for summaries written before it was stored
   summary: string; // TL;DR
   keyPoints: string[]; // Bullet points
   readingTime: number; // in minutes
   generatedAt: number;
   model: string;
+  options: SummaryOptions; // What it was written with
+  contentHash: string; // Hash of the article text it was written from ('' if unknown)
+  lastUsedAt: number; // For least recently used eviction
+  entities: ArticleEntity[]; // People, organizations and places, most important first
+  analysis: ArticleAnalysis | null; // Sentiment, tone and loaded language; null for older summaries
 }
 
 export interface SummarySettings {
   enabled: boolean;
   autoGenerate: boolean; // Generate on article open
-  model: string;
-  apiKey: string;
+  provider: SummaryProviderId;
+  model: string; // OpenRouter model
+  apiKey: string; // OpenRouter API key
+  baseUrl: string; // OpenAI-compatible server, e.g. http://192.168.1.20:11434/v1
+  customModel: string; // Model name on that server
+  customApiKey: string; // Optional for most local servers
+  // Defaults for new summaries (see SummaryOptions)
+  style: SummaryStyle;
+  length: SummaryLength;
+  language: string;
   maxKeyPoints: number;
+  // Spending: AI summaries switch to the fallback once this month's cost reaches the budget
+  monthlyBudget: number; // US dollars, 0 for no cap
+  modelPrices: Record<string, ModelPrice>; // Overrides of DEFAULT_MODEL_PRICES
+  queueConcurrency: number; // Summaries the background queue writes at the same time
 }
 
-const DEFAULT_SETTINGS: SummarySettings = {
+export const DEFAULT_SUMMARY_SETTINGS: SummarySettings = {
   enabled: false,
   autoGenerate: false,
+  provider: 'openrouter',
   model: 'openai/gpt-3.5-turbo', // Free tier model
   apiKey: '',
-  maxKeyPoints: 5,
+  baseUrl: '',
+  customModel: '',
+  customApiKey: '',
+  style: DEFAULT_SUMMARY_OPTIONS.style,
+  length: DEFAULT_SUMMARY_OPTIONS.length,
+  language: DEFAULT_SUMMARY_OPTIONS.language,
+  maxKeyPoints: DEFAULT_SUMMARY_OPTIONS.maxKeyPoints,
+  monthlyBudget: 0,
+  modelPrices: {},
+  queueConcurrency: 2,
 };
 
+// Whether summaries come from the chosen provider. The on-device summarizer sends nothing
+// anywhere, so it doesn't need AI summaries to be switched on
+export const isSummarizerActive = (settings: SummarySettings): boolean =>
+  (settings.enabled || settings.provider === 'local') &&
+  getSummaryProvider(settings.provider).isConfigured(settings);
+
+export const getSummaryOptions = (settings: SummarySettings): SummaryOptions => ({
+  style: settings.style,
+  length: settings.length,
+  language: settings.language,
+  maxKeyPoints: settings.maxKeyPoints,
+});
+
 class SummaryService {
+  // Writes to the list run one after another, so a lastUsedAt update can't drop a new summary
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
   /**
    * ========== SETTINGS MANAGEMENT ==========
    */
@@ -42,12 +112,12 @@ class SummaryService {
     try {
       const data = await AsyncStorage.getItem(SETTINGS_STORAGE_KEY);
       if (data) {
-        return { ...DEFAULT_SETTINGS, ...JSON.parse(data) };
+        return { ...DEFAULT_SUMMARY_SETTINGS, ...JSON.parse(data) };
       }
-      return DEFAULT_SETTINGS;
+      return DEFAULT_SUMMARY_SETTINGS;
     } catch (error) {
       console.error('Error getting summary settings:', error);
-      return DEFAULT_SETTINGS;
+      return DEFAULT_SUMMARY_SETTINGS;
     }
   }
 
@@ -79,44 +149,75 @@ class SummaryService {
     }
   }
 
+  // The article's current summary: the latest version, or the one picked in selectSummaryVersion
   async getSummary(articleUrl: string): Promise<ArticleSummary | null> {
     try {
       const summaries = await this.getSummaries();
-      return summaries.find(s => s.articleUrl === articleUrl) || null;
+      const summary = summaries.find(s => s.articleUrl === articleUrl) || null;
+      if (summary) await this.touchSummary(summary);
+      return summary;
     } catch (error) {
       console.error('Error getting summary:', error);
       return null;
     }
   }
 
+  // Every kept version of an article's summary, newest first
+  async getSummaryVersions(articleUrl: string): Promise<ArticleSummary[]> {
+    const summaries = await this.getSummaries();
+    return summaries
+      .filter(s => s.articleUrl === articleUrl)
+      .sort((a, b) => b.generatedAt - a.generatedAt);
+  }
+
+  /**
+   * Save a summary as the article's current one. It replaces the version written with the
+   * same options; versions with other options are kept, up to MAX_VERSIONS_PER_ARTICLE.
+   */
   async saveSummary(summary: ArticleSummary): Promise<void> {
     try {
-      const summaries = await this.getSummaries();
-      const index = summaries.findIndex(s => s.articleUrl === summary.articleUrl);
-      
-      if (index >= 0) {
-        summaries[index] = summary;
-      } else {
-        summaries.unshift(summary);
-      }
-
-      // Keep only last 100 summaries
-      if (summaries.length > 100) {
-        summaries.splice(100);
-      }
-
-      await AsyncStorage.setItem(SUMMARIES_STORAGE_KEY, JSON.stringify(summaries));
+      const updated = await this.updateSummaries(summaries => {
+        const others = summaries.filter(s => s.articleUrl !== summary.articleUrl);
+        const versions = summaries
+          .filter(s => s.articleUrl === summary.articleUrl && !sameSummaryOptions(s.options, summary.options))
+          .slice(0, MAX_VERSIONS_PER_ARTICLE - 1);
+
+        // Current versions come first, so they are the ones found and indexed
+        return this.evictSummaries([summary, ...versions, ...others]);
+      });
+      await searchService.indexSummaries(updated);
     } catch (error) {
       console.error('Error saving summary:', error);
       throw error;
     }
   }
 
+  // Make an earlier version the article's current summary again
+  async selectSummaryVersion(summary: ArticleSummary): Promise<void> {
+    try {
+      let moved = false;
+      const updated = await this.updateSummaries(summaries => {
+        const index = summaries.findIndex(
+          s => s.articleUrl === summary.articleUrl && s.generatedAt === summary.generatedAt
+        );
+        if (index <= 0) return null;
+
+        const [selected] = summaries.splice(index, 1);
+        summaries.unshift({ ...selected, lastUsedAt: Date.now() });
+        moved = true;
+        return summaries;
+      });
+      if (moved) await searchService.indexSummaries(updated);
+    } catch (error) {
+      console.error('Error selecting summary version:', error);
+      throw error;
+    }
+  }
+
   async deleteSummary(articleUrl: string): Promise<void> {
     try {
-      const summaries = await this.getSummaries();
-      const filtered = summaries.filter(s => s.articleUrl !== articleUrl);
-      await AsyncStorage.setItem(SUMMARIES_STORAGE_KEY, JSON.stringify(filtered));
+      const filtered = await this.updateSummaries(summaries => summaries.filter(s => s.articleUrl !== articleUrl));
+      await searchService.indexSummaries(filtered);
     } catch (error) {
       console.error('Error deleting summary:', error);
       throw error;
@@ -125,13 +226,109 @@ class SummaryService {
 
   async clearAllSummaries(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(SUMMARIES_STORAGE_KEY);
+      await this.updateSummaries(() => []);
+      await searchService.indexSummaries([]);
     } catch (error) {
       console.error('Error clearing summaries:', error);
       throw error;
     }
   }
 
+  // Apply an update to the stored list; returning null leaves it unchanged
+  private updateSummaries(
+    update: (summaries: ArticleSummary[]) => ArticleSummary[] | null
+  ): Promise<ArticleSummary[]> {
+    const write = this.pendingWrite.then(async () => {
+      const summaries = await this.getSummaries();
+      const updated = update(summaries);
+      if (!updated) return summaries;
+      await AsyncStorage.setItem(SUMMARIES_STORAGE_KEY, JSON.stringify(updated));
+      return updated;
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  // Record that a summary was shown or reused, for eviction
+  private async touchSummary(summary: ArticleSummary): Promise<void> {
+    const now = Date.now();
+    if (now - summary.lastUsedAt < TOUCH_INTERVAL) return;
+
+    summary.lastUsedAt = now;
+    await this.updateSummaries(summaries => {
+      const stored = summaries.find(
+        s => s.articleUrl === summary.articleUrl && s.generatedAt === summary.generatedAt
+      );
+      if (!stored) return null;
+      stored.lastUsedAt = now;
+      return summaries;
+    });
+  }
+
+  /**
+   * Drop least recently used summaries until the list fits MAX_SUMMARIES and
+   * MAX_SUMMARIES_SIZE. The first one is the summary just saved and always stays.
+   */
+  private evictSummaries(summaries: ArticleSummary[]): ArticleSummary[] {
+    const kept = [...summaries];
+    const sizes = kept.map(s => JSON.stringify(s).length + 1);
+    let size = sizes.reduce((total, itemSize) => total + itemSize, 0);
+
+    while (kept.length > 1 && (kept.length > MAX_SUMMARIES || size > MAX_SUMMARIES_SIZE)) {
+      let oldest = 1;
+      for (let i = 2; i < kept.length; i++) {
+        if (kept[i].lastUsedAt < kept[oldest].lastUsedAt) oldest = i;
+      }
+      size -= sizes[oldest];
+      kept.splice(oldest, 1);
+      sizes.splice(oldest, 1);
+    }
+    return kept;
+  }
+
+  /**
+   * ========== CONTENT CACHE ==========
+   */
+
+  // Whether the article text changed since the summary was written. Summaries saved
+  // before content hashes were recorded can't tell, and count as current.
+  isSummaryStale(summary: ArticleSummary, article: Article): boolean {
+    return summary.contentHash !== '' && summary.contentHash !== getContentHash(article);
+  }
+
+  /**
+   * A recent summary of the same text by the same model with the same options, saved
+   * under any URL: syndicated stories share their text, and so their summary.
+   */
+  private async findCachedSummary(
+    article: Article,
+    model: string,
+    options: SummaryOptions
+  ): Promise<ArticleSummary | null> {
+    const contentHash = getContentHash(article);
+    const summaries = await this.getSummaries();
+    return summaries.find(s =>
+      s.contentHash === contentHash &&
+      s.model === model &&
+      sameSummaryOptions(s.options, options) &&
+      Date.now() - s.generatedAt < SUMMARY_CACHE_AGE
+    ) || null;
+  }
+
+  // Make a cached summary the article's current one, copying it when it was saved for another URL
+  private async reuseSummary(article: Article, cached: ArticleSummary): Promise<ArticleSummary> {
+    const summary: ArticleSummary = {
+      ...cached,
+      articleUrl: article.url,
+      articleTitle: article.title,
+      sourceName: article.source?.name || cached.sourceName,
+      readingTime: this.calculateArticleReadingTime(article),
+      lastUsedAt: Date.now(),
+    };
+    await this.saveSummary(summary);
+    return summary;
+  }
+
   /**
    * ========== READING TIME ESTIMATION ==========
    */
@@ -165,160 +362,179 @@ class SummaryService {
    * ========== AI SUMMARIZATION ==========
    */
 
-  async generateSummaryWithAI(article: Article): Promise<ArticleSummary> {
+  /**
+   * Options default to the ones in the settings. A summary of the same text with the same
+   * model and options is reused, unless refresh asks for a new one.
+   */
+  async generateSummaryWithAI(
+    article: Article,
+    summaryOptions?: SummaryOptions,
+    refresh: boolean = false
+  ): Promise<ArticleSummary> {
     const settings = await this.getSettings();
-    
-    if (!settings.apiKey) {
-      throw new Error('API key not configured. Please set your OpenRouter API key in settings.');
+    const provider = getSummaryProvider(settings.provider);
+    const options = summaryOptions || getSummaryOptions(settings);
+
+    if (!provider.isConfigured(settings)) {
+      throw new Error(`${provider.name} is not set up. Please complete its configuration in Summary Settings.`);
     }
 
-    // Prepare article text
-    let articleText = '';
-    if (article.title) articleText += `Title: ${article.title}\n\n`;
-    if (article.description) articleText += `${article.description}\n\n`;
-    if (article.content) {
-      // Clean up content (remove [+XXX chars] markers)
-      const cleanContent = article.content.replace(/\[\+\d+ chars\]/g, '');
-      articleText += cleanContent;
+    try {
+      return await this.requestSummary(article, options, refresh);
+    } catch (error: any) {
+      console.error('AI summarization error:', error);
+      
+      // Return fallback summary
+      return this.generateFallbackSummary(article, options);
     }
+  }
 
-    if (articleText.length < 50) {
-      throw new Error('Article content is too short to summarize.');
+  /**
+   * Same as generateSummaryWithAI, but a failed request rejects instead of giving the
+   * fallback summary, so the summary queue can retry it. Over the monthly budget the
+   * (unsaved) fallback summary is still returned.
+   */
+  async requestSummary(
+    article: Article,
+    summaryOptions?: SummaryOptions,
+    refresh: boolean = false
+  ): Promise<ArticleSummary> {
+    const settings = await this.getSettings();
+    const provider = getSummaryProvider(settings.provider);
+    const options = summaryOptions || getSummaryOptions(settings);
+
+    if (!isSummarizerActive(settings)) {
+      throw new Error('AI summaries are off or not set up. Please check Summary Settings.');
     }
 
-    // Create prompt
-    const prompt = `Please analyze this news article and provide:
+    if (!refresh) {
+      const cached = await this.findCachedSummary(article, provider.getModel(settings), options);
+      if (cached) return this.reuseSummary(article, cached);
+    }
 
-1. A concise TL;DR summary (2-3 sentences)
-2. ${settings.maxKeyPoints} key points as bullet points
+    if (await this.isOverBudget(settings)) {
+      return this.generateFallbackSummary(article, options);
+    }
 
-Article:
-${articleText}
+    const startedAt = Date.now();
+    const result = await provider.summarize({ article, options }, settings);
+    await this.recordUsage(settings, result, startedAt);
+    const summary = this.createSummary(article, result, options);
 
-Please respond in the following JSON format:
-{
-  "summary": "Your TL;DR here",
-  "keyPoints": ["Point 1", "Point 2", "Point 3", "Point 4", "Point 5"]
-}`;
+    // Save to storage
+    await this.saveSummary(summary);
 
-    try {
-      const response = await fetch(OPENROUTER_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${settings.apiKey}`,
-          'HTTP-Referer': 'https://hafida-belayd.me/',
-          'X-Title': 'News Reader App',
-        },
-        body: JSON.stringify({
-          model: settings.model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a helpful assistant that summarizes news articles concisely and extracts key points. Always respond with valid JSON.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: 0.3,
-          max_tokens: 500,
-        }),
-      });
+    return summary;
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error?.message || `API request failed: ${response.status}`);
-      }
+  /**
+   * Generate a summary, reporting it while it is written. Only a finished summary is saved.
+   * Resolves with null when cancelled through the signal; a failed stream gives the
+   * fallback summary, like generateSummaryWithAI. Cached summaries are reused the same way.
+   */
+  async streamSummary(
+    article: Article,
+    onUpdate: (partial: PartialSummary) => void,
+    signal: AbortSignal,
+    summaryOptions?: SummaryOptions,
+    refresh: boolean = false
+  ): Promise<ArticleSummary | null> {
+    const settings = await this.getSettings();
+    const provider = getSummaryProvider(settings.provider);
+    const options = summaryOptions || getSummaryOptions(settings);
 
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
+    // Providers that can't stream (or AI being off) answer in one go
+    if (!isSummarizerActive(settings) || !provider.summarizeStream) {
+      const summary = await this.getOrGenerateSummary(article, true, options, refresh);
+      return signal.aborted ? null : summary;
+    }
 
-      if (!content) {
-        throw new Error('No response from AI model');
-      }
+    if (!refresh) {
+      const cached = await this.findCachedSummary(article, provider.getModel(settings), options);
+      if (cached) return signal.aborted ? null : this.reuseSummary(article, cached);
+    }
 
-      // Parse JSON response
-      let parsedContent;
-      try {
-        // Try to extract JSON from markdown code blocks if present
-        const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-        const jsonStr = jsonMatch ? jsonMatch[1] : content;
-        parsedContent = JSON.parse(jsonStr);
-      } catch (parseError) {
-        console.error('Failed to parse AI response:', content);
-        throw new Error('Failed to parse AI response. Please try again.');
-      }
+    if (await this.isOverBudget(settings)) {
+      return this.generateFallbackSummary(article, options);
+    }
 
-      // Calculate reading time
-      const readingTime = this.calculateArticleReadingTime(article);
-
-      // Create summary object
-      const summary: ArticleSummary = {
-        articleUrl: article.url,
-        articleTitle: article.title,
-        summary: parsedContent.summary || 'Summary not available',
-        keyPoints: Array.isArray(parsedContent.keyPoints) 
-          ? parsedContent.keyPoints.slice(0, settings.maxKeyPoints)
-          : [],
-        readingTime,
-        generatedAt: Date.now(),
-        model: settings.model,
-      };
+    try {
+      const startedAt = Date.now();
+      const result = await provider.summarizeStream({ article, options }, settings, onUpdate, signal);
+      await this.recordUsage(settings, result, startedAt);
+      const summary = this.createSummary(article, result, options);
 
-      // Save to storage
       await this.saveSummary(summary);
-
       return summary;
     } catch (error: any) {
+      if (signal.aborted) return null;
       console.error('AI summarization error:', error);
-      
-      // Return fallback summary
-      return this.generateFallbackSummary(article);
+      return this.generateFallbackSummary(article, options);
     }
   }
 
+  // Whether this month's AI spending has reached the budget. The on-device summarizer costs
+  // nothing, so the budget doesn't apply to it
+  async isOverBudget(settings: SummarySettings): Promise<boolean> {
+    if (settings.provider === 'local') return false;
+    return aiUsageService.isOverBudget(settings.monthlyBudget);
+  }
+
+  // Tokens, cost and time of one AI request (summary, question or briefing), for the totals
+  // in Summary Settings
+  async recordUsage(
+    settings: SummarySettings,
+    result: { model: string; usage?: TokenUsage },
+    startedAt: number
+  ): Promise<void> {
+    if (!result.usage) return;
+    await aiUsageService.recordUsage({
+      timestamp: Date.now(),
+      provider: settings.provider,
+      model: result.model,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      estimated: result.usage.estimated,
+      cost: estimateCost(result.usage, getModelPrice(result.model, settings.modelPrices)),
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+
+  // Check that the chosen provider is reachable with the given (possibly unsaved) settings
+  async testConnection(settings: SummarySettings): Promise<void> {
+    const provider = getSummaryProvider(settings.provider);
+    if (!provider.isConfigured(settings)) {
+      throw new Error(`Please complete the ${provider.name} configuration first.`);
+    }
+    await provider.testConnection(settings);
+  }
+
   /**
    * ========== FALLBACK SUMMARIZATION ==========
    * Used when AI is unavailable or API fails
    */
 
-  generateFallbackSummary(article: Article): ArticleSummary {
-    // Use article description as summary
-    const summary = article.description || 'Summary not available';
-    
-    // Extract key points from description and content
-    const keyPoints: string[] = [];
-    
-    if (article.description) {
-      // Split by common sentence delimiters and take first few
-      const sentences = article.description
-        .split(/[.!?]+/)
-        .map(s => s.trim())
-        .filter(s => s.length > 20 && s.length < 200);
-      
-      keyPoints.push(...sentences.slice(0, 3));
-    }
-
-    // If we don't have enough points, add a generic one
-    if (keyPoints.length < 2) {
-      keyPoints.push(`Source: ${article.source.name}`);
-      if (article.author) {
-        keyPoints.push(`Author: ${article.author}`);
-      }
-    }
-
-    const readingTime = this.calculateArticleReadingTime(article);
+  generateFallbackSummary(article: Article, options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS): ArticleSummary {
+    return this.createSummary(article, summarizeFallback(article, options), options);
+  }
 
+  private createSummary(article: Article, result: SummaryResult, options: SummaryOptions): ArticleSummary {
+    const now = Date.now();
     return {
       articleUrl: article.url,
       articleTitle: article.title,
-      summary,
-      keyPoints: keyPoints.slice(0, 5),
-      readingTime,
-      generatedAt: Date.now(),
-      model: 'fallback',
+      sourceName: article.source?.name || '',
+      summary: result.summary,
+      keyPoints: result.keyPoints,
+      readingTime: this.calculateArticleReadingTime(article),
+      generatedAt: now,
+      model: result.model,
+      options,
+      contentHash: getContentHash(article),
+      lastUsedAt: now,
+      // Found by the model when it listed them, by the local heuristic otherwise
+      entities: result.entities?.length ? result.entities : extractEntities(article),
+      analysis: result.analysis || analyzeArticle(article),
     };
   }
 
@@ -326,34 +542,41 @@ Please respond in the following JSON format:
    * ========== SMART SUMMARY GENERATION ==========
    */
 
-  async getOrGenerateSummary(article: Article, forceAI: boolean = false): Promise<ArticleSummary> {
-    // Check if we have a cached summary
-    const cached = await this.getSummary(article.url);
+  async getOrGenerateSummary(
+    article: Article,
+    forceAI: boolean = false,
+    summaryOptions?: SummaryOptions,
+    refresh: boolean = false
+  ): Promise<ArticleSummary> {
+    const settings = await this.getSettings();
+    const options = summaryOptions || getSummaryOptions(settings);
+
+    // Check if we have a cached summary written with these options
+    const versions = await this.getSummaryVersions(article.url);
+    const cached = versions.find(s => sameSummaryOptions(s.options, options));
     
-    if (cached && !forceAI) {
+    if (cached && !forceAI && !this.isSummaryStale(cached, article)) {
       // Check if summary is less than 7 days old
       const age = Date.now() - cached.generatedAt;
-      const sevenDays = 7 * 24 * 60 * 60 * 1000;
       
-      if (age < sevenDays) {
+      if (age < SUMMARY_CACHE_AGE) {
+        await this.selectSummaryVersion(cached);
         return cached;
       }
     }
 
     // Generate new summary
-    const settings = await this.getSettings();
-    
-    if (settings.enabled && settings.apiKey && forceAI) {
+    if (isSummarizerActive(settings) && forceAI) {
       try {
-        return await this.generateSummaryWithAI(article);
+        return await this.generateSummaryWithAI(article, options, refresh);
       } catch (error) {
         console.warn('AI generation failed, using fallback:', error);
-        return this.generateFallbackSummary(article);
+        return this.generateFallbackSummary(article, options);
       }
     }
 
-    // Use fallback if AI is disabled or no API key
-    const fallback = this.generateFallbackSummary(article);
+    // Use fallback if AI is disabled (and not on-device) or its provider isn't set up
+    const fallback = this.generateFallbackSummary(article, options);
     await this.saveSummary(fallback);
     return fallback;
   }
@@ -362,28 +585,11 @@ Please respond in the following JSON format:
    * ========== BATCH OPERATIONS ==========
    */
 
-  async generateSummariesForArticles(articles: Article[]): Promise<void> {
-    const settings = await this.getSettings();
-    
-    if (!settings.autoGenerate || !settings.enabled) {
-      return;
-    }
-
-    // Generate summaries in background (don't wait)
-    for (const article of articles) {
-      // Check if we already have a recent summary
-      const existing = await this.getSummary(article.url);
-      if (existing) {
-        const age = Date.now() - existing.generatedAt;
-        if (age < 24 * 60 * 60 * 1000) { // Less than 24 hours old
-          continue;
-        }
-      }
-
-      // Generate fallback summary immediately (fast)
-      const fallback = this.generateFallbackSummary(article);
-      await this.saveSummary(fallback);
-    }
+  // Background generation goes through summaryQueue; this decides which articles need it:
+  // those with no summary, only the fallback one, or one of text that has changed
+  async needsSummary(article: Article): Promise<boolean> {
+    const existing = await this.getSummary(article.url);
+    return !existing || existing.model === 'fallback' || this.isSummaryStale(existing, article);
   }
 
   /**
@@ -404,7 +610,7 @@ Please respond in the following JSON format:
   }> {
     try {
       const summaries = await this.getSummaries();
-      const aiGenerated = summaries.filter(s => s.model !== 'fallback').length;
+      const aiGenerated = summaries.filter(s => s.model !== 'fallback' && s.model !== LOCAL_MODEL).length;
       const totalReadingTime = summaries.reduce((sum, s) => sum + s.readingTime, 0);
       
       return {
@@ -425,6 +631,49 @@ Please respond in the following JSON format:
       };
     }
   }
+
+  /**
+   * Sentiment, tone and loaded language of each source's summarized articles, sources with
+   * the most articles first. Each article counts once, with its current summary.
+   */
+  async getSourceFraming(): Promise<SourceFraming[]> {
+    try {
+      const summaries = await this.getSummaries();
+      const current = new Map<string, ArticleSummary>();
+      summaries.forEach(s => {
+        if (!current.has(s.articleUrl)) current.set(s.articleUrl, s);
+      });
+
+      const bySource = new Map<string, ArticleAnalysis[]>();
+      current.forEach(s => {
+        if (!s.analysis || !s.sourceName) return;
+        bySource.set(s.sourceName, [...(bySource.get(s.sourceName) || []), s.analysis]);
+      });
+
+      return [...bySource.entries()]
+        .map(([source, analyses]) => {
+          const termCounts = new Map<string, number>();
+          analyses.forEach(a => a.loadedTerms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1)));
+          const totalTerms = analyses.reduce((sum, a) => sum + a.loadedTerms.length, 0);
+
+          return {
+            source,
+            articles: analyses.length,
+            averageSentiment: analyses.reduce((sum, a) => sum + a.sentiment, 0) / analyses.length,
+            opinionShare: analyses.filter(a => a.tone === 'opinion').length / analyses.length,
+            loadedTermsPerArticle: totalTerms / analyses.length,
+            topLoadedTerms: [...termCounts.entries()]
+              .sort((a, b) => b[1] - a[1])
+              .slice(0, 5)
+              .map(([term]) => term),
+          };
+        })
+        .sort((a, b) => b.articles - a.articles || a.source.localeCompare(b.source));
+    } catch (error) {
+      console.error('Error getting source framing:', error);
+      return [];
+    }
+  }
 }
 
 export const summaryService = new SummaryService();
@@ -1,9 +1,8 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Article } from '../types';
-
-const COLLECTIONS_STORAGE_KEY = '@collections';
-const TAGS_STORAGE_KEY = '@tags';
-const ARTICLE_TAGS_STORAGE_KEY = '@article_tags';
+import { SQLiteDatabase } from 'expo-sqlite';
+import { getDatabase, runInTransaction } from './database';
+import { articleStore, ArticleRow, rowToArticle } from './articleStore';
+import { getArticleId } from './articleUrl';
 
 export interface Tag {
   id: string;
@@ -18,7 +17,7 @@ export interface Collection {
   description: string;
   icon: string;
   color: string;
-  articleUrls: string[];
+  articleIds: string[]; // See getArticleId
   isSmartCollection: boolean;
   smartFilter?: {
     type: 'category' | 'source' | 'tag';
@@ -29,6 +28,14 @@ export interface Collection {
 }
 
 export interface ArticleTag {
+  articleId: string;
+  tagIds: string[];
+}
+
+// Collections and tag assignments as stored before articles had IDs. The v2 storage migration
+// moves whatever a device still has into the database, so the bulk replace accepts them too
+export type LegacyCollection = Omit<Collection, 'articleIds'> & { articleUrls: string[] };
+export interface LegacyArticleTag {
   articleUrl: string;
   tagIds: string[];
 }
@@ -65,6 +72,48 @@ export const COLLECTION_ICONS = [
   'medical',
 ];
 
+interface TagRow {
+  id: string;
+  name: string;
+  color: string;
+  created_at: number;
+}
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  is_smart: number;
+  smart_filter_type: 'category' | 'source' | 'tag' | null;
+  smart_filter_value: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const rowToTag = (row: TagRow): Tag => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  createdAt: row.created_at,
+});
+
+const rowToCollection = (row: CollectionRow, articleIds: string[]): Collection => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  icon: row.icon,
+  color: row.color,
+  articleIds,
+  isSmartCollection: row.is_smart === 1,
+  smartFilter: row.smart_filter_type
+    ? { type: row.smart_filter_type, value: row.smart_filter_value || '' }
+    : undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
 class TagsService {
   /**
    * ========== TAGS MANAGEMENT ==========
@@ -73,11 +122,9 @@ class TagsService {
   // Get all tags
   async getTags(): Promise<Tag[]> {
     try {
-      const data = await AsyncStorage.getItem(TAGS_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<TagRow>('SELECT * FROM tags ORDER BY rowid');
+      return rows.map(rowToTag);
     } catch (error) {
       console.error('Error getting tags:', error);
       return [];
@@ -87,10 +134,13 @@ class TagsService {
   // Create a new tag
   async createTag(name: string, color: string = TAG_COLORS[0]): Promise<Tag> {
     try {
-      const tags = await this.getTags();
-      
+      const db = await getDatabase();
+
       // Check if tag with same name exists
-      const existing = tags.find(t => t.name.toLowerCase() === name.toLowerCase());
+      const existing = await db.getFirstAsync<TagRow>(
+        'SELECT * FROM tags WHERE LOWER(name) = LOWER(?)',
+        name.trim()
+      );
       if (existing) {
         throw new Error('Tag with this name already exists');
       }
@@ -102,8 +152,10 @@ class TagsService {
         createdAt: Date.now(),
       };
 
-      tags.push(newTag);
-      await AsyncStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(tags));
+      await db.runAsync(
+        'INSERT INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)',
+        newTag.id, newTag.name, newTag.color, newTag.createdAt
+      );
       return newTag;
     } catch (error) {
       console.error('Error creating tag:', error);
@@ -114,15 +166,18 @@ class TagsService {
   // Update a tag
   async updateTag(tagId: string, updates: Partial<Tag>): Promise<void> {
     try {
-      const tags = await this.getTags();
-      const index = tags.findIndex(t => t.id === tagId);
-      
-      if (index === -1) {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<TagRow>('SELECT * FROM tags WHERE id = ?', tagId);
+
+      if (!row) {
         throw new Error('Tag not found');
       }
 
-      tags[index] = { ...tags[index], ...updates };
-      await AsyncStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(tags));
+      const tag = { ...rowToTag(row), ...updates };
+      await db.runAsync(
+        'UPDATE tags SET name = ?, color = ?, created_at = ? WHERE id = ?',
+        tag.name, tag.color, tag.createdAt, tagId
+      );
     } catch (error) {
       console.error('Error updating tag:', error);
       throw error;
@@ -132,17 +187,13 @@ class TagsService {
   // Delete a tag
   async deleteTag(tagId: string): Promise<void> {
     try {
-      const tags = await this.getTags();
-      const filtered = tags.filter(t => t.id !== tagId);
-      await AsyncStorage.setItem(TAGS_STORAGE_KEY, JSON.stringify(filtered));
-
-      // Also remove this tag from all articles
-      const articleTags = await this.getAllArticleTags();
-      const updatedArticleTags = articleTags.map(at => ({
-        ...at,
-        tagIds: at.tagIds.filter(id => id !== tagId),
-      }));
-      await AsyncStorage.setItem(ARTICLE_TAGS_STORAGE_KEY, JSON.stringify(updatedArticleTags));
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM tags WHERE id = ?', tagId);
+
+        // Also remove this tag from all articles
+        await db.runAsync('DELETE FROM article_tags WHERE tag_id = ?', tagId);
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error deleting tag:', error);
       throw error;
@@ -156,11 +207,20 @@ class TagsService {
   // Get all article tags
   async getAllArticleTags(): Promise<ArticleTag[]> {
     try {
-      const data = await AsyncStorage.getItem(ARTICLE_TAGS_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ article_id: string; tag_id: string }>(
+        'SELECT article_id, tag_id FROM article_tags ORDER BY rowid'
+      );
+
+      const byArticle = new Map<string, string[]>();
+      rows.forEach(row => {
+        if (!byArticle.has(row.article_id)) {
+          byArticle.set(row.article_id, []);
+        }
+        byArticle.get(row.article_id)!.push(row.tag_id);
+      });
+
+      return Array.from(byArticle, ([articleId, tagIds]) => ({ articleId, tagIds }));
     } catch (error) {
       console.error('Error getting article tags:', error);
       return [];
@@ -170,15 +230,15 @@ class TagsService {
   // Get tags for a specific article
   async getArticleTags(articleUrl: string): Promise<Tag[]> {
     try {
-      const articleTags = await this.getAllArticleTags();
-      const articleTag = articleTags.find(at => at.articleUrl === articleUrl);
-      
-      if (!articleTag || articleTag.tagIds.length === 0) {
-        return [];
-      }
-
-      const allTags = await this.getTags();
-      return allTags.filter(tag => articleTag.tagIds.includes(tag.id));
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<TagRow>(
+        `SELECT tags.* FROM article_tags
+         JOIN tags ON tags.id = article_tags.tag_id
+         WHERE article_tags.article_id = ?
+         ORDER BY tags.rowid`,
+        getArticleId(articleUrl)
+      );
+      return rows.map(rowToTag);
     } catch (error) {
       console.error('Error getting article tags:', error);
       return [];
@@ -186,25 +246,17 @@ class TagsService {
   }
 
   // Add tags to an article
-  async addTagsToArticle(articleUrl: string, tagIds: string[]): Promise<void> {
+  async addTagsToArticle(article: Article, tagIds: string[]): Promise<void> {
     try {
-      const articleTags = await this.getAllArticleTags();
-      const existingIndex = articleTags.findIndex(at => at.articleUrl === articleUrl);
-
-      if (existingIndex !== -1) {
-        // Add new tags to existing
-        const existingTagIds = articleTags[existingIndex].tagIds;
-        const uniqueTagIds = Array.from(new Set([...existingTagIds, ...tagIds]));
-        articleTags[existingIndex].tagIds = uniqueTagIds;
-      } else {
-        // Create new article tag entry
-        articleTags.push({
-          articleUrl,
-          tagIds,
-        });
-      }
-
-      await AsyncStorage.setItem(ARTICLE_TAGS_STORAGE_KEY, JSON.stringify(articleTags));
+      await runInTransaction(async (db) => {
+        const articleId = await articleStore.saveArticle(article, db);
+        for (const tagId of tagIds) {
+          await db.runAsync(
+            'INSERT OR IGNORE INTO article_tags (article_id, tag_id) VALUES (?, ?)',
+            articleId, tagId
+          );
+        }
+      });
     } catch (error) {
       console.error('Error adding tags to article:', error);
       throw error;
@@ -214,35 +266,33 @@ class TagsService {
   // Remove tag from an article
   async removeTagFromArticle(articleUrl: string, tagId: string): Promise<void> {
     try {
-      const articleTags = await this.getAllArticleTags();
-      const articleTag = articleTags.find(at => at.articleUrl === articleUrl);
-
-      if (articleTag) {
-        articleTag.tagIds = articleTag.tagIds.filter(id => id !== tagId);
-        await AsyncStorage.setItem(ARTICLE_TAGS_STORAGE_KEY, JSON.stringify(articleTags));
-      }
+      await runInTransaction(async (db) => {
+        await db.runAsync(
+          'DELETE FROM article_tags WHERE article_id = ? AND tag_id = ?',
+          getArticleId(articleUrl), tagId
+        );
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error removing tag from article:', error);
       throw error;
     }
   }
 
-  // Set tags for an article (replaces all existing tags)
-  async setArticleTags(articleUrl: string, tagIds: string[]): Promise<void> {
+  // Set tags for an article (replaces all existing tags); the article is stored so tag searches can show it
+  async setArticleTags(article: Article, tagIds: string[]): Promise<void> {
     try {
-      const articleTags = await this.getAllArticleTags();
-      const existingIndex = articleTags.findIndex(at => at.articleUrl === articleUrl);
-
-      if (existingIndex !== -1) {
-        articleTags[existingIndex].tagIds = tagIds;
-      } else {
-        articleTags.push({
-          articleUrl,
-          tagIds,
-        });
-      }
-
-      await AsyncStorage.setItem(ARTICLE_TAGS_STORAGE_KEY, JSON.stringify(articleTags));
+      await runInTransaction(async (db) => {
+        const articleId = await articleStore.saveArticle(article, db);
+        await db.runAsync('DELETE FROM article_tags WHERE article_id = ?', articleId);
+        for (const tagId of tagIds) {
+          await db.runAsync(
+            'INSERT OR IGNORE INTO article_tags (article_id, tag_id) VALUES (?, ?)',
+            articleId, tagId
+          );
+        }
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error setting article tags:', error);
       throw error;
@@ -256,17 +306,65 @@ class TagsService {
   // Get all collections
   async getCollections(): Promise<Collection[]> {
     try {
-      const data = await AsyncStorage.getItem(COLLECTIONS_STORAGE_KEY);
-      if (data) {
-        return JSON.parse(data);
-      }
-      return [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<CollectionRow>('SELECT * FROM collections ORDER BY rowid');
+      const articleRows = await db.getAllAsync<{ collection_id: string; article_id: string }>(
+        'SELECT collection_id, article_id FROM collection_articles ORDER BY rowid'
+      );
+
+      const idsByCollection = new Map<string, string[]>();
+      articleRows.forEach(row => {
+        if (!idsByCollection.has(row.collection_id)) {
+          idsByCollection.set(row.collection_id, []);
+        }
+        idsByCollection.get(row.collection_id)!.push(row.article_id);
+      });
+
+      return rows.map(row => rowToCollection(row, idsByCollection.get(row.id) || []));
     } catch (error) {
       console.error('Error getting collections:', error);
       return [];
     }
   }
 
+  // Get a single collection
+  async getCollection(collectionId: string): Promise<Collection | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<CollectionRow>('SELECT * FROM collections WHERE id = ?', collectionId);
+      if (!row) {
+        return null;
+      }
+
+      const articleRows = await db.getAllAsync<{ article_id: string }>(
+        'SELECT article_id FROM collection_articles WHERE collection_id = ? ORDER BY rowid',
+        collectionId
+      );
+      return rowToCollection(row, articleRows.map(r => r.article_id));
+    } catch (error) {
+      console.error('Error getting collection:', error);
+      return null;
+    }
+  }
+
+  // Get the stored articles of a collection, in the order they were added
+  async getCollectionArticles(collectionId: string): Promise<Article[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<ArticleRow>(
+        `SELECT articles.* FROM collection_articles
+         JOIN articles ON articles.id = collection_articles.article_id
+         WHERE collection_articles.collection_id = ?
+         ORDER BY collection_articles.rowid`,
+        collectionId
+      );
+      return rows.map(rowToArticle);
+    } catch (error) {
+      console.error('Error getting collection articles:', error);
+      return [];
+    }
+  }
+
   // Create a new collection
   async createCollection(
     name: string,
@@ -275,10 +373,13 @@ class TagsService {
     color: string = TAG_COLORS[0]
   ): Promise<Collection> {
     try {
-      const collections = await this.getCollections();
-      
+      const db = await getDatabase();
+
       // Check if collection with same name exists
-      const existing = collections.find(c => c.name.toLowerCase() === name.toLowerCase());
+      const existing = await db.getFirstAsync<CollectionRow>(
+        'SELECT * FROM collections WHERE LOWER(name) = LOWER(?)',
+        name.trim()
+      );
       if (existing) {
         throw new Error('Collection with this name already exists');
       }
@@ -289,14 +390,13 @@ class TagsService {
         description: description.trim(),
         icon,
         color,
-        articleUrls: [],
+        articleIds: [],
         isSmartCollection: false,
         createdAt: Date.now(),
         updatedAt: Date.now(),
       };
 
-      collections.push(newCollection);
-      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+      await this.insertCollection(db, newCollection);
       return newCollection;
     } catch (error) {
       console.error('Error creating collection:', error);
@@ -313,7 +413,7 @@ class TagsService {
     color: string = TAG_COLORS[0]
   ): Promise<Collection> {
     try {
-      const collections = await this.getCollections();
+      const db = await getDatabase();
 
       const newCollection: Collection = {
         id: Date.now().toString(),
@@ -321,7 +421,7 @@ class TagsService {
         description: `Auto-organized by ${filterType}`,
         icon,
         color,
-        articleUrls: [],
+        articleIds: [],
         isSmartCollection: true,
         smartFilter: {
           type: filterType,
@@ -331,8 +431,7 @@ class TagsService {
         updatedAt: Date.now(),
       };
 
-      collections.push(newCollection);
-      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+      await this.insertCollection(db, newCollection);
       return newCollection;
     } catch (error) {
       console.error('Error creating smart collection:', error);
@@ -343,20 +442,42 @@ class TagsService {
   // Update a collection
   async updateCollection(collectionId: string, updates: Partial<Collection>): Promise<void> {
     try {
-      const collections = await this.getCollections();
-      const index = collections.findIndex(c => c.id === collectionId);
-      
-      if (index === -1) {
+      const current = await this.getCollection(collectionId);
+
+      if (!current) {
         throw new Error('Collection not found');
       }
 
-      collections[index] = {
-        ...collections[index],
+      const collection: Collection = {
+        ...current,
         ...updates,
+        id: collectionId,
         updatedAt: Date.now(),
       };
-      
-      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+
+      await runInTransaction(async (db) => {
+        await db.runAsync(
+          `UPDATE collections SET name = ?, description = ?, icon = ?, color = ?, is_smart = ?,
+             smart_filter_type = ?, smart_filter_value = ?, created_at = ?, updated_at = ?
+           WHERE id = ?`,
+          collection.name,
+          collection.description,
+          collection.icon,
+          collection.color,
+          collection.isSmartCollection ? 1 : 0,
+          collection.smartFilter?.type ?? null,
+          collection.smartFilter?.value ?? null,
+          collection.createdAt,
+          collection.updatedAt,
+          collectionId
+        );
+
+        if (updates.articleIds) {
+          await db.runAsync('DELETE FROM collection_articles WHERE collection_id = ?', collectionId);
+          await this.insertCollectionArticles(db, collectionId, collection.articleIds);
+          await articleStore.removeUnreferenced(db);
+        }
+      });
     } catch (error) {
       console.error('Error updating collection:', error);
       throw error;
@@ -366,34 +487,41 @@ class TagsService {
   // Delete a collection
   async deleteCollection(collectionId: string): Promise<void> {
     try {
-      const collections = await this.getCollections();
-      const filtered = collections.filter(c => c.id !== collectionId);
-      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(filtered));
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM collection_articles WHERE collection_id = ?', collectionId);
+        await db.runAsync('DELETE FROM collections WHERE id = ?', collectionId);
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error deleting collection:', error);
       throw error;
     }
   }
 
-  // Add article to collection
-  async addArticleToCollection(collectionId: string, articleUrl: string): Promise<void> {
+  // Add article to collection; the article is stored so the collection can show it later
+  async addArticleToCollection(collectionId: string, article: Article): Promise<void> {
     try {
-      const collections = await this.getCollections();
-      const collection = collections.find(c => c.id === collectionId);
+      const db = await getDatabase();
+      const collection = await db.getFirstAsync<CollectionRow>('SELECT * FROM collections WHERE id = ?', collectionId);
 
       if (!collection) {
         throw new Error('Collection not found');
       }
 
-      if (collection.isSmartCollection) {
+      if (collection.is_smart === 1) {
         throw new Error('Cannot manually add articles to smart collections');
       }
 
-      if (!collection.articleUrls.includes(articleUrl)) {
-        collection.articleUrls.push(articleUrl);
-        collection.updatedAt = Date.now();
-        await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
-      }
+      await runInTransaction(async (txn) => {
+        const articleId = await articleStore.saveArticle(article, txn);
+        const result = await txn.runAsync(
+          'INSERT OR IGNORE INTO collection_articles (collection_id, article_id) VALUES (?, ?)',
+          collectionId, articleId
+        );
+        if (result.changes > 0) {
+          await txn.runAsync('UPDATE collections SET updated_at = ? WHERE id = ?', Date.now(), collectionId);
+        }
+      });
     } catch (error) {
       console.error('Error adding article to collection:', error);
       throw error;
@@ -403,20 +531,25 @@ class TagsService {
   // Remove article from collection
   async removeArticleFromCollection(collectionId: string, articleUrl: string): Promise<void> {
     try {
-      const collections = await this.getCollections();
-      const collection = collections.find(c => c.id === collectionId);
+      const db = await getDatabase();
+      const collection = await db.getFirstAsync<CollectionRow>('SELECT * FROM collections WHERE id = ?', collectionId);
 
       if (!collection) {
         throw new Error('Collection not found');
       }
 
-      if (collection.isSmartCollection) {
+      if (collection.is_smart === 1) {
         throw new Error('Cannot manually remove articles from smart collections');
       }
 
-      collection.articleUrls = collection.articleUrls.filter(url => url !== articleUrl);
-      collection.updatedAt = Date.now();
-      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+      await runInTransaction(async (txn) => {
+        await txn.runAsync(
+          'DELETE FROM collection_articles WHERE collection_id = ? AND article_id = ?',
+          collectionId, getArticleId(articleUrl)
+        );
+        await txn.runAsync('UPDATE collections SET updated_at = ? WHERE id = ?', Date.now(), collectionId);
+        await articleStore.removeUnreferenced(txn);
+      });
     } catch (error) {
       console.error('Error removing article from collection:', error);
       throw error;
@@ -426,21 +559,29 @@ class TagsService {
   // Get collections containing an article
   async getCollectionsForArticle(articleUrl: string): Promise<Collection[]> {
     try {
-      const collections = await this.getCollections();
-      return collections.filter(c => c.articleUrls.includes(articleUrl));
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ collection_id: string }>(
+        'SELECT collection_id FROM collection_articles WHERE article_id = ?',
+        getArticleId(articleUrl)
+      );
+
+      const collections = await Promise.all(rows.map(row => this.getCollection(row.collection_id)));
+      return collections.filter((c): c is Collection => c !== null);
     } catch (error) {
       console.error('Error getting collections for article:', error);
       return [];
     }
   }
 
-  // Get articles with specific tag
+  // Get IDs of articles with specific tag
   async getArticlesWithTag(tagId: string): Promise<string[]> {
     try {
-      const articleTags = await this.getAllArticleTags();
-      return articleTags
-        .filter(at => at.tagIds.includes(tagId))
-        .map(at => at.articleUrl);
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<{ article_id: string }>(
+        'SELECT article_id FROM article_tags WHERE tag_id = ? ORDER BY rowid',
+        tagId
+      );
+      return rows.map(row => row.article_id);
     } catch (error) {
       console.error('Error getting articles with tag:', error);
       return [];
@@ -450,8 +591,12 @@ class TagsService {
   // Get tag usage count
   async getTagUsageCount(tagId: string): Promise<number> {
     try {
-      const articles = await this.getArticlesWithTag(tagId);
-      return articles.length;
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM article_tags WHERE tag_id = ?',
+        tagId
+      );
+      return row?.count || 0;
     } catch (error) {
       console.error('Error getting tag usage count:', error);
       return 0;
@@ -465,8 +610,11 @@ class TagsService {
   // Clear all tags
   async clearAllTags(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(TAGS_STORAGE_KEY);
-      await AsyncStorage.removeItem(ARTICLE_TAGS_STORAGE_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM tags');
+        await db.runAsync('DELETE FROM article_tags');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing tags:', error);
       throw error;
@@ -476,7 +624,11 @@ class TagsService {
   // Clear all collections
   async clearAllCollections(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(COLLECTIONS_STORAGE_KEY);
+      await runInTransaction(async (db) => {
+        await db.runAsync('DELETE FROM collection_articles');
+        await db.runAsync('DELETE FROM collections');
+        await articleStore.removeUnreferenced(db);
+      });
     } catch (error) {
       console.error('Error clearing collections:', error);
       throw error;
@@ -491,15 +643,25 @@ class TagsService {
     totalSmartCollections: number;
   }> {
     try {
-      const tags = await this.getTags();
-      const collections = await this.getCollections();
-      const articleTags = await this.getAllArticleTags();
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<{
+        totalTags: number;
+        totalCollections: number;
+        totalTaggedArticles: number;
+        totalSmartCollections: number;
+      }>(
+        `SELECT
+           (SELECT COUNT(*) FROM tags) AS totalTags,
+           (SELECT COUNT(*) FROM collections) AS totalCollections,
+           (SELECT COUNT(DISTINCT article_id) FROM article_tags) AS totalTaggedArticles,
+           (SELECT COUNT(*) FROM collections WHERE is_smart = 1) AS totalSmartCollections`
+      );
 
       return {
-        totalTags: tags.length,
-        totalCollections: collections.length,
-        totalTaggedArticles: articleTags.filter(at => at.tagIds.length > 0).length,
-        totalSmartCollections: collections.filter(c => c.isSmartCollection).length,
+        totalTags: row?.totalTags || 0,
+        totalCollections: row?.totalCollections || 0,
+        totalTaggedArticles: row?.totalTaggedArticles || 0,
+        totalSmartCollections: row?.totalSmartCollections || 0,
       };
     } catch (error) {
       console.error('Error getting statistics:', error);
@@ -511,7 +673,94 @@ class TagsService {
       };
     }
   }
-}
 
-export const tagsService = new TagsService();
+  /**
+   * ========== BULK REPLACE (storage migrations & backup restore) ==========
+   */
+
+  // Replace every tag
+  async replaceAllTags(tags: Tag[], transaction?: SQLiteDatabase): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM tags');
+      for (const tag of tags) {
+        await db.runAsync(
+          'INSERT OR REPLACE INTO tags (id, name, color, created_at) VALUES (?, ?, ?, ?)',
+          tag.id, tag.name, tag.color, tag.createdAt
+        );
+      }
+    }, transaction);
+  }
+
+  // Replace every tag assignment
+  async replaceAllArticleTags(
+    articleTags: (ArticleTag | LegacyArticleTag)[],
+    transaction?: SQLiteDatabase
+  ): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM article_tags');
+      for (const articleTag of articleTags) {
+        const articleId = getArticleId('articleId' in articleTag ? articleTag.articleId : articleTag.articleUrl);
+        for (const tagId of articleTag.tagIds) {
+          await db.runAsync(
+            'INSERT OR IGNORE INTO article_tags (article_id, tag_id) VALUES (?, ?)',
+            articleId, tagId
+          );
+        }
+      }
+    }, transaction);
+  }
+
+  // Replace every collection and its article references; the articles themselves are restored separately
+  async replaceAllCollections(
+    collections: (Collection | LegacyCollection)[],
+    transaction?: SQLiteDatabase
+  ): Promise<void> {
+    await runInTransaction(async (db) => {
+      await db.runAsync('DELETE FROM collection_articles');
+      await db.runAsync('DELETE FROM collections');
+      for (const collection of collections) {
+        // insertCollectionArticles turns URLs into IDs
+        await this.insertCollection(
+          db,
+          'articleIds' in collection ? collection : { ...collection, articleIds: collection.articleUrls }
+        );
+      }
+    }, transaction);
+  }
+
+  /**
+   * ========== HELPERS ==========
+   */
+
+  private async insertCollection(db: SQLiteDatabase, collection: Collection): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO collections
+         (id, name, description, icon, color, is_smart, smart_filter_type, smart_filter_value, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      collection.id,
+      collection.name,
+      collection.description,
+      collection.icon,
+      collection.color,
+      collection.isSmartCollection ? 1 : 0,
+      collection.smartFilter?.type ?? null,
+      collection.smartFilter?.value ?? null,
+      collection.createdAt,
+      collection.updatedAt
+    );
+    await this.insertCollectionArticles(db, collection.id, collection.articleIds);
+  }
+
+  private async insertCollectionArticles(db: SQLiteDatabase, collectionId: string, articleIds: string[]): Promise<void> {
+    for (const articleId of articleIds) {
+      // Older data only knows the URL; keep a placeholder until the article is stored in full
+      await articleStore.ensureArticle(articleId, articleId, db);
+      await db.runAsync(
+        'INSERT OR IGNORE INTO collection_articles (collection_id, article_id) VALUES (?, ?)',
+        collectionId, getArticleId(articleId)
+      );
+    }
+  }
+}
 
+export const tagsService = new TagsService();
\ No newline at end of file
@@ -33,3 +33,29 @@ export interface CategoryItem {
   icon: string;
 }
 
+
+export interface ArticlePage {
+  articles: Article[];
+  totalResults: number;
+  page: number;
+  hasMore: boolean;
+}
+
+export interface NewsProviderCapabilities {
+  categories: Category[]; // Categories the provider can serve headlines for
+  search: boolean; // Supports keyword search
+  pagination: boolean; // Supports requesting pages beyond the first
+  pageSize: number;
+}
+
+/**
+ * A source of articles. Each provider maps its own payload into `Article`
+ * objects and reports its own pagination.
+ */
+export interface NewsProvider {
+  id: string;
+  name: string;
+  capabilities: NewsProviderCapabilities;
+  getTopHeadlines: (category: Category, page: number) => Promise<ArticlePage>;
+  searchNews: (query: string, page: number) => Promise<ArticlePage>;
+}